@@ -1,12 +1,54 @@
-import { Bot, Context, session, SessionFlavor, Keyboard, InlineKeyboard } from 'grammy';
+import { Bot, Context, session, SessionFlavor, Keyboard, InlineKeyboard, InputFile } from 'grammy';
 import { config } from './config/config';
 import { log, logError } from './utils/logger';
 import { cryptoService } from './services/crypto.service';
-import { duneService } from './services/dune.service';
 import { aiService } from './services/ai.service';
+import { AIResponseError } from './services/llm.service';
+import { usageService, QuotaExceededError } from './services/usage.service';
+import { signalService } from './services/signal.service';
 import { voiceService } from './services/voice.service';
 import { webhookService } from './services/webhook.service';
-import { redisService } from './services/redis.service';
+import { alertService } from './services/alert.service';
+import { symbolService, CoinInfo } from './services/symbol.service';
+import { portfolioService } from './services/portfolio.service';
+import { paperTradingService } from './services/paper.service';
+import { tradingService, TradingError } from './services/trading.service';
+import { digestService, DIGEST_SLOTS } from './services/digest.service';
+import { watchlistService } from './services/watchlist.service';
+import { anomalyService } from './services/anomaly.service';
+import { whaleService } from './services/whale.service';
+import { addressWatchService } from './services/address-watch.service';
+import { stakingService } from './services/staking.service';
+import { polkadotService } from './services/polkadot.service';
+import { BinanceApiError } from './providers/binance-trading.provider';
+import { technicalAnalysisService } from './services/technical.service';
+import { chartService } from './services/chart.service';
+import { backtestService } from './services/backtest.service';
+import { AlertRule, AlertRuleType, FiredAlert, PriceAlert } from './types/alert';
+import { checkRuleTarget, describeRule, parseRuleInput } from './utils/alert-rules';
+import { CostBasisMethod, HoldingValuation, TransactionType } from './types/portfolio';
+import { isCostBasisMethod } from './utils/portfolio-math';
+import { MarketCapBucket, MoversTab } from './types/market';
+import { PaperOrder, PaperOrderSide, PaperOrderType } from './types/paper';
+import { ExchangeOrder, PendingOrder } from './types/trading';
+import { DigestSlot } from './types/digest';
+import { AnomalyDetection } from './types/anomaly';
+import { WhaleTransaction } from './types/whale';
+import { AddressActivity, AddressWatch } from './types/address-watch';
+import { StakingWatch, ValidatorChange } from './types/staking';
+import { getExplorerAccountUrl, shortenAddress } from './utils/explorers';
+import { detectChain, formatTokens } from './utils/polkadot';
+import { SubstrateChain } from './types/polkadot';
+import { isValidTimezone, parseTimeOfDay } from './utils/schedule';
+import { sparkline } from './utils/sparkline';
+import { TradingSignal } from './types/ai';
+import { UsagePeriod, UsageTotals, UserTier } from './types/usage';
+import { SignalStats } from './types/signal';
+import { importTrades, parseColumnMapping } from './utils/trade-importers';
+import { KLINE_INTERVAL_NAMES, KlineInterval, isKlineInterval } from './utils/intervals';
+import { CHART_OVERLAYS, ChartOverlay } from './utils/charts';
+import { BacktestResult, BacktestStrategy, describeStrategy, parseStrategy, strategyToArgs } from './utils/backtest';
+import { MARKET_CAP_BUCKETS, MOVERS_TABS, getTurnover, isMarketCapBucket, isMoversTab } from './utils/movers';
 
 interface SessionData {
   userId: number;
@@ -14,6 +56,7 @@ interface SessionData {
   awaitingInput?: {
     command: string;
     step: string;
+    symbol?: string;
   };
 }
 
@@ -22,7 +65,14 @@ type BotContext = Context & SessionFlavor<SessionData>;
 class SentinelTradeBot {
   private bot: Bot<BotContext>;
   private readonly mainKeyboard: Keyboard;
-  private readonly popularCoins = ['BTC', 'ETH', 'DOT', 'BNB', 'SOL'];
+  private readonly alertConditions: Array<{ type: AlertRuleType; label: string; prompt: string }> = [
+    { type: 'above', label: '📈 Crosses Above', prompt: 'Enter the price {symbol} must rise above:' },
+    { type: 'below', label: '📉 Crosses Below', prompt: 'Enter the price {symbol} must fall below:' },
+    { type: 'percent_move', label: '↕️ % Move', prompt: 'Enter the move in % and the window in minutes (e.g. "5 60"):' },
+    { type: 'range_exit', label: '🎯 Exits Band', prompt: 'Enter the lower and upper price of the band (e.g. "25000 30000"):' },
+    { type: 'volume_above', label: '📊 24h Volume', prompt: 'Enter the 24h volume in USD that {symbol} must exceed:' },
+    { type: 'trailing', label: '🪜 Trailing', prompt: 'Enter the trail distance in % (e.g. "5"). Add "up" to trail a falling price (e.g. "5 up"):' },
+  ];
 
   constructor() {
     this.bot = new Bot<BotContext>(config.telegram.botToken);
@@ -46,7 +96,18 @@ class SentinelTradeBot {
     this.setupCommandHandlers();
     this.setupCallbackHandlers();
     this.setupVoiceHandler();
+    this.setupDocumentHandler();
     this.setupErrorHandler();
+
+    alertService.onAlertFired((alert) => this.notifyAlertFired(alert));
+    paperTradingService.onOrderSettled((userId, order) => this.notifyPaperOrder(userId, order));
+    digestService.onDigest(async (userId, message) => {
+      await this.bot.api.sendMessage(userId, message);
+    });
+    anomalyService.onAnomaly((userId, detection, explanation) => this.notifyAnomaly(userId, detection, explanation));
+    whaleService.onWhale((userId, tx, explorerUrl) => this.notifyWhale(userId, tx, explorerUrl));
+    addressWatchService.onActivity((userId, activity, watch) => this.notifyAddressActivity(userId, activity, watch));
+    stakingService.onValidatorChange((userId, watch, changes) => this.notifyValidatorChanges(userId, watch, changes));
   }
 
   private setupCommandHandlers(): void {
@@ -64,6 +125,476 @@ class SentinelTradeBot {
       }
     });
 
+    // Active alert management
+    this.bot.command('alerts', async (ctx: BotContext) => {
+      try {
+        await this.showAlertList(ctx);
+      } catch (error) {
+        logError(error as Error, 'alerts command');
+      }
+    });
+
+    // Fired alert history
+    this.bot.command('history', async (ctx: BotContext) => {
+      try {
+        await this.showFiredAlerts(ctx, 0);
+      } catch (error) {
+        logError(error as Error, 'history command');
+      }
+    });
+
+    // Portfolio ledger commands
+    const ledgerCommands: Array<[string, TransactionType]> = [
+      ['add', 'transfer_in'],
+      ['remove', 'transfer_out'],
+      ['buy', 'buy'],
+      ['sell', 'sell'],
+    ];
+    for (const [name, type] of ledgerCommands) {
+      this.bot.command(name, async (ctx: BotContext) => {
+        try {
+          await this.handleLedgerCommand(ctx, name, type);
+        } catch (error) {
+          logError(error as Error, `${name} command`);
+          await ctx.reply('An error occurred. Please try again.');
+        }
+      });
+    }
+
+    this.bot.command('ledger', async (ctx: BotContext) => {
+      try {
+        await this.showLedger(ctx);
+      } catch (error) {
+        logError(error as Error, 'ledger command');
+      }
+    });
+
+    // Technical indicators: /ta <symbol> [interval]
+    this.bot.command('ta', async (ctx: BotContext) => {
+      try {
+        const [symbol, interval = '1d'] = this.getCommandArgs(ctx);
+        if (!symbol || !isKlineInterval(interval)) {
+          await ctx.reply(`Usage: /ta <symbol> [interval]\nIntervals: ${KLINE_INTERVAL_NAMES.join(', ')}`);
+          return;
+        }
+        await this.handleTechnicalCommand(ctx, symbol, interval);
+      } catch (error) {
+        logError(error as Error, 'ta command');
+        await ctx.reply('Could not compute indicators. Please try again.');
+      }
+    });
+
+    // AI usage: /usage for your own quota; admins also get /usage report [day|month] [YYYY-MM(-DD)]
+    this.bot.command('usage', async (ctx: BotContext) => {
+      try {
+        const [subcommand, period, date] = this.getCommandArgs(ctx);
+        if (subcommand === 'report') {
+          await this.showUsageReport(ctx, period === 'day' ? 'day' : 'month', date);
+        } else {
+          await this.showUsage(ctx);
+        }
+      } catch (error) {
+        logError(error as Error, 'usage command');
+        await ctx.reply('Could not load usage. Please try again.');
+      }
+    });
+
+    // Signal track record: /signals for recent calls, /signals stats [symbol] [interval]
+    this.bot.command('signals', async (ctx: BotContext) => {
+      try {
+        const [subcommand, symbol, interval] = this.getCommandArgs(ctx);
+        if (subcommand === 'stats') {
+          await this.showSignalStats(ctx, symbol, interval);
+        } else {
+          await this.showRecentSignals(ctx);
+        }
+      } catch (error) {
+        logError(error as Error, 'signals command');
+        await ctx.reply('Could not load signals. Please try again.');
+      }
+    });
+
+    // Admin: /settier <userId> <free|pro|unlimited>
+    this.bot.command('settier', async (ctx: BotContext) => {
+      try {
+        if (!this.isAdmin(ctx)) return;
+        const [userIdArg, tier] = this.getCommandArgs(ctx);
+        const userId = parseInt(userIdArg, 10);
+        if (isNaN(userId) || !['free', 'pro', 'unlimited'].includes(tier)) {
+          await ctx.reply('Usage: /settier <userId> <free|pro|unlimited>');
+          return;
+        }
+        await usageService.setTier(userId, tier as UserTier);
+        await ctx.reply(`✅ User ${userId} is now on the ${tier} tier.`);
+      } catch (error) {
+        logError(error as Error, 'settier command');
+      }
+    });
+
+    // Price charts: /chart <symbol> [interval] [line] [sma] [ema] [bb] [novol]
+    this.bot.command('chart', async (ctx: BotContext) => {
+      try {
+        const [symbol, ...options] = this.getCommandArgs(ctx);
+        const interval = options.find(isKlineInterval) ?? '1d';
+        const unknown = options.filter(
+          (option) => !isKlineInterval(option) && !['line', 'candle', 'sma', 'ema', 'bb', 'novol'].includes(option.toLowerCase())
+        );
+        if (!symbol || unknown.length > 0) {
+          await ctx.reply(
+            'Usage: /chart <symbol> [interval] [line] [sma] [ema] [bb] [novol]\n' +
+              `Intervals: ${KLINE_INTERVAL_NAMES.join(', ')}`
+          );
+          return;
+        }
+
+        const lower = options.map((option) => option.toLowerCase());
+        const overlays = CHART_OVERLAYS.filter((overlay) =>
+          lower.includes(overlay === 'bollinger' ? 'bb' : overlay)
+        );
+        await this.handleChartCommand(ctx, symbol, interval, {
+          type: lower.includes('line') ? 'line' : 'candle',
+          overlays: overlays.length > 0 ? overlays : ['sma'],
+          volume: !lower.includes('novol'),
+        });
+      } catch (error) {
+        logError(error as Error, 'chart command');
+        await ctx.reply('Could not render the chart. Please try again.');
+      }
+    });
+
+    // Digest subscriptions, same menu as Settings → Daily Digests
+    this.bot.command('digest', async (ctx: BotContext) => {
+      try {
+        await this.showDigestSettings(ctx);
+      } catch (error) {
+        logError(error as Error, 'digest command');
+      }
+    });
+
+    // Market movers: /movers [gainers|losers|volume|trending] [all|large|mid|small]
+    this.bot.command('movers', async (ctx: BotContext) => {
+      try {
+        const args = this.getCommandArgs(ctx).map((arg) => arg.toLowerCase());
+        const tab = args.find(isMoversTab) ?? 'gainers';
+        const bucket = args.find(isMarketCapBucket) ?? 'all';
+        await this.showMovers(ctx, tab, bucket, 0);
+      } catch (error) {
+        logError(error as Error, 'movers command');
+        await ctx.reply('Could not load market movers. Please try again.');
+      }
+    });
+
+    // Anomaly alerts: /anomalies [on|off <symbol>]
+    this.bot.command('anomalies', async (ctx: BotContext) => {
+      try {
+        if (!ctx.from?.id) return;
+        const [action, input] = this.getCommandArgs(ctx);
+        if (!action) {
+          await this.showAnomalySubscriptions(ctx);
+          return;
+        }
+        if ((action !== 'on' && action !== 'off') || !input) {
+          await ctx.reply('Usage: /anomalies on <symbol> | /anomalies off <symbol>');
+          return;
+        }
+
+        const coin = await this.resolveCoinForOrder(ctx, input, (id) => `/anomalies ${action} ${id}`);
+        if (!coin) return;
+        if (action === 'on') {
+          await anomalyService.subscribe(ctx.from.id, coin.id);
+          await ctx.reply(
+            `✅ Watching ${this.formatCoin(coin)} for anomalies on ${config.anomaly.interval} candles: ` +
+              'return and volume spikes, gaps and volatility regime shifts.'
+          );
+        } else {
+          await anomalyService.unsubscribe(ctx.from.id, coin.id);
+          await ctx.reply(`🔕 Stopped anomaly alerts for ${this.formatCoin(coin)}.`);
+        }
+      } catch (error) {
+        logError(error as Error, 'anomalies command');
+        await ctx.reply('An error occurred. Please try again.');
+      }
+    });
+
+    // On-chain Polkadot data straight from an RPC node: /dot [kusama] | /dot balance <address>
+    this.bot.command('dot', async (ctx: BotContext) => {
+      try {
+        const [subcommand, ...args] = this.getCommandArgs(ctx);
+        switch (subcommand?.toLowerCase()) {
+          case undefined:
+          case 'polkadot':
+          case 'kusama':
+          case 'ksm':
+            await this.showChainOverview(ctx, subcommand && subcommand.toLowerCase() !== 'polkadot' ? 'kusama' : 'polkadot');
+            break;
+          case 'balance':
+            await this.showChainBalance(ctx, args[0]);
+            break;
+          default:
+            await ctx.reply(
+              '/dot — Polkadot network overview\n' +
+                '/dot kusama — Kusama network overview\n' +
+                '/dot balance <address> — balances of a Polkadot or Kusama address'
+            );
+        }
+      } catch (error) {
+        logError(error as Error, 'dot command');
+        await ctx.reply('Could not reach the chain node. Please try again later.');
+      }
+    });
+
+    // Staking dashboard: /staking [<address> | off <address>]
+    this.bot.command('staking', async (ctx: BotContext) => {
+      try {
+        if (!ctx.from?.id) return;
+        const args = this.getCommandArgs(ctx);
+        if (args.length === 0) {
+          await this.showStakingWatches(ctx);
+          return;
+        }
+
+        if (args[0].toLowerCase() === 'off' && args[1]) {
+          const removed = await stakingService.unwatch(ctx.from.id, args[1]);
+          await ctx.reply(removed ? '🔕 Stopped validator alerts for that stash.' : "You don't get validator alerts for that stash.");
+          return;
+        }
+        await this.showStakingDashboard(ctx, args[0]);
+      } catch (error) {
+        logError(error as Error, 'staking command');
+        await ctx.reply('Could not read staking data from the chain. Please try again later.');
+      }
+    });
+
+    // Whale watch: /whales [<symbol> <min amount> | off <symbol>], only with a Dune query to poll
+    if (config.whales.queryId !== undefined) {
+      this.bot.command('whales', async (ctx: BotContext) => {
+        try {
+          if (!ctx.from?.id) return;
+          const args = this.getCommandArgs(ctx);
+          if (args.length === 0) {
+            await this.showWhaleSubscriptions(ctx);
+            return;
+          }
+
+          if (args[0].toLowerCase() === 'off' && args[1]) {
+            const removed = await whaleService.unsubscribe(ctx.from.id, args[1]);
+            await ctx.reply(removed ? `🔕 Stopped whale alerts for ${args[1].toUpperCase()}.` : `You aren't watching ${args[1].toUpperCase()}.`);
+            return;
+          }
+
+          const minAmount = parseFloat((args[1] || '').replace(/,/g, ''));
+          if (args.length !== 2 || isNaN(minAmount)) {
+            await ctx.reply('Usage: /whales <symbol> <min amount>, e.g. /whales DOT 100000\nStop with /whales off <symbol>');
+            return;
+          }
+          const result = await whaleService.subscribe(ctx.from.id, args[0], minAmount);
+          await ctx.reply(`${result.success ? '🐋' : '❌'} ${result.message}`);
+        } catch (error) {
+          logError(error as Error, 'whales command');
+          await ctx.reply('An error occurred. Please try again.');
+        }
+      });
+    }
+
+    // Address watch: /wallets [add <address> [label] | remove <address> | sync <address> on|off]
+    this.bot.command('wallets', async (ctx: BotContext) => {
+      try {
+        if (!ctx.from?.id) return;
+        const [subcommand, target, ...rest] = this.getCommandArgs(ctx);
+        let result: { success: boolean; message: string };
+        switch (subcommand?.toLowerCase()) {
+          case undefined:
+            await this.showAddressWatches(ctx);
+            return;
+          case 'add':
+            if (!target) break;
+            result = await addressWatchService.watch(ctx.from.id, target, rest.join(' '));
+            await ctx.reply(`${result.success ? '👛' : '❌'} ${result.message}`);
+            return;
+          case 'remove':
+            if (!target) break;
+            result = await addressWatchService.unwatch(ctx.from.id, target);
+            await ctx.reply(`${result.success ? '🔕' : '❌'} ${result.message}`);
+            return;
+          case 'sync':
+            if (!target || !['on', 'off'].includes(rest[0]?.toLowerCase())) break;
+            result = await addressWatchService.setSync(ctx.from.id, target, rest[0].toLowerCase() === 'on');
+            await ctx.reply(`${result.success ? '💼' : '❌'} ${result.message}`);
+            return;
+        }
+        await ctx.reply(this.walletsUsage);
+      } catch (error) {
+        logError(error as Error, 'wallets command');
+        await ctx.reply('An error occurred. Please try again.');
+      }
+    });
+
+    // Watchlists: /watch [show|list|add|remove|use|delete]
+    this.bot.command('watch', async (ctx: BotContext) => {
+      try {
+        const [subcommand, ...args] = this.getCommandArgs(ctx);
+        switch (subcommand?.toLowerCase()) {
+          case undefined:
+            await this.showWatchlistSnapshot(ctx);
+            break;
+          case 'show':
+            await this.showWatchlistSnapshot(ctx, args[0]);
+            break;
+          case 'list':
+            await this.showWatchlists(ctx);
+            break;
+          case 'add':
+            await this.handleWatchAdd(ctx, args);
+            break;
+          case 'remove':
+            await this.handleWatchRemove(ctx, args);
+            break;
+          case 'use':
+          case 'delete': {
+            if (!ctx.from?.id || !args[0]) {
+              await ctx.reply(this.watchUsage);
+              break;
+            }
+            const result = subcommand.toLowerCase() === 'use'
+              ? await watchlistService.setActive(ctx.from.id, args[0])
+              : await watchlistService.deleteList(ctx.from.id, args[0]);
+            await ctx.reply(`${result.success ? '✅' : '❌'} ${result.message}`);
+            break;
+          }
+          default:
+            await ctx.reply(this.watchUsage);
+        }
+      } catch (error) {
+        logError(error as Error, 'watch command');
+        await ctx.reply('An error occurred. Please try again.');
+      }
+    });
+
+    // Paper trading: /paper [buy|sell|orders|fills|cancel|reset]
+    this.bot.command('paper', async (ctx: BotContext) => {
+      try {
+        const [subcommand, ...args] = this.getCommandArgs(ctx);
+        switch (subcommand?.toLowerCase()) {
+          case undefined:
+            await this.showPaperAccount(ctx);
+            break;
+          case 'buy':
+          case 'sell':
+            await this.handlePaperOrderCommand(ctx, subcommand.toLowerCase() as PaperOrderSide, args);
+            break;
+          case 'orders':
+            await this.showPaperOrders(ctx);
+            break;
+          case 'fills':
+            await this.showPaperFills(ctx);
+            break;
+          case 'cancel':
+            await this.cancelPaperOrder(ctx, args[0]);
+            break;
+          case 'reset':
+            await this.confirmPaperReset(ctx);
+            break;
+          default:
+            await ctx.reply(this.paperUsage);
+        }
+      } catch (error) {
+        logError(error as Error, 'paper command');
+        await ctx.reply('An error occurred. Please try again.');
+      }
+    });
+
+    // Exchange orders (admins): /trade [buy|sell|orders|status|cancel|limits]
+    this.bot.command('trade', async (ctx: BotContext) => {
+      try {
+        if (!this.isAdmin(ctx)) return;
+        const [subcommand, ...args] = this.getCommandArgs(ctx);
+        switch (subcommand?.toLowerCase()) {
+          case undefined:
+          case 'limits':
+            await this.showTradingLimits(ctx);
+            break;
+          case 'buy':
+          case 'sell':
+            await this.handleTradeCommand(ctx, subcommand.toUpperCase() as 'BUY' | 'SELL', args);
+            break;
+          case 'orders':
+            await this.showExchangeOrders(ctx, args[0]);
+            break;
+          case 'status':
+          case 'cancel': {
+            const orderId = parseInt(args[1], 10);
+            if (!args[0] || isNaN(orderId)) {
+              await ctx.reply(this.tradeUsage);
+              return;
+            }
+            const pair = await this.toTradingPair(args[0]);
+            const order = subcommand.toLowerCase() === 'cancel'
+              ? await tradingService.cancelOrder(pair, orderId)
+              : await tradingService.getOrder(pair, orderId);
+            await ctx.reply(this.formatExchangeOrder(order));
+            break;
+          }
+          default:
+            await ctx.reply(this.tradeUsage);
+        }
+      } catch (error) {
+        if (await this.replyIfTradingError(ctx, error)) return;
+        logError(error as Error, 'trade command');
+        await ctx.reply('An error occurred. Please try again.');
+      }
+    });
+
+    // Admin: /killswitch [on|off] halts or resumes all exchange orders
+    this.bot.command('killswitch', async (ctx: BotContext) => {
+      try {
+        if (!this.isAdmin(ctx) || !ctx.from?.id) return;
+        const [state] = this.getCommandArgs(ctx);
+        if (state === 'on' || state === 'off') {
+          await tradingService.setHalted(state === 'on', ctx.from.id);
+        }
+        const halted = await tradingService.isHalted();
+        await ctx.reply(
+          halted
+            ? '🛑 Trading is HALTED. No exchange orders will be placed.' +
+                (config.trading.killSwitch ? '\n(TRADING_KILL_SWITCH is set in the environment.)' : '')
+            : '✅ Trading is enabled.',
+          {
+            reply_markup: new InlineKeyboard().text(
+              halted ? '▶️ Resume Trading' : '🛑 Halt Trading',
+              halted ? 'trade_killswitch:off' : 'trade_killswitch:on'
+            ),
+          }
+        );
+      } catch (error) {
+        logError(error as Error, 'killswitch command');
+      }
+    });
+
+    // Strategy backtests: /backtest <symbol> <rsi|sma|dca> [params] [interval]
+    this.bot.command('backtest', async (ctx: BotContext) => {
+      try {
+        const [symbol, ...options] = this.getCommandArgs(ctx);
+        const interval = options.find(isKlineInterval) ?? '1d';
+        const strategy = parseStrategy(options.filter((option) => !isKlineInterval(option)));
+        if (!symbol || !strategy) {
+          await ctx.reply(
+            'Usage: /backtest <symbol> <strategy> [params] [interval]\n' +
+              'Strategies:\n' +
+              '• rsi [period=14] [buyBelow=30] [sellAbove=70]\n' +
+              '• sma [fast=20] [slow=50]\n' +
+              '• dca [everyNCandles=7] [amount=100]\n' +
+              `Intervals: ${KLINE_INTERVAL_NAMES.join(', ')}\n` +
+              'Example: /backtest btc rsi 14 25 75 4h'
+          );
+          return;
+        }
+        await this.handleBacktestCommand(ctx, symbol, interval, strategy);
+      } catch (error) {
+        logError(error as Error, 'backtest command');
+        await ctx.reply('Could not run the backtest. Please try again.');
+      }
+    });
+
     // Handle text messages including keyboard buttons
     this.bot.on('message:text', async (ctx: BotContext) => {
       try {
@@ -103,35 +634,38 @@ class SentinelTradeBot {
   }
 
   private async showPriceMenu(ctx: BotContext): Promise<void> {
-    const keyboard = new InlineKeyboard();
-    
-    // Add popular coins in a grid
-    for (let i = 0; i < this.popularCoins.length; i += 2) {
-      const buttons = this.popularCoins.slice(i, i + 2).map(coin => 
-        ({ text: coin, callback_data: `price_${coin}` })
-      );
-      keyboard.row(...buttons);
-    }
-    
-    keyboard.row({ text: "🔍 Other Coin", callback_data: "price_other" });
+    const keyboard = await this.buildWatchlistKeyboard(ctx, 'price');
+    keyboard.row(
+      { text: "🔍 Other Coin", callback_data: "price_other" },
+      { text: "👀 Watchlist", callback_data: "watch_snap:" }
+    );
 
     await ctx.reply("Select a cryptocurrency to check its price:", {
       reply_markup: keyboard
     });
   }
 
-  private async showAlertMenu(ctx: BotContext): Promise<void> {
+  // Coin buttons from the user's active watchlist, two per row
+  private async buildWatchlistKeyboard(ctx: BotContext, action: 'price' | 'alert' | 'analyze'): Promise<InlineKeyboard> {
     const keyboard = new InlineKeyboard();
-    
-    // Add popular coins in a grid
-    for (let i = 0; i < this.popularCoins.length; i += 2) {
-      const buttons = this.popularCoins.slice(i, i + 2).map(coin => 
-        ({ text: coin, callback_data: `alert_${coin}` })
+    const list = ctx.from?.id ? await watchlistService.getList(ctx.from.id) : null;
+    const coins = await watchlistService.getCoinLabels(list?.coinIds || []);
+    for (let i = 0; i < coins.length; i += 2) {
+      const buttons = coins.slice(i, i + 2).map(({ coinId, label }) =>
+        ({ text: label, callback_data: `${action}_${coinId}` })
       );
       keyboard.row(...buttons);
     }
-    
+    return keyboard;
+  }
+
+  private async showAlertMenu(ctx: BotContext): Promise<void> {
+    const keyboard = await this.buildWatchlistKeyboard(ctx, 'alert');
     keyboard.row({ text: "🔍 Other Coin", callback_data: "alert_other" });
+    keyboard.row(
+      { text: "🗂 My Alerts", callback_data: "manage_open" },
+      { text: "📜 Fired Alerts", callback_data: "history_open" }
+    );
 
     await ctx.reply("Select a cryptocurrency to set a price alert:", {
       reply_markup: keyboard
@@ -139,16 +673,7 @@ class SentinelTradeBot {
   }
 
   private async showAnalysisMenu(ctx: BotContext): Promise<void> {
-    const keyboard = new InlineKeyboard();
-    
-    // Add popular coins in a grid
-    for (let i = 0; i < this.popularCoins.length; i += 2) {
-      const buttons = this.popularCoins.slice(i, i + 2).map(coin => 
-        ({ text: coin, callback_data: `analyze_${coin}` })
-      );
-      keyboard.row(...buttons);
-    }
-    
+    const keyboard = await this.buildWatchlistKeyboard(ctx, 'analyze');
     keyboard.row({ text: "🔍 Other Coin", callback_data: "analyze_other" });
 
     await ctx.reply("Select a cryptocurrency for market analysis:", {
@@ -157,14 +682,17 @@ class SentinelTradeBot {
   }
 
   private async showSettingsMenu(ctx: BotContext): Promise<void> {
-    const keyboard = new InlineKeyboard()
+    await ctx.reply("⚙️ Settings Menu:", {
+      reply_markup: this.buildSettingsKeyboard()
+    });
+  }
+
+  private buildSettingsKeyboard(): InlineKeyboard {
+    return new InlineKeyboard()
       .text("🔔 Notification Settings", "settings_notifications").row()
+      .text("🗞 Daily Digests", "settings_digests").row()
       .text("🌐 Set Webhook", "settings_webhook").row()
       .text("❌ Clear All Alerts", "settings_clear_alerts");
-
-    await ctx.reply("⚙️ Settings Menu:", {
-      reply_markup: keyboard
-    });
   }
 
   private setupCallbackHandlers(): void {
@@ -194,8 +722,15 @@ class SentinelTradeBot {
               reply_markup: { force_reply: true }
             });
           } else {
-            ctx.session.awaitingInput = { command: 'alert', step: 'price' };
-            await ctx.reply(`Enter the target price for ${coin} alert:`, {
+            await this.handleAlertCoinSelected(ctx, coin);
+          }
+        } else if (data.startsWith('cond_')) {
+          const [type, ...rest] = data.replace('cond_', '').split(':');
+          const condition = this.alertConditions.find(c => c.type === type);
+          if (condition) {
+            const coin = rest.join(':');
+            ctx.session.awaitingInput = { command: 'alert', step: condition.type, symbol: coin };
+            await ctx.reply(condition.prompt.replace('{symbol}', coin), {
               reply_markup: { force_reply: true }
             });
           }
@@ -209,8 +744,66 @@ class SentinelTradeBot {
           } else {
             await this.handleAnalysisCommand(ctx, coin);
           }
+        } else if (data.startsWith('ta_') || data.startsWith('signal_') || data.startsWith('chart_')) {
+          // {ta|signal|chart}_{interval}_{coinId}
+          const [action, interval, ...rest] = data.split('_');
+          const coinId = rest.join('_');
+          if (isKlineInterval(interval) && coinId) {
+            if (action === 'ta') {
+              await this.handleTechnicalCommand(ctx, coinId, interval);
+            } else if (action === 'chart') {
+              await this.handleChartCommand(ctx, coinId, interval);
+            } else {
+              await this.handleSignalCallback(ctx, coinId, interval);
+            }
+          }
+        } else if (data.startsWith('backtest_')) {
+          // backtest_{interval}_{strategy key}_{coinId}
+          const [, interval, strategyKey, ...rest] = data.split('_');
+          const strategy = await backtestService.loadStrategy(strategyKey);
+          const coinId = rest.join('_');
+          if (!strategy) {
+            await ctx.reply('This backtest has expired. Please run /backtest again.');
+          } else if (isKlineInterval(interval) && coinId) {
+            await this.handleBacktestCommand(ctx, coinId, interval, strategy);
+          }
+        } else if (data.startsWith('trade_')) {
+          await this.handleTradeCallback(ctx, data);
+        } else if (data.startsWith('paper_')) {
+          await this.handlePaperCallback(ctx, data);
+        } else if (data.startsWith('portfolio_')) {
+          await this.handlePortfolioCallback(ctx, data);
+        } else if (data.startsWith('ledger_del:')) {
+          if (ctx.from?.id) {
+            await portfolioService.deleteTransaction(ctx.from.id, data.replace('ledger_del:', ''));
+            await this.showLedger(ctx, true);
+          }
+        } else if (data.startsWith('manage_')) {
+          await this.handleAlertManageCallback(ctx, data);
+        } else if (data === 'clear_alerts_confirm') {
+          if (ctx.from?.id) {
+            await alertService.clearAlerts(ctx.from.id);
+            await ctx.editMessageText('✅ All alerts cleared.');
+          }
+        } else if (data === 'history_open') {
+          await this.showFiredAlerts(ctx, 0);
+        } else if (data.startsWith('history_')) {
+          const page = parseInt(data.replace('history_', ''), 10) || 0;
+          await this.showFiredAlerts(ctx, page, true);
+        } else if (data.startsWith('digest_')) {
+          await this.handleDigestCallback(ctx, data);
+        } else if (data.startsWith('movers_')) {
+          // movers_{tab}_{bucket}_{page}
+          const [, tab, bucket, page] = data.split('_');
+          if (isMoversTab(tab) && isMarketCapBucket(bucket)) {
+            await this.showMovers(ctx, tab, bucket, parseInt(page, 10) || 0, true);
+          }
+        } else if (data.startsWith('watch_')) {
+          await this.handleWatchCallback(ctx, data);
         } else if (data.startsWith('settings_')) {
           await this.handleSettingsCallback(ctx, data);
+        } else if (data.startsWith('staking_')) {
+          await this.handleStakingCallback(ctx, data);
         }
 
         // Answer the callback query to remove loading state
@@ -223,7 +816,7 @@ class SentinelTradeBot {
   }
 
   private async handleAwaitingInput(ctx: BotContext, text: string): Promise<void> {
-    const { command, step } = ctx.session.awaitingInput!;
+    const { command, step, symbol } = ctx.session.awaitingInput!;
 
     switch (command) {
       case 'price':
@@ -231,23 +824,70 @@ class SentinelTradeBot {
         break;
       case 'alert':
         if (step === 'coin') {
-          ctx.session.awaitingInput = { command: 'alert', step: 'price' };
-          await ctx.reply(`Enter the target price for ${text} alert:`, {
-            reply_markup: { force_reply: true }
-          });
-        } else if (step === 'price') {
-          const price = parseFloat(text);
-          if (isNaN(price)) {
-            await ctx.reply('Invalid price. Please enter a valid number.');
+          await this.handleAlertCoinSelected(ctx, text);
+        } else {
+          const rule = parseRuleInput(step as AlertRuleType, text);
+          if (!rule) {
+            await ctx.reply('Invalid input. Please try again.');
             return;
           }
-          // Handle alert setting
-          await this.handleAlertCommand(ctx, { symbol: text, price: text });
+          if (!(await this.isAlertTargetAhead(ctx, symbol!, rule))) return;
+          await this.createAlert(ctx, symbol!, rule);
+        }
+        break;
+      case 'alert_edit': {
+        if (!ctx.from?.id) break;
+        const alert = await alertService.getAlert(ctx.from.id, step);
+        if (!alert) {
+          await ctx.reply('That alert no longer exists.');
+          break;
+        }
+        const rule = parseRuleInput(alert.rule.type, text);
+        if (!rule) {
+          await ctx.reply('Invalid input. Please try again.');
+          return;
         }
+        if (!(await this.isAlertTargetAhead(ctx, alert.symbol, rule))) return;
+        await alertService.updateRule(ctx.from.id, alert.id, rule);
+        await ctx.reply(`✅ Alert updated: ${alert.symbol} ${describeRule(rule)}`);
         break;
+      }
+      case 'import_mapping':
+        // Cleared up front: the import re-arms it if the mapping is still incomplete
+        ctx.session.awaitingInput = undefined;
+        await this.importTradeFile(ctx, step, text);
+        return;
       case 'analyze':
         await this.handleAnalysisCommand(ctx, text);
         break;
+      case 'digest_time': {
+        const time = parseTimeOfDay(text);
+        if (!time || !ctx.from?.id) {
+          await ctx.reply('Please send a time like 07:30.');
+          return;
+        }
+        const subscription = await digestService.setTime(ctx.from.id, step as DigestSlot, time);
+        await ctx.reply(`✅ Your ${subscription.slot} digest will arrive at ${time} (${subscription.timezone}).`);
+        break;
+      }
+      case 'digest_tz':
+        if (!isValidTimezone(text.trim()) || !ctx.from?.id) {
+          await ctx.reply('Unknown time zone. Please use a name like Europe/Berlin.');
+          return;
+        }
+        await digestService.setTimezone(ctx.from.id, text.trim());
+        await ctx.reply(`✅ Digests now follow ${text.trim()} time.`);
+        break;
+      case 'webhook': {
+        if (!ctx.from?.id) break;
+        const result = await webhookService.setWebhook(ctx.from.id, text);
+        if (!result.success) {
+          await ctx.reply(`❌ ${result.message} Please send an https:// URL.`);
+          return;
+        }
+        await ctx.reply(`✅ ${result.message}`);
+        break;
+      }
     }
 
     // Clear awaiting input state
@@ -256,6 +896,12 @@ class SentinelTradeBot {
 
   private async handleSettingsCallback(ctx: BotContext, data: string): Promise<void> {
     switch (data) {
+      case 'settings_main':
+        await ctx.editMessageText("⚙️ Settings Menu:", {
+          reply_markup: this.buildSettingsKeyboard()
+        });
+        break;
+
       case 'settings_notifications':
         const notifKeyboard = new InlineKeyboard()
           .text("🔊 Enable All", "notif_enable_all")
@@ -284,26 +930,220 @@ class SentinelTradeBot {
           reply_markup: confirmKeyboard
         });
         break;
+
+      case 'settings_digests':
+        await this.showDigestSettings(ctx, true);
+        break;
     }
   }
 
-  private setupVoiceHandler(): void {
-    this.bot.on('message:voice', async (ctx: BotContext) => {
-      try {
-        await ctx.reply('Processing voice command...');
+  private async showDigestSettings(ctx: BotContext, edit: boolean = false): Promise<void> {
+    if (!ctx.from?.id) return;
 
-        if (!ctx.message?.voice) {
-          throw new Error('No voice message found');
+    const subscriptions = await digestService.getSubscriptions(ctx.from.id);
+    let message = `🗞 Daily Digests (${subscriptions[0].timezone})\n\n`;
+    const keyboard = new InlineKeyboard();
+    for (const subscription of subscriptions) {
+      const label = subscription.slot === 'morning' ? '🌅 Morning' : '🌆 Evening';
+      message += `${label}: ${subscription.enabled ? `on at ${subscription.time}` : 'off'}\n`;
+      keyboard
+        .text(`${subscription.enabled ? '🔕 Turn off' : '🔔 Turn on'} ${subscription.slot}`, `digest_toggle:${subscription.slot}`)
+        .text(`🕗 ${subscription.slot} time`, `digest_time:${subscription.slot}`)
+        .row();
+    }
+    message += '\nEach digest covers your portfolio, top movers, fired alerts and a short AI summary.';
+    keyboard
+      .text('🌍 Time Zone', 'digest_tz')
+      .text('👀 Preview', 'digest_preview').row()
+      .text('⬅️ Back to Settings', 'settings_main');
+
+    if (edit) {
+      await ctx.editMessageText(message, { reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { reply_markup: keyboard });
+    }
+  }
+
+  private async handleDigestCallback(ctx: BotContext, data: string): Promise<void> {
+    if (!ctx.from?.id) return;
+    const [action, slot] = data.replace('digest_', '').split(':');
+
+    switch (action) {
+      case 'toggle':
+        if (DIGEST_SLOTS.includes(slot as DigestSlot)) {
+          await digestService.toggle(ctx.from.id, slot as DigestSlot);
+          await this.showDigestSettings(ctx, true);
         }
+        break;
+      case 'time':
+        ctx.session.awaitingInput = { command: 'digest_time', step: slot };
+        await ctx.reply(`Send the local time for your ${slot} digest (HH:MM, e.g. 07:30):`, {
+          reply_markup: { force_reply: true }
+        });
+        break;
+      case 'tz':
+        ctx.session.awaitingInput = { command: 'digest_tz', step: 'timezone' };
+        await ctx.reply('Send your time zone (e.g. Europe/Berlin, America/New_York, Asia/Singapore):', {
+          reply_markup: { force_reply: true }
+        });
+        break;
+      case 'preview':
+        await ctx.reply('Building your digest...');
+        await digestService.sendDigest(ctx.from.id, null);
+        break;
+    }
+  }
 
-        const file = await ctx.api.getFile(ctx.message.voice.file_id);
-        const fileUrl = `https://api.telegram.org/file/bot${config.telegram.botToken}/${file.file_path}`;
-        const buffer = await fetch(fileUrl).then(res => res.arrayBuffer()).then(buf => Buffer.from(buf));
+  private readonly watchUsage =
+    'Watchlists drive the coin buttons in the price, alert and analysis menus:\n' +
+    '/watch — snapshot of your active list\n' +
+    '/watch show <list> — snapshot of another list\n' +
+    '/watch list — all your lists\n' +
+    '/watch add <symbol> [list] — a new list name creates the list\n' +
+    '/watch remove <symbol> [list]\n' +
+    '/watch use <list> — make it the active list\n' +
+    '/watch delete <list>';
 
-        const transcription = await voiceService.transcribeAudio(buffer);
-        const command = await voiceService.detectCommand(transcription);
+  private async handleWatchAdd(ctx: BotContext, args: string[]): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+    const [input, listName] = args;
+    if (!input) {
+      await ctx.reply(this.watchUsage);
+      return;
+    }
 
-        await ctx.reply(`Detected command: ${command.command}\nExecuting...`);
+    const coin = await this.resolveCoinForOrder(ctx, input, (id) => `/watch add ${id}${listName ? ` ${listName}` : ''}`);
+    if (!coin) return;
+
+    const result = await watchlistService.addCoin(ctx.from.id, coin.id, listName);
+    await ctx.reply(`${result.success ? '✅' : '❌'} ${this.formatCoin(coin)}: ${result.message}`);
+  }
+
+  private async handleWatchRemove(ctx: BotContext, args: string[]): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+    const [input, listName] = args;
+    if (!input) {
+      await ctx.reply(this.watchUsage);
+      return;
+    }
+
+    const result = await watchlistService.removeCoin(ctx.from.id, input, listName);
+    await ctx.reply(`${result.success ? '✅' : '❌'} ${result.message}`);
+  }
+
+  private async showWatchlists(ctx: BotContext, edit: boolean = false): Promise<void> {
+    if (!ctx.from?.id) return;
+
+    const { active, lists } = await watchlistService.getWatchlists(ctx.from.id);
+    let message = '🗂 Your Watchlists\n\n';
+    const keyboard = new InlineKeyboard();
+    for (const list of lists) {
+      const labels = await watchlistService.getCoinLabels(list.coinIds);
+      message +=
+        `${list.name === active ? '⭐' : '▫️'} ${list.name} (${list.coinIds.length}): ` +
+        `${labels.map((coin) => coin.label).join(', ') || 'empty'}\n`;
+      keyboard.text(`👀 ${list.name}`, `watch_snap:${list.name}`);
+      if (list.name !== active) {
+        keyboard.text('⭐ Make active', `watch_use:${list.name}`);
+      }
+      keyboard.row();
+    }
+    message += '\n⭐ marks the list your menus are built from. Manage lists with /watch add|remove|delete.';
+
+    if (edit) {
+      await ctx.editMessageText(message, { reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { reply_markup: keyboard });
+    }
+  }
+
+  private async showWatchlistSnapshot(ctx: BotContext, name?: string, edit: boolean = false): Promise<void> {
+    if (!ctx.from?.id) return;
+
+    const list = await watchlistService.getList(ctx.from.id, name);
+    if (!list) {
+      await ctx.reply(`No watchlist named "${name}". See /watch list`);
+      return;
+    }
+    if (list.coinIds.length === 0) {
+      await ctx.reply(`"${list.name}" is empty. Add coins with /watch add <symbol> ${list.name}`);
+      return;
+    }
+
+    const entries = await watchlistService.getSnapshot(list);
+    // The timestamp also keeps a refresh from being rejected as an unchanged edit
+    let message = `👀 Watchlist "${list.name}" · ${new Date().toISOString().slice(11, 16)} UTC\n\n`;
+    for (const entry of entries) {
+      const change = entry.change24h === null
+        ? 'n/a'
+        : `${entry.change24h >= 0 ? '🟢 +' : '🔴 '}${entry.change24h.toFixed(2)}%`;
+      message += `${entry.symbol}: ${entry.price === null ? 'no price' : `$${entry.price.toFixed(4)}`} ${change}\n`;
+      if (entry.closes.length > 1) {
+        message += `${sparkline(entry.closes)} 24h\n`;
+      }
+    }
+
+    const keyboard = new InlineKeyboard()
+      .text('🔄 Refresh', `watch_refresh:${list.name}`)
+      .text('🗂 All Lists', 'watch_list');
+    if (edit) {
+      await ctx.editMessageText(message.trim(), { reply_markup: keyboard });
+    } else {
+      await ctx.reply(message.trim(), { reply_markup: keyboard });
+    }
+  }
+
+  private async handleWatchCallback(ctx: BotContext, data: string): Promise<void> {
+    if (!ctx.from?.id) return;
+    const [action, name] = data.replace('watch_', '').split(':');
+
+    switch (action) {
+      case 'snap':
+        await this.showWatchlistSnapshot(ctx, name || undefined);
+        break;
+      case 'refresh':
+        await this.showWatchlistSnapshot(ctx, name, true);
+        break;
+      case 'list':
+        await this.showWatchlists(ctx);
+        break;
+      case 'use': {
+        const result = await watchlistService.setActive(ctx.from.id, name);
+        if (result.success) {
+          await this.showWatchlists(ctx, true);
+        } else {
+          await ctx.reply(`❌ ${result.message}`);
+        }
+        break;
+      }
+    }
+  }
+
+  private setupVoiceHandler(): void {
+    this.bot.on('message:voice', async (ctx: BotContext) => {
+      try {
+        await ctx.reply('Processing voice command...');
+
+        if (!ctx.message?.voice) {
+          throw new Error('No voice message found');
+        }
+
+        const buffer = await this.downloadFile(ctx, ctx.message.voice.file_id);
+
+        const transcription = await voiceService.transcribeAudio(
+          buffer,
+          ctx.from?.id,
+          ctx.message.voice.duration
+        );
+        const command = await voiceService.detectCommand(transcription, ctx.from?.id);
+
+        await ctx.reply(`Detected command: ${command.command}\nExecuting...`);
 
         // Execute the detected command
         switch (command.command) {
@@ -319,25 +1159,151 @@ class SentinelTradeBot {
           case 'analysis':
             await this.handleAnalysisCommand(ctx, command.params.symbol);
             break;
+          case 'topGainers':
+            await this.showMovers(ctx, 'gainers', 'all', 0);
+            break;
           default:
             await ctx.reply('Command not recognized. Please try again.');
         }
       } catch (error) {
+        if (await this.replyIfQuotaExceeded(ctx, error)) return;
         logError(error as Error, 'voice message handler');
         await ctx.reply('Error processing voice command. Please try again.');
       }
     });
   }
 
+  private setupDocumentHandler(): void {
+    this.bot.on('message:document', async (ctx: BotContext) => {
+      try {
+        const document = ctx.message?.document;
+        if (!document) return;
+
+        const isCsv = document.mime_type === 'text/csv' || document.file_name?.toLowerCase().endsWith('.csv');
+        if (!isCsv) {
+          await ctx.reply('Please send trade history as a .csv file.');
+          return;
+        }
+
+        await this.importTradeFile(ctx, document.file_id, ctx.message?.caption || '');
+      } catch (error) {
+        logError(error as Error, 'document handler');
+        await ctx.reply('Error importing the file. Please check the format and try again.');
+      }
+    });
+  }
+
+  private async downloadFile(ctx: BotContext, fileId: string): Promise<Buffer> {
+    const file = await ctx.api.getFile(fileId);
+    const fileUrl = `https://api.telegram.org/file/bot${config.telegram.botToken}/${file.file_path}`;
+    return fetch(fileUrl).then(res => res.arrayBuffer()).then(buf => Buffer.from(buf));
+  }
+
+  private async importTradeFile(ctx: BotContext, fileId: string, mappingText: string): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const csv = (await this.downloadFile(ctx, fileId)).toString('utf-8');
+    const result = importTrades(csv, parseColumnMapping(mappingText));
+
+    if (result.missingColumns) {
+      ctx.session.awaitingInput = { command: 'import_mapping', step: fileId };
+      await ctx.reply(
+        `I couldn't find these columns: ${result.missingColumns.join(', ')}\n\n` +
+          `Columns in your file: ${result.headers.join(', ')}\n\n` +
+          'Reply with a mapping, e.g.:\n' +
+          'date=Time symbol=Coin side=Action quantity=Qty price=Price fee=Fee',
+        { reply_markup: { force_reply: true } }
+      );
+      return;
+    }
+
+    const { imported, duplicates } = await portfolioService.importTransactions(
+      ctx.from.id,
+      result.transactions
+    );
+
+    let message = `📥 Imported ${imported} transaction(s) from ${result.format} CSV.`;
+    if (duplicates > 0) message += `\nSkipped ${duplicates} already imported.`;
+    if (result.skipped > 0) {
+      message += `\nSkipped ${result.skipped} unreadable row(s):\n${result.errors.join('\n')}`;
+    }
+    await ctx.reply(message);
+  }
+
   private setupErrorHandler(): void {
     this.bot.catch((err: Error) => {
       logError(err, 'bot error handler');
     });
   }
 
-  private async handlePriceCommand(ctx: BotContext, symbol: string): Promise<void> {
+  // Resolves a ticker, name or id to a CoinGecko coin. When the input is ambiguous the user
+  // gets a keyboard of candidates that re-enters `action` with the chosen id.
+  private async resolveCoin(
+    ctx: BotContext,
+    input: string,
+    action:
+      | 'price'
+      | 'alert'
+      | 'analyze'
+      | `ta_${KlineInterval}`
+      | `chart_${KlineInterval}`
+      | `backtest_${KlineInterval}_${string}`
+  ): Promise<CoinInfo | null> {
+    const resolution = await symbolService.resolve(input);
+
+    if (resolution.status === 'resolved') {
+      return resolution.coin;
+    }
+
+    if (resolution.status === 'not_found') {
+      await ctx.reply(`Unknown coin "${input}". Try a ticker (e.g. DOT) or a name (e.g. Polkadot).`);
+      return null;
+    }
+
+    const keyboard = new InlineKeyboard();
+    for (const coin of resolution.candidates) {
+      keyboard.text(`${coin.name} (${coin.symbol.toUpperCase()})`, `${action}_${coin.id}`).row();
+    }
+    await ctx.reply(`Several coins match "${input}". Which one did you mean?`, {
+      reply_markup: keyboard
+    });
+    return null;
+  }
+
+  // Ambiguous tickers can't go through the picker without losing the rest of the command, so ask for the coin id
+  private async resolveCoinForOrder(
+    ctx: BotContext,
+    input: string,
+    example: (coinId: string) => string
+  ): Promise<CoinInfo | null> {
+    const resolution = await symbolService.resolve(input);
+    if (resolution.status === 'resolved') {
+      return resolution.coin;
+    }
+
+    await ctx.reply(
+      resolution.status === 'not_found'
+        ? `Unknown coin "${input}".`
+        : `Several coins match "${input}": ${resolution.candidates.map((coin) => coin.id).join(', ')}. ` +
+            `Use the id instead, e.g. ${example(resolution.candidates[0].id)}`
+    );
+    return null;
+  }
+
+  private formatCoin(coin: CoinInfo): string {
+    return `${coin.name} (${coin.symbol.toUpperCase()})`;
+  }
+
+  private async handlePriceCommand(ctx: BotContext, input: string): Promise<void> {
+    const coin = await this.resolveCoin(ctx, input, 'price');
+    if (!coin) return;
+
+    const symbol = this.formatCoin(coin);
     await ctx.reply(`Getting price for ${symbol}...`);
-    const priceData = await cryptoService.getPrice(symbol);
+    const priceData = await cryptoService.getPrice(coin.id);
     if (!priceData) {
       await ctx.reply(`Could not fetch price for ${symbol}`);
       return;
@@ -349,6 +1315,131 @@ class SentinelTradeBot {
         `24h Change: ${priceData.change24h.toFixed(2)}%\n` +
         `24h Volume: $${priceData.volume24h.toFixed(2)}`
     );
+
+    await this.sendChart(
+      ctx,
+      () => chartService.renderPriceChart(coin.id, coin.symbol.toUpperCase(), '1h', { candles: 48 }),
+      `${symbol} · last 48h`
+    );
+  }
+
+  private async handleChartCommand(
+    ctx: BotContext,
+    input: string,
+    interval: KlineInterval,
+    options: { type?: 'candle' | 'line'; overlays?: ChartOverlay[]; volume?: boolean } = {}
+  ): Promise<void> {
+    const coin = await this.resolveCoin(ctx, input, `chart_${interval}`);
+    if (!coin) return;
+
+    const keyboard = new InlineKeyboard();
+    for (const option of KLINE_INTERVAL_NAMES.filter((i) => i !== interval)) {
+      keyboard.text(option, `chart_${option}_${coin.id}`);
+    }
+
+    const sent = await this.sendChart(
+      ctx,
+      () => chartService.renderPriceChart(coin.id, coin.symbol.toUpperCase(), interval, options),
+      `${this.formatCoin(coin)} · ${interval}`,
+      keyboard
+    );
+    if (!sent) {
+      await ctx.reply(`Could not render a ${interval} chart for ${this.formatCoin(coin)}.`);
+    }
+  }
+
+  private async handleBacktestCommand(
+    ctx: BotContext,
+    input: string,
+    interval: KlineInterval,
+    strategy: BacktestStrategy
+  ): Promise<void> {
+    const strategyKey = await backtestService.saveStrategy(strategy);
+    const coin = await this.resolveCoin(ctx, input, `backtest_${interval}_${strategyKey}`);
+    if (!coin) return;
+
+    await ctx.reply(`Backtesting ${describeStrategy(strategy)} on ${this.formatCoin(coin)} ${interval}...`);
+    let result: BacktestResult & { source: 'fixture' | 'live' };
+    try {
+      result = await backtestService.run(coin.id, interval, strategy);
+    } catch (error) {
+      await ctx.reply(`Could not load ${interval} history for ${this.formatCoin(coin)}. Please try again.`);
+      return;
+    }
+
+    const keyboard = new InlineKeyboard();
+    for (const option of KLINE_INTERVAL_NAMES.filter((i) => i !== interval)) {
+      keyboard.text(option, `backtest_${option}_${strategyKey}_${coin.id}`);
+    }
+
+    await ctx.reply(this.formatBacktest(this.formatCoin(coin), interval, result));
+    const title = `${coin.symbol.toUpperCase()} ${strategyToArgs(strategy)[0].toUpperCase()} ${interval} EQUITY`;
+    await this.sendChart(
+      ctx,
+      async () => chartService.renderEquityCurve(title, result.equityCurve),
+      `${this.formatCoin(coin)} · ${describeStrategy(strategy)}`,
+      keyboard
+    );
+  }
+
+  private formatBacktest(
+    coinLabel: string,
+    interval: KlineInterval,
+    result: BacktestResult & { source: 'fixture' | 'live' }
+  ): string {
+    const percent = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+    const date = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+    let message =
+      `🧪 Backtest: ${coinLabel} · ${interval}\n` +
+      `Strategy: ${describeStrategy(result.strategy)}\n` +
+      `Period: ${date(result.startTime)} → ${date(result.endTime)} ` +
+      `(${result.equityCurve.length} candles, ${result.source === 'fixture' ? 'local fixture' : 'exchange history'})\n` +
+      `Fees ${(config.backtest.feeRate * 100).toFixed(2)}% · slippage ${(config.backtest.slippage * 100).toFixed(2)}% per fill\n\n` +
+      `Final equity: $${result.finalEquity.toFixed(2)} (${percent(result.totalReturn)})\n` +
+      `Buy & hold: ${percent(result.buyAndHoldReturn)}\n` +
+      `CAGR: ${result.cagr !== null ? percent(result.cagr) : 'n/a'}\n` +
+      `Max drawdown: -${(result.maxDrawdown * 100).toFixed(2)}%\n` +
+      `Sharpe: ${result.sharpe !== null ? result.sharpe.toFixed(2) : 'n/a'}\n` +
+      `Trades: ${result.trades.length}` +
+      (result.winRate !== null ? ` · win rate ${(result.winRate * 100).toFixed(0)}%` : '') +
+      `\nFees paid: $${result.feesPaid.toFixed(2)}\n`;
+
+    if (result.openPosition > 0) {
+      message += `Still holding ${result.openPosition.toFixed(6)} at the end\n`;
+    }
+
+    const recent = result.trades.slice(-5);
+    if (recent.length > 0) {
+      message += `\nLast ${recent.length} trade(s):\n`;
+      for (const trade of recent) {
+        message +=
+          `${trade.side === 'buy' ? '🟢 BUY ' : '🔴 SELL'} ${date(trade.time)} ` +
+          `${trade.quantity.toFixed(6)} @ $${trade.price.toFixed(4)}\n`;
+      }
+    }
+
+    return message + '\nPast performance on historical candles does not predict future results.';
+  }
+
+  // Charts accompany text replies, so a rendering failure is logged rather than surfaced
+  private async sendChart(
+    ctx: BotContext,
+    render: () => Promise<Buffer>,
+    caption: string,
+    keyboard?: InlineKeyboard
+  ): Promise<boolean> {
+    try {
+      const image = await render();
+      await ctx.replyWithPhoto(new InputFile(image, 'chart.png'), {
+        caption,
+        reply_markup: keyboard,
+      });
+      return true;
+    } catch (error) {
+      logError(error as Error, 'sendChart');
+      return false;
+    }
   }
 
   private async handleAlertCommand(
@@ -356,69 +1447,1410 @@ class SentinelTradeBot {
     params: Record<string, string>
   ): Promise<void> {
     const { symbol, price } = params;
+    const targetPrice = parseFloat(price);
+    if (!symbol || isNaN(targetPrice)) {
+      await ctx.reply('Please provide a symbol and a valid target price.');
+      return;
+    }
+
+    const coin = await this.resolveCoin(ctx, symbol, 'alert');
+    if (!coin) return;
+
+    // A bare target price means "tell me when it gets there", whichever side we're on now
+    const priceData = await cryptoService.getPrice(coin.id);
+    const type = priceData && targetPrice < priceData.price ? 'below' : 'above';
+    await this.createAlert(ctx, coin.id, { type, price: targetPrice });
+  }
+
+  private async handleAlertCoinSelected(ctx: BotContext, input: string): Promise<void> {
+    const coin = await this.resolveCoin(ctx, input, 'alert');
+    if (coin) {
+      await this.showAlertConditionMenu(ctx, coin.id);
+    }
+  }
+
+  private async createAlert(ctx: BotContext, symbol: string, rule: AlertRule): Promise<void> {
     if (!ctx.from?.id) {
       await ctx.reply('Could not identify user');
       return;
     }
 
-    await ctx.reply(`Setting alert for ${symbol} at $${price}...`);
-    await redisService.setPriceAlert(
-      ctx.from.id,
-      symbol,
-      parseFloat(price),
-      true
+    await alertService.createAlert(ctx.from.id, symbol, rule);
+    await ctx.reply(
+      `✅ Alert set: ${symbol} ${describeRule(rule)}\n` +
+        'You will be notified here when it fires.'
     );
-    await ctx.reply('Alert set successfully!');
   }
 
-  private async handlePortfolioCommand(ctx: BotContext): Promise<void> {
+  // Keeps the guided flow waiting for another target when this one is already behind the market
+  private async isAlertTargetAhead(ctx: BotContext, symbol: string, rule: AlertRule): Promise<boolean> {
+    const priceData = await cryptoService.getPrice(symbol);
+    const problem = priceData ? checkRuleTarget(rule, priceData.price) : null;
+    if (problem) {
+      await ctx.reply(problem);
+      return false;
+    }
+    return true;
+  }
+
+  private async showAlertConditionMenu(ctx: BotContext, symbol: string): Promise<void> {
+    const keyboard = new InlineKeyboard();
+    for (let i = 0; i < this.alertConditions.length; i += 2) {
+      const buttons = this.alertConditions.slice(i, i + 2).map(condition =>
+        ({ text: condition.label, callback_data: `cond_${condition.type}:${symbol}` })
+      );
+      keyboard.row(...buttons);
+    }
+
+    await ctx.reply(`Choose the alert condition for ${symbol}:`, {
+      reply_markup: keyboard
+    });
+  }
+
+  private async handleAlertManageCallback(ctx: BotContext, data: string): Promise<void> {
+    if (!ctx.from?.id) return;
+    const userId = ctx.from.id;
+    const [action, alertId] = data.replace('manage_', '').split(':');
+
+    switch (action) {
+      case 'open':
+        await this.showAlertList(ctx);
+        return;
+      case 'list':
+        await this.showAlertList(ctx, true);
+        return;
+      case 'del':
+        await alertService.deleteAlert(userId, alertId);
+        await this.showAlertList(ctx, true);
+        return;
+      case 'pause':
+        await alertService.togglePause(userId, alertId);
+        break;
+      case 'snooze1h':
+        await alertService.snoozeAlert(userId, alertId, 60 * 60 * 1000);
+        break;
+      case 'snooze24h':
+        await alertService.snoozeAlert(userId, alertId, 24 * 60 * 60 * 1000);
+        break;
+      case 'edit': {
+        const alert = await alertService.getAlert(userId, alertId);
+        const condition = alert && this.alertConditions.find(c => c.type === alert.rule.type);
+        if (!alert || !condition) break;
+        ctx.session.awaitingInput = { command: 'alert_edit', step: alert.id, symbol: alert.symbol };
+        await ctx.reply(condition.prompt.replace('{symbol}', alert.symbol), {
+          reply_markup: { force_reply: true }
+        });
+        return;
+      }
+    }
+
+    await this.showAlertDetail(ctx, alertId);
+  }
+
+  private formatAlertLine(alert: PriceAlert): string {
+    let line = `${alert.symbol} ${describeRule(alert.rule)}`;
+    if (alert.status === 'paused') {
+      line += ' ⏸ paused';
+    } else if (alertService.isSuspended(alert)) {
+      line += ` 💤 until ${new Date(alert.snoozedUntil!).toUTCString()}`;
+    }
+    return line;
+  }
+
+  private async showAlertList(ctx: BotContext, edit: boolean = false): Promise<void> {
     if (!ctx.from?.id) {
       await ctx.reply('Could not identify user');
       return;
     }
 
-    await ctx.reply('Fetching portfolio...');
-    const portfolio = await redisService.getUserPortfolio(ctx.from.id);
-    if (Object.keys(portfolio).length === 0) {
-      await ctx.reply(
-        'Your portfolio is empty. Add assets using /add <symbol> <amount>'
-      );
+    const alerts = await alertService.listAlerts(ctx.from.id);
+    if (alerts.length === 0) {
+      const text = 'You have no active alerts. Use ⚡ Set Alert to create one.';
+      if (edit) {
+        await ctx.editMessageText(text);
+      } else {
+        await ctx.reply(text);
+      }
       return;
     }
 
-    let totalValue = 0;
-    let message = '📊 Your Portfolio:\n\n';
+    let message = `🗂 Your Alerts (${alerts.length}):\n\n`;
+    const keyboard = new InlineKeyboard();
+    alerts.forEach((alert, index) => {
+      message += `${index + 1}. ${this.formatAlertLine(alert)}\n`;
+      keyboard.text(`${index + 1}. ${alert.symbol}`, `manage_view:${alert.id}`);
+      if ((index + 1) % 3 === 0) keyboard.row();
+    });
 
-    for (const [symbol, amount] of Object.entries(portfolio)) {
-      const priceData = await cryptoService.getPrice(symbol);
-      if (priceData) {
-        const value = amount * priceData.price;
-        totalValue += value;
-        message += `${symbol}: ${amount} (≈ $${value.toFixed(2)})\n`;
-      }
+    if (edit) {
+      await ctx.editMessageText(message, { reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { reply_markup: keyboard });
     }
+  }
 
-    message += `\nTotal Value: $${totalValue.toFixed(2)}`;
-    await ctx.reply(message);
+  private async showAlertDetail(ctx: BotContext, alertId: string): Promise<void> {
+    if (!ctx.from?.id) return;
+
+    const alert = await alertService.getAlert(ctx.from.id, alertId);
+    if (!alert) {
+      await this.showAlertList(ctx, true);
+      return;
+    }
+
+    const keyboard = new InlineKeyboard()
+      .text("🗑 Delete", `manage_del:${alert.id}`)
+      .text(alert.status === 'paused' ? "▶️ Resume" : "⏸ Pause", `manage_pause:${alert.id}`).row()
+      .text("💤 Snooze 1h", `manage_snooze1h:${alert.id}`)
+      .text("💤 Snooze 24h", `manage_snooze24h:${alert.id}`).row()
+      .text("✏️ Edit Target", `manage_edit:${alert.id}`)
+      .text("⬅️ Back", "manage_list");
+
+    await ctx.editMessageText(
+      `🔔 Alert ${alert.id}\n\n` +
+        `${this.formatAlertLine(alert)}\n` +
+        `Created: ${new Date(alert.createdAt).toUTCString()}`,
+      { reply_markup: keyboard }
+    );
   }
 
-  private async handleAnalysisCommand(
-    ctx: BotContext,
-    symbol: string
-  ): Promise<void> {
-    await ctx.reply(`Generating analysis for ${symbol}...`);
-    const [priceData, technicalData] = await Promise.all([
-      cryptoService.getKlines(symbol, '1d', 30),
-      duneService.getPolkadotStakingMetrics(),
+  private async notifyAlertFired(alert: FiredAlert): Promise<void> {
+    await this.bot.api.sendMessage(
+      alert.userId,
+      `🔔 Price Alert: ${alert.symbol}\n` +
+        `${alert.message}\n` +
+        `Current: $${alert.triggeredPrice.toFixed(4)}`
+    );
+  }
+
+  private async showFiredAlerts(ctx: BotContext, page: number, edit: boolean = false): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const pageSize = 5;
+    const { alerts, total } = await alertService.getFiredAlerts(ctx.from.id, page, pageSize);
+    if (total === 0) {
+      await ctx.reply('No alerts have fired yet.');
+      return;
+    }
+
+    const totalPages = Math.ceil(total / pageSize);
+    let message = `📜 Fired Alerts (page ${page + 1}/${totalPages}):\n\n`;
+    for (const alert of alerts) {
+      message +=
+        `${alert.symbol} ${describeRule(alert.rule)} ` +
+        `→ $${alert.triggeredPrice.toFixed(4)}\n` +
+        `   ${new Date(alert.firedAt).toUTCString()}\n`;
+    }
+
+    const keyboard = new InlineKeyboard();
+    if (page > 0) {
+      keyboard.text("⬅️ Newer", `history_${page - 1}`);
+    }
+    if (page < totalPages - 1) {
+      keyboard.text("Older ➡️", `history_${page + 1}`);
+    }
+
+    if (edit) {
+      await ctx.editMessageText(message, { reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { reply_markup: keyboard });
+    }
+  }
+
+  private async showAnomalySubscriptions(ctx: BotContext): Promise<void> {
+    if (!ctx.from?.id) return;
+
+    const coinIds = await anomalyService.getSubscriptions(ctx.from.id);
+    if (coinIds.length === 0) {
+      await ctx.reply('You have no anomaly alerts. Start one with /anomalies on <symbol>');
+      return;
+    }
+    const labels = await watchlistService.getCoinLabels(coinIds);
+    await ctx.reply(
+      `🧪 Anomaly alerts (${config.anomaly.interval} candles): ${labels.map((coin) => coin.label).join(', ')}\n\n` +
+        'Stop one with /anomalies off <symbol>'
+    );
+  }
+
+  private async notifyAnomaly(userId: number, detection: AnomalyDetection, explanation: string | null): Promise<void> {
+    const [coin] = await watchlistService.getCoinLabels([detection.coinId]);
+    const icons = { low: '🟡', medium: '🟠', high: '🔴' };
+    const titles: Record<AnomalyDetection['type'], string> = {
+      return_zscore: 'Unusual price move',
+      volume_zscore: 'Volume spike',
+      gap: 'Price gap',
+      volatility_regime: 'Volatility regime shift',
+    };
+
+    let message =
+      `${icons[detection.severity]} ${titles[detection.type]}: ${coin.label} (${detection.interval})\n\n` +
+      `${detection.description}\n` +
+      `Price: $${detection.price.toFixed(4)} · Confidence: ${(detection.confidence * 100).toFixed(1)}%\n` +
+      `Candle: ${new Date(detection.candleTime).toUTCString()}`;
+    if (explanation) {
+      message += `\n\n🤖 ${explanation}`;
+    }
+    await this.bot.api.sendMessage(userId, message);
+  }
+
+  private async showChainOverview(ctx: BotContext, chain: SubstrateChain): Promise<void> {
+    await ctx.reply(`Reading ${chain} chain state...`);
+    const [overview, price] = await Promise.all([
+      polkadotService.getChainOverview(chain),
+      cryptoService.getPrice(chain).catch(() => null),
     ]);
+    const eraPercent = overview.eraLength > 0 ? (overview.eraProgress / overview.eraLength) * 100 : 0;
 
-    const analysis = await aiService.generateMarketAnalysis(
-      symbol,
-      priceData,
-      technicalData
+    let message =
+      `⛓ ${chain === 'polkadot' ? 'Polkadot' : 'Kusama'} Network\n\n` +
+      `Finalized block: #${overview.finalizedBlock.toLocaleString('en-US')}\n` +
+      `Total issuance: ${formatTokens(overview.totalIssuance, overview.token, 0)}\n` +
+      `Active era: ${overview.activeEra} (${eraPercent.toFixed(0)}% through)\n` +
+      `Session: ${overview.sessionIndex}\n` +
+      `Validators: ${overview.activeValidators} active of ${overview.targetValidators} slots, ` +
+      `${overview.validatorCandidates} candidates\n` +
+      `Nominators: ${overview.nominators.toLocaleString('en-US')}\n`;
+    if (price) {
+      message +=
+        `\n${overview.token}: $${price.price.toFixed(4)} (${price.change24h.toFixed(2)}% 24h)\n` +
+        `Market value of issuance: $${(overview.totalIssuance * price.price).toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+    }
+    await ctx.reply(message.trim());
+  }
+
+  private async showChainBalance(ctx: BotContext, address?: string): Promise<void> {
+    const chain = address ? detectChain(address) : null;
+    if (!address || !chain) {
+      await ctx.reply('Please give a Polkadot or Kusama address, e.g. /dot balance 15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5');
+      return;
+    }
+
+    const [balance, price] = await Promise.all([
+      polkadotService.getAccountBalance(chain, address),
+      cryptoService.getPrice(chain).catch(() => null),
+    ]);
+    const usd = (amount: number) => (price ? ` ($${(amount * price.price).toFixed(2)})` : '');
+
+    await ctx.reply(
+      `👛 ${shortenAddress(address)} on ${chain}\n\n` +
+        `Total: ${formatTokens(balance.total, balance.token)}${usd(balance.total)}\n` +
+        `Transferable: ${formatTokens(balance.transferable, balance.token)}\n` +
+        `Locked: ${formatTokens(balance.locked, balance.token)}\n` +
+        `Reserved: ${formatTokens(balance.reserved, balance.token)}\n` +
+        `Transactions sent: ${balance.nonce}`
     );
+  }
 
-    await ctx.reply(`📈 Market Analysis for ${symbol}:\n\n${analysis}`);
+  private async showStakingDashboard(ctx: BotContext, address: string): Promise<void> {
+    if (!ctx.from?.id) return;
+    const chain = detectChain(address);
+    if (!chain) {
+      await ctx.reply('Please give a Polkadot or Kusama stash address, e.g. /staking 15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5');
+      return;
+    }
+
+    await ctx.reply(`Reading ${chain} staking data, this can take a moment...`);
+    const [dashboard, price, watches] = await Promise.all([
+      stakingService.getDashboard(chain, address),
+      cryptoService.getPrice(chain).catch(() => null),
+      stakingService.getWatches(ctx.from.id),
+    ]);
+    const usd = (amount: number) => (price ? ` ($${(amount * price.price).toFixed(2)})` : '');
+    const { token } = dashboard;
+
+    let message =
+      `🥩 Staking · ${shortenAddress(dashboard.stash)} on ${chain}\n\n` +
+      `Bonded: ${formatTokens(dashboard.bonded, token)}${usd(dashboard.bonded)}\n`;
+    if (dashboard.unlocking > 0) {
+      message += `Unlocking: ${formatTokens(dashboard.unlocking, token)}\n`;
+    }
+    if (dashboard.estimatedApy !== null) {
+      message += `Estimated APY: ${dashboard.estimatedApy.toFixed(2)}% after commission\n`;
+    }
+    if (dashboard.pendingRewards !== null) {
+      message +=
+        `Unclaimed rewards: ${formatTokens(dashboard.pendingRewards, token)}${usd(dashboard.pendingRewards)}` +
+        ` over ${dashboard.pendingEras} era(s)\n`;
+    }
+    if (dashboard.bonded > 0 && dashboard.estimatedApy !== null) {
+      const perDay = (dashboard.bonded * dashboard.estimatedApy) / 100 / 365;
+      message += `Expected per day: ~${formatTokens(perDay, token)}${usd(perDay)}\n`;
+    }
+
+    if (dashboard.nominations.length === 0) {
+      message += '\nThis stash does not nominate any validators.';
+    } else {
+      message += `\nNominations (era ${dashboard.activeEra}, submitted in era ${dashboard.submittedEra}):\n`;
+      for (const validator of dashboard.nominations) {
+        message +=
+          `${validator.active ? '🟢' : '⚪️'} ${shortenAddress(validator.address)} · ` +
+          `${validator.commission.toFixed(2)}% commission` +
+          `${validator.active ? ` · ${validator.eraPoints.toLocaleString('en-US')} pts` : ' · inactive'}` +
+          `${validator.blocked ? ' · blocked' : ''}\n`;
+        if (validator.lastSlashEra !== null) {
+          message +=
+            `   ⚠️ Slashed in era ${validator.lastSlashEra}` +
+            `${validator.lastSlashAmount !== null ? ` (${formatTokens(validator.lastSlashAmount, token)})` : ''}\n`;
+        }
+      }
+    }
+
+    message += dashboard.slashes.length > 0
+      ? `\n🔪 Slashes on this stash:\n${dashboard.slashes.map((slash) => `Era ${slash.era}: ${formatTokens(slash.amount, token)}`).join('\n')}`
+      : '\nNo slashes on this stash.';
+
+    const watching = watches.some((watch) => watch.chain === chain && watch.stash === dashboard.stash);
+    const keyboard = dashboard.nominations.length > 0
+      ? new InlineKeyboard().text(
+          watching ? '🔕 Stop validator alerts' : '🔔 Alert me on validator changes',
+          `${watching ? 'staking_off' : 'staking_on'}:${dashboard.stash}`
+        )
+      : undefined;
+    await ctx.reply(message.trim(), { reply_markup: keyboard });
+  }
+
+  private async handleStakingCallback(ctx: BotContext, data: string): Promise<void> {
+    if (!ctx.from?.id) return;
+    const [action, stash] = data.replace('staking_', '').split(':');
+
+    if (action === 'on') {
+      const result = await stakingService.watch(ctx.from.id, stash);
+      await ctx.reply(`${result.success ? '🔔' : '❌'} ${result.message}`);
+    } else if (action === 'off') {
+      const removed = await stakingService.unwatch(ctx.from.id, stash);
+      await ctx.reply(removed ? '🔕 Stopped validator alerts for that stash.' : "You don't get validator alerts for that stash.");
+    }
+  }
+
+  private async showStakingWatches(ctx: BotContext): Promise<void> {
+    if (!ctx.from?.id) return;
+
+    const watches = await stakingService.getWatches(ctx.from.id);
+    const usage =
+      '/staking <address> — nominations, validators, APY and unclaimed rewards\n' +
+      '/staking off <address> — stop validator alerts';
+    if (watches.length === 0) {
+      await ctx.reply(`You don't get validator alerts for any stash yet.\n\n${usage}`);
+      return;
+    }
+
+    let message = '🥩 Validator Alerts\n\n';
+    for (const watch of watches) {
+      message += `${shortenAddress(watch.stash)} (${watch.chain}): ${Object.keys(watch.validators).length} validator(s)\n`;
+    }
+    await ctx.reply(`${message}\n${usage}`);
+  }
+
+  private async notifyValidatorChanges(userId: number, watch: StakingWatch, changes: ValidatorChange[]): Promise<void> {
+    let message = `🥩 Validator changes for ${shortenAddress(watch.stash)} on ${watch.chain}\n\n`;
+    for (const change of changes) {
+      message += change.kind === 'inactive'
+        ? `⚪️ ${shortenAddress(change.validator)} left the active set and earns no rewards until it's back\n`
+        : `📈 ${shortenAddress(change.validator)} raised commission ` +
+          `${change.previousCommission.toFixed(2)}% → ${change.commission.toFixed(2)}%\n`;
+    }
+    message += `\nReview your nominations with /staking ${watch.stash}`;
+    await this.bot.api.sendMessage(userId, message);
+  }
+
+  private async showWhaleSubscriptions(ctx: BotContext): Promise<void> {
+    if (!ctx.from?.id) return;
+
+    const subscriptions = await whaleService.getSubscriptions(ctx.from.id);
+    if (subscriptions.length === 0) {
+      await ctx.reply('You are not watching any whales. Start with /whales <symbol> <min amount>, e.g. /whales DOT 100000');
+      return;
+    }
+
+    let message = '🐋 Whale Watch\n\n';
+    for (const subscription of subscriptions) {
+      message += `${subscription.symbol}: transfers of ${subscription.minAmount.toLocaleString('en-US')}+\n`;
+    }
+    message += '\nStop one with /whales off <symbol>';
+    await ctx.reply(message);
+  }
+
+  private readonly walletsUsage =
+    '/wallets — your watched Polkadot and Kusama addresses\n' +
+    '/wallets add <address> [label] — get told when funds move\n' +
+    '/wallets remove <address or label>\n' +
+    '/wallets sync <address or label> on|off — mirror the balance into your portfolio';
+
+  private async showAddressWatches(ctx: BotContext): Promise<void> {
+    if (!ctx.from?.id) return;
+
+    const watches = await addressWatchService.getWatches(ctx.from.id);
+    if (watches.length === 0) {
+      await ctx.reply(`You are not watching any addresses.\n\n${this.walletsUsage}`);
+      return;
+    }
+
+    let message = '👛 Watched Addresses\n\n';
+    for (const watch of watches) {
+      message +=
+        `${watch.label ? `${watch.label} · ` : ''}${shortenAddress(watch.address)} (${watch.chain})` +
+        `${watch.syncPortfolio ? ' · 💼 synced' : ''}\n`;
+    }
+    message += `\n${this.walletsUsage}`;
+    await ctx.reply(message);
+  }
+
+  private async notifyAddressActivity(userId: number, activity: AddressActivity, watch: AddressWatch): Promise<void> {
+    const titles: Record<AddressActivity['kind'], string> = {
+      transfer_in: '📥 Received',
+      transfer_out: '📤 Sent',
+      reward: '🥩 Staking reward',
+    };
+    let message =
+      `${titles[activity.kind]}: ${formatTokens(activity.amount, activity.token)}` +
+      `${activity.usdValue !== null ? ` (~$${activity.usdValue.toLocaleString('en-US', { maximumFractionDigits: 2 })})` : ''}\n` +
+      `${watch.label ? `${watch.label} · ` : ''}${shortenAddress(activity.address)} on ${activity.chain}\n`;
+    if (activity.counterparty) {
+      message += `${activity.kind === 'transfer_in' ? 'From' : 'To'}: ${activity.counterparty}\n`;
+    }
+    message += `Block #${activity.blockNumber.toLocaleString('en-US')}`;
+    if (watch.syncPortfolio) {
+      message += '\n💼 Recorded in your portfolio';
+    }
+
+    const explorerUrl = getExplorerAccountUrl(activity.chain, activity.address);
+    await this.bot.api.sendMessage(userId, message, {
+      reply_markup: explorerUrl ? new InlineKeyboard().url('🔎 View on explorer', explorerUrl) : undefined,
+    });
+  }
+
+  private async notifyWhale(userId: number, tx: WhaleTransaction, explorerUrl: string | null): Promise<void> {
+    let message =
+      `🐋 Whale transfer: ${tx.amount.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${tx.symbol}` +
+      `${tx.amountUsd !== null ? ` (~$${tx.amountUsd.toLocaleString('en-US', { maximumFractionDigits: 0 })})` : ''}\n` +
+      `Chain: ${tx.chain}\n`;
+    if (tx.from || tx.to) {
+      message += `${tx.from ? shortenAddress(tx.from) : '?'} → ${tx.to ? shortenAddress(tx.to) : '?'}\n`;
+    }
+    if (tx.time !== null) {
+      message += `${new Date(tx.time).toUTCString()}\n`;
+    }
+    message += explorerUrl ?? `Tx: ${tx.txHash}`;
+
+    await this.bot.api.sendMessage(userId, message, {
+      reply_markup: explorerUrl ? new InlineKeyboard().url('🔎 View on explorer', explorerUrl) : undefined,
+    });
+  }
+
+  private async showMovers(
+    ctx: BotContext,
+    tab: MoversTab,
+    bucket: MarketCapBucket,
+    page: number,
+    edit: boolean = false
+  ): Promise<void> {
+    const pageSize = 10;
+    const movers = await cryptoService.getMovers(tab, bucket);
+    const totalPages = Math.max(1, Math.ceil(movers.length / pageSize));
+    const current = Math.min(Math.max(0, page), totalPages - 1);
+    const titles: Record<MoversTab, string> = {
+      gainers: '🚀 Top Gainers (24h)',
+      losers: '📉 Top Losers (24h)',
+      volume: '🔊 Volume Spikes (24h volume vs market cap)',
+      trending: '🔥 Trending on CoinGecko',
+    };
+    const compact = (value: number) =>
+      value >= 1e9 ? `$${(value / 1e9).toFixed(2)}B` : value >= 1e6 ? `$${(value / 1e6).toFixed(1)}M` : `$${value.toFixed(0)}`;
+
+    let message = `${titles[tab]} · ${MARKET_CAP_BUCKETS[bucket].label}\n\n`;
+    if (movers.length === 0) {
+      message += 'Nothing matches this filter right now.';
+    }
+    movers.slice(current * pageSize, (current + 1) * pageSize).forEach((mover, index) => {
+      message +=
+        `${current * pageSize + index + 1}. ${mover.symbol.toUpperCase()} ${mover.name}: ` +
+        `$${mover.price.toFixed(4)} (${mover.change24h >= 0 ? '+' : ''}${mover.change24h.toFixed(2)}%)\n`;
+      if (tab === 'volume') {
+        message += `   Vol ${compact(mover.volume24h)} · ${((getTurnover(mover) as number) * 100).toFixed(1)}% of cap\n`;
+      } else if (mover.marketCap !== null) {
+        message += `   Cap ${compact(mover.marketCap)}${mover.marketCapRank ? ` · #${mover.marketCapRank}` : ''}\n`;
+      }
+    });
+
+    // The selected tab and bucket point at a no-op, since re-rendering an unchanged message fails
+    const keyboard = new InlineKeyboard();
+    const tabLabels: Record<MoversTab, string> = { gainers: 'Gainers', losers: 'Losers', volume: 'Volume', trending: 'Trending' };
+    for (const option of MOVERS_TABS) {
+      keyboard.text(`${option === tab ? '✅ ' : ''}${tabLabels[option]}`, option === tab ? 'movers_noop' : `movers_${option}_${bucket}_0`);
+    }
+    keyboard.row();
+    for (const option of Object.keys(MARKET_CAP_BUCKETS) as MarketCapBucket[]) {
+      keyboard.text(`${option === bucket ? '✅ ' : ''}${option}`, option === bucket ? 'movers_noop' : `movers_${tab}_${option}_0`);
+    }
+    keyboard.row();
+    if (current > 0) {
+      keyboard.text('⬅️ Prev', `movers_${tab}_${bucket}_${current - 1}`);
+    }
+    if (current < totalPages - 1) {
+      keyboard.text(`Next ➡️ (${current + 2}/${totalPages})`, `movers_${tab}_${bucket}_${current + 1}`);
+    }
+
+    if (edit) {
+      await ctx.editMessageText(message.trim(), { reply_markup: keyboard });
+    } else {
+      await ctx.reply(message.trim(), { reply_markup: keyboard });
+    }
+  }
+
+  private async handlePortfolioCommand(
+    ctx: BotContext,
+    method: CostBasisMethod = 'fifo'
+  ): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    await ctx.reply('Fetching portfolio...');
+    const valuations = (await portfolioService.getValuation(ctx.from.id, method))
+      .filter(holding => holding.quantity > 0 || holding.realizedPnl !== 0);
+    if (valuations.length === 0) {
+      await ctx.reply(
+        'Your portfolio is empty. Add assets using /add <symbol> <amount>, ' +
+        'or record trades with /buy and /sell <symbol> <amount> [price] [fee]'
+      );
+      return;
+    }
+
+    const message =
+      `📊 Your Portfolio (${method === 'fifo' ? 'FIFO' : 'Average Cost'}):\n\n` +
+      this.formatHoldings(valuations);
+
+    const keyboard = new InlineKeyboard()
+      .text(
+        method === 'fifo' ? "⚖️ Use Average Cost" : "📚 Use FIFO",
+        method === 'fifo' ? 'portfolio_view:average' : 'portfolio_view:fifo'
+      ).row()
+      .text("📥 Import CSV", "portfolio_import")
+      .text("📤 Export CSV", `portfolio_export:${method}`).row()
+      .text("🧾 Realized Gains Report", "portfolio_tax").row()
+      .text("🥧 Allocation Chart", "portfolio_chart");
+    await ctx.reply(message, { reply_markup: keyboard });
+  }
+
+  // Shared by the real and the paper portfolio views
+  private formatHoldings(valuations: HoldingValuation[]): string {
+    let totalValue = 0;
+    let totalUnrealized = 0;
+    let totalRealized = 0;
+    let message = '';
+
+    for (const holding of valuations) {
+      totalRealized += holding.realizedPnl;
+      if (holding.quantity === 0) {
+        message += `${holding.symbol}: closed · Realized ${this.formatUsd(holding.realizedPnl, true)}\n`;
+        continue;
+      }
+
+      message += `${holding.symbol}: ${holding.quantity}`;
+      if (holding.value !== null && holding.unrealizedPnl !== null) {
+        totalValue += holding.value;
+        totalUnrealized += holding.unrealizedPnl;
+        const percent = holding.unrealizedPnlPercent !== null
+          ? ` (${holding.unrealizedPnlPercent >= 0 ? '+' : ''}${holding.unrealizedPnlPercent.toFixed(2)}%)`
+          : '';
+        message += ` (≈ $${holding.value.toFixed(2)})\n` +
+          `   Avg cost $${holding.averageCost.toFixed(4)} · ` +
+          `Unrealized ${this.formatUsd(holding.unrealizedPnl, true)}${percent}`;
+      } else {
+        message += ` (price unavailable)\n   Avg cost $${holding.averageCost.toFixed(4)}`;
+      }
+      message += ` · Realized ${this.formatUsd(holding.realizedPnl, true)}\n`;
+    }
+
+    return message +
+      `\nTotal Value: $${totalValue.toFixed(2)}\n` +
+      `Unrealized PnL: ${this.formatUsd(totalUnrealized, true)}\n` +
+      `Realized PnL: ${this.formatUsd(totalRealized, true)}`;
+  }
+
+  private async handlePortfolioCallback(ctx: BotContext, data: string): Promise<void> {
+    if (!ctx.from?.id) return;
+    const [action, arg] = data.replace('portfolio_', '').split(':');
+    // Stale or forged buttons can carry anything; unknown methods fall back to the default
+    const method: CostBasisMethod = isCostBasisMethod(arg) ? arg : 'fifo';
+
+    switch (action) {
+      case 'view':
+        await this.handlePortfolioCommand(ctx, method);
+        break;
+
+      case 'import':
+        await ctx.reply(
+          '📥 Send your trade history as a .csv file.\n\n' +
+            'Supported: Binance and Kraken trade-history exports, or any CSV with ' +
+            'date, symbol, side, quantity, price and (optional) fee columns. ' +
+            'If your column names differ, add a caption like:\n' +
+            'date=Time symbol=Coin side=Action quantity=Qty price=Price fee=Fee'
+        );
+        break;
+
+      case 'chart': {
+        const userId = ctx.from.id;
+        const sent = await this.sendChart(
+          ctx,
+          () => chartService.renderPortfolioAllocation(userId),
+          '🥧 Portfolio allocation by current value'
+        );
+        if (!sent) {
+          await ctx.reply('Could not render the allocation chart.');
+        }
+        break;
+      }
+
+      case 'export': {
+        const csv = await portfolioService.exportHoldingsCsv(ctx.from.id, method);
+        await ctx.replyWithDocument(new InputFile(Buffer.from(csv), 'holdings.csv'));
+        break;
+      }
+
+      case 'tax': {
+        if (arg) {
+          const csv = await portfolioService.exportRealizedGainsCsv(ctx.from.id, parseInt(arg, 10));
+          await ctx.replyWithDocument(new InputFile(Buffer.from(csv), `realized-gains-${arg}.csv`));
+          break;
+        }
+
+        const summary = await portfolioService.getRealizedGainsSummary(ctx.from.id);
+        if (summary.length === 0) {
+          await ctx.reply('No realized gains yet: nothing has been sold.');
+          break;
+        }
+
+        let message = '🧾 Realized Gains (FIFO lot matching):\n\n';
+        const keyboard = new InlineKeyboard();
+        for (const year of summary) {
+          message +=
+            `${year.year}: proceeds ${this.formatUsd(year.proceeds)}, cost ${this.formatUsd(year.costBasis)}\n` +
+            `   Short-term ${this.formatUsd(year.shortTermGain, true)} · ` +
+            `Long-term ${this.formatUsd(year.longTermGain, true)}\n`;
+          keyboard.text(`📄 ${year.year} lots`, `portfolio_tax:${year.year}`);
+        }
+        await ctx.reply(message, { reply_markup: keyboard });
+        break;
+      }
+    }
+  }
+
+  private formatUsd(amount: number, signed: boolean = false): string {
+    const sign = amount < 0 ? '-' : signed ? '+' : '';
+    return `${sign}$${Math.abs(amount).toFixed(2)}`;
+  }
+
+  private getCommandArgs(ctx: BotContext): string[] {
+    return String(ctx.match ?? '').trim().split(/\s+/).filter(Boolean);
+  }
+
+  private readonly tradeUsage =
+    'Exchange orders (Binance spot, USDT pairs):\n' +
+    '/trade — mode, kill switch and limits\n' +
+    '/trade buy <symbol> <amount> — market order\n' +
+    '/trade sell <symbol> <amount> limit <price>\n' +
+    '/trade orders [symbol] — open orders\n' +
+    '/trade status <symbol> <orderId>\n' +
+    '/trade cancel <symbol> <orderId>\n' +
+    '/killswitch [on|off]';
+
+  private formatTradingMode(mode: PendingOrder['mode']): string {
+    return mode === 'live' ? '🔴 LIVE' : mode === 'testnet' ? '🧪 Testnet' : '📝 Dry run';
+  }
+
+  private async toTradingPair(input: string): Promise<string> {
+    const upper = input.toUpperCase();
+    return upper.endsWith('USDT') && upper.length > 4
+      ? upper
+      : tradingService.toPair(await symbolService.toCoinId(input));
+  }
+
+  private async showTradingLimits(ctx: BotContext): Promise<void> {
+    const limits = await tradingService.getLimits();
+    await ctx.reply(
+      `⚙️ Trading: ${this.formatTradingMode(limits.mode)}\n` +
+        `Kill switch: ${limits.halted ? '🛑 engaged' : 'off'}\n` +
+        `Per-order limit: $${limits.maxOrderNotional.toFixed(2)}\n` +
+        `Daily limit: $${limits.usedToday.toFixed(2)} of $${limits.maxDailyNotional.toFixed(2)} used\n\n` +
+        this.tradeUsage
+    );
+  }
+
+  // /trade buy|sell <symbol> <amount> [limit <price>]
+  private async handleTradeCommand(ctx: BotContext, side: 'BUY' | 'SELL', args: string[]): Promise<void> {
+    if (!ctx.from?.id) return;
+
+    const [input, amountArg, typeArg = 'market', priceArg] = args;
+    const quantity = parseFloat(amountArg);
+    const type = typeArg.toUpperCase();
+    const price = priceArg !== undefined ? parseFloat(priceArg) : undefined;
+    if (!input || isNaN(quantity) || !['MARKET', 'LIMIT'].includes(type) || (type === 'LIMIT' && !price)) {
+      await ctx.reply(this.tradeUsage);
+      return;
+    }
+
+    const coin = await this.resolveCoinForOrder(ctx, input, (id) => `/trade ${side.toLowerCase()} ${id} ${amountArg}`);
+    if (!coin) return;
+
+    const pending = await tradingService.prepareOrder(ctx.from.id, {
+      coinId: coin.id,
+      side,
+      type: type as 'MARKET' | 'LIMIT',
+      quantity,
+      price,
+    });
+    await ctx.reply(
+      `${this.formatPendingOrder(pending)}\n\nStep 1 of 2: check the details above.`,
+      {
+        reply_markup: new InlineKeyboard()
+          .text('➡️ Continue', `trade_review:${pending.id}`)
+          .text('❌ Cancel', `trade_discard:${pending.id}`),
+      }
+    );
+  }
+
+  private formatPendingOrder(pending: PendingOrder): string {
+    const { request } = pending;
+    return (
+      `${this.formatTradingMode(pending.mode)} order\n` +
+      `${request.side} ${request.quantity} ${request.pair} ` +
+      (request.type === 'LIMIT' ? `LIMIT @ $${request.price?.toFixed(4)}` : 'at MARKET') +
+      `\nValue: ≈ $${pending.notional.toFixed(2)}\n` +
+      `Expires: ${new Date(pending.expiresAt).toISOString().slice(11, 19)} UTC`
+    );
+  }
+
+  private formatExchangeOrder(order: ExchangeOrder): string {
+    const average = order.executedQuantity > 0 ? order.quoteQuantity / order.executedQuantity : null;
+    return (
+      `Order ${order.orderId} · ${order.pair}\n` +
+      `${order.side} ${order.type} ${order.quantity}` +
+      (order.type === 'LIMIT' ? ` @ $${order.price.toFixed(4)}` : '') +
+      `\nStatus: ${order.status}\n` +
+      `Filled: ${order.executedQuantity}` +
+      (average !== null ? ` @ avg $${average.toFixed(4)} ($${order.quoteQuantity.toFixed(2)})` : '')
+    );
+  }
+
+  private async showExchangeOrders(ctx: BotContext, input?: string): Promise<void> {
+    const orders = await tradingService.getOpenOrders(input ? await this.toTradingPair(input) : undefined);
+    if (orders.length === 0) {
+      await ctx.reply('No open exchange orders.');
+      return;
+    }
+
+    let message = `📋 Open Orders (${this.formatTradingMode(config.trading.mode)}):\n\n`;
+    const keyboard = new InlineKeyboard();
+    for (const order of orders.slice(0, 10)) {
+      message += `${this.formatExchangeOrder(order)}\n\n`;
+      keyboard.text(`❌ Cancel ${order.orderId}`, `trade_cancel:${order.pair}:${order.orderId}`).row();
+    }
+    await ctx.reply(message, { reply_markup: keyboard });
+  }
+
+  private async handleTradeCallback(ctx: BotContext, data: string): Promise<void> {
+    if (!this.isAdmin(ctx) || !ctx.from?.id) return;
+    const [action, arg, extra] = data.replace('trade_', '').split(':');
+
+    try {
+      switch (action) {
+        case 'review': {
+          const pending = await tradingService.reviewOrder(ctx.from.id, arg);
+          await ctx.editMessageText(
+            `${this.formatPendingOrder(pending)}\n\nStep 2 of 2: ` +
+              (pending.mode === 'live' ? 'this places a REAL order with real funds.' : 'place the order?'),
+            {
+              reply_markup: new InlineKeyboard()
+                .text('🚀 Place Order', `trade_confirm:${pending.id}`)
+                .text('❌ Cancel', `trade_discard:${pending.id}`),
+            }
+          );
+          break;
+        }
+        case 'confirm': {
+          // Drop the buttons first so the order can't be submitted twice from this message
+          await ctx.editMessageReplyMarkup({ reply_markup: undefined });
+          const order = await tradingService.confirmOrder(ctx.from.id, arg);
+          await ctx.reply(`✅ Order placed\n${this.formatExchangeOrder(order)}`);
+          break;
+        }
+        case 'discard':
+          await tradingService.discardOrder(ctx.from.id, arg);
+          await ctx.editMessageText('Order cancelled. Nothing was sent to the exchange.');
+          break;
+        case 'cancel': {
+          const order = await tradingService.cancelOrder(arg, parseInt(extra, 10));
+          await ctx.reply(this.formatExchangeOrder(order));
+          break;
+        }
+        case 'killswitch':
+          await tradingService.setHalted(arg === 'on', ctx.from.id);
+          await ctx.editMessageText(arg === 'on' ? '🛑 Trading is HALTED.' : '✅ Trading is enabled.');
+          break;
+      }
+    } catch (error) {
+      if (await this.replyIfTradingError(ctx, error)) return;
+      throw error;
+    }
+  }
+
+  private async replyIfTradingError(ctx: BotContext, error: unknown): Promise<boolean> {
+    if (error instanceof TradingError) {
+      const icon = error.reason === 'halted' ? '🛑' : error.reason === 'limit' ? '🚫' : '⚠️';
+      await ctx.reply(`${icon} ${error.message}`);
+      return true;
+    }
+    if (error instanceof BinanceApiError) {
+      await ctx.reply(`❌ Binance rejected the request: ${error.message}`);
+      return true;
+    }
+    return false;
+  }
+
+  private readonly paperUsage =
+    'Paper trading with virtual USD:\n' +
+    '/paper — balance, positions and PnL\n' +
+    '/paper buy <symbol> <amount> — market order\n' +
+    '/paper buy <symbol> <amount> limit <price>\n' +
+    '/paper sell <symbol> <amount> stop <price>\n' +
+    '/paper orders — open orders\n' +
+    '/paper fills — recent fills\n' +
+    '/paper cancel <orderId>\n' +
+    '/paper reset — start over';
+
+  private async showPaperAccount(ctx: BotContext): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const { account, valuations, equity } = await paperTradingService.getValuation(ctx.from.id);
+    const openOrders = account.orders.filter((order) => order.status === 'open').length;
+    const positions = valuations.filter((holding) => holding.quantity > 0 || holding.realizedPnl !== 0);
+
+    let message = '🧻 Paper Account\n\n' + `Cash: $${account.cash.toFixed(2)}\n`;
+    if (equity !== null) {
+      const pnl = equity - account.initialBalance;
+      message +=
+        `Equity: $${equity.toFixed(2)}\n` +
+        `Total PnL: ${this.formatUsd(pnl, true)} (${pnl >= 0 ? '+' : ''}${((pnl / account.initialBalance) * 100).toFixed(2)}%)\n`;
+    }
+    message += `Open orders: ${openOrders} · Fills: ${account.fills.length}\n\n`;
+    message += positions.length > 0
+      ? this.formatHoldings(positions)
+      : 'No positions yet. Try /paper buy btc 0.01';
+
+    const keyboard = new InlineKeyboard()
+      .text('📋 Open Orders', 'paper_orders')
+      .text('🧾 Fills', 'paper_fills').row()
+      .text('🔄 Reset Account', 'paper_reset');
+    await ctx.reply(message, { reply_markup: keyboard });
+  }
+
+  // /paper buy|sell <symbol> <amount> [limit|stop <price>]
+  private async handlePaperOrderCommand(ctx: BotContext, side: PaperOrderSide, args: string[]): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const [input, amountArg, typeArg = 'market', priceArg] = args;
+    const quantity = parseFloat(amountArg);
+    const type = typeArg.toLowerCase() as PaperOrderType;
+    const price = priceArg !== undefined ? parseFloat(priceArg) : undefined;
+    if (
+      !input ||
+      isNaN(quantity) ||
+      !['market', 'limit', 'stop'].includes(type) ||
+      (type !== 'market' && (price === undefined || isNaN(price)))
+    ) {
+      await ctx.reply(this.paperUsage);
+      return;
+    }
+
+    const coin = await this.resolveCoinForOrder(ctx, input, (id) => `/paper ${side} ${id} ${amountArg}`);
+    if (!coin) return;
+
+    const result = await paperTradingService.placeOrder(ctx.from.id, {
+      coinId: coin.id,
+      symbol: coin.symbol.toUpperCase(),
+      side,
+      type,
+      quantity,
+      price,
+    });
+    if (!result.success || !result.order) {
+      await ctx.reply(`❌ ${result.message}`);
+      return;
+    }
+
+    await ctx.reply(
+      result.order.status === 'filled'
+        ? `✅ Paper ${this.describePaperOrder(result.order)}`
+        : `📌 Paper order ${result.order.id} placed: ${this.describePaperOrder(result.order)}\n` +
+            'It fills when the price feed reaches it. See /paper orders.'
+    );
+  }
+
+  private describePaperOrder(order: PaperOrder): string {
+    const action = `${order.side.toUpperCase()} ${order.quantity} ${order.symbol}`;
+    if (order.status === 'filled' && order.fillPrice !== undefined) {
+      return `${action} filled @ $${order.fillPrice.toFixed(4)} (fee $${(order.fee ?? 0).toFixed(2)})`;
+    }
+    return order.type === 'market' ? `${action} at market` : `${action} ${order.type} @ $${order.price?.toFixed(4)}`;
+  }
+
+  private async showPaperOrders(ctx: BotContext, edit: boolean = false): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const orders = await paperTradingService.getOpenOrders(ctx.from.id);
+    if (orders.length === 0) {
+      await (edit ? ctx.editMessageText('No open paper orders.') : ctx.reply('No open paper orders.'));
+      return;
+    }
+
+    let message = '📋 Open Paper Orders:\n\n';
+    const keyboard = new InlineKeyboard();
+    for (const order of orders) {
+      message += `${order.id}: ${this.describePaperOrder(order)}\n`;
+      keyboard.text(`❌ Cancel ${order.id}`, `paper_cancel:${order.id}`).row();
+    }
+
+    if (edit) {
+      await ctx.editMessageText(message, { reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { reply_markup: keyboard });
+    }
+  }
+
+  private async showPaperFills(ctx: BotContext): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const account = await paperTradingService.getAccount(ctx.from.id);
+    const fills = account.fills.slice(-10).reverse();
+    if (fills.length === 0) {
+      await ctx.reply('No paper fills yet.');
+      return;
+    }
+
+    let message = '🧾 Recent Paper Fills:\n\n';
+    for (const fill of fills) {
+      message +=
+        `${new Date(fill.timestamp).toISOString().slice(0, 16).replace('T', ' ')} ` +
+        `${fill.type.toUpperCase()} ${fill.quantity} ${fill.symbol} @ $${fill.price.toFixed(4)} ` +
+        `(fee $${fill.fee.toFixed(2)})\n`;
+    }
+    await ctx.reply(message);
+  }
+
+  private async cancelPaperOrder(ctx: BotContext, orderId: string | undefined): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+    if (!orderId) {
+      await ctx.reply('Usage: /paper cancel <orderId>');
+      return;
+    }
+
+    const cancelled = await paperTradingService.cancelOrder(ctx.from.id, orderId);
+    await ctx.reply(cancelled ? `✅ Cancelled paper order ${orderId}.` : `No open paper order ${orderId}.`);
+  }
+
+  private async handlePaperCallback(ctx: BotContext, data: string): Promise<void> {
+    if (!ctx.from?.id) return;
+    const [action, arg] = data.replace('paper_', '').split(':');
+
+    switch (action) {
+      case 'view':
+        await this.showPaperAccount(ctx);
+        break;
+      case 'orders':
+        await this.showPaperOrders(ctx);
+        break;
+      case 'fills':
+        await this.showPaperFills(ctx);
+        break;
+      case 'cancel':
+        await paperTradingService.cancelOrder(ctx.from.id, arg);
+        await this.showPaperOrders(ctx, true);
+        break;
+      case 'reset':
+        await this.confirmPaperReset(ctx);
+        break;
+      case 'reset_confirm': {
+        const account = await paperTradingService.resetAccount(ctx.from.id);
+        await ctx.editMessageText(`✅ Paper account reset to $${account.cash.toFixed(2)}.`);
+        break;
+      }
+    }
+  }
+
+  private async confirmPaperReset(ctx: BotContext): Promise<void> {
+    await ctx.reply(
+      `Reset your paper account to $${config.paper.startingBalance.toFixed(2)}? ` +
+        'All positions, orders and fills will be cleared.',
+      {
+        reply_markup: new InlineKeyboard()
+          .text('✅ Reset', 'paper_reset_confirm')
+          .text('❌ Keep', 'paper_view'),
+      }
+    );
+  }
+
+  private async notifyPaperOrder(userId: number, order: PaperOrder): Promise<void> {
+    await this.bot.api.sendMessage(
+      userId,
+      order.status === 'filled'
+        ? `🧻 Paper ${order.type} order ${order.id}: ${this.describePaperOrder(order)}`
+        : `⚠️ Paper ${order.type} order ${order.id} rejected: ${order.reason}`
+    );
+  }
+
+  private async handleLedgerCommand(
+    ctx: BotContext,
+    name: string,
+    type: TransactionType
+  ): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const [symbolArg, amountArg, priceArg, feeArg] = this.getCommandArgs(ctx);
+    const quantity = parseFloat(amountArg);
+    if (!symbolArg || isNaN(quantity)) {
+      await ctx.reply(`Usage: /${name} <symbol> <amount> [price] [fee]`);
+      return;
+    }
+
+    const symbol = await portfolioService.normalizeSymbol(symbolArg);
+
+    // Without an explicit price the trade is booked at the current market price
+    let price = priceArg !== undefined ? parseFloat(priceArg) : NaN;
+    if (priceArg === undefined) {
+      const priceData = await cryptoService.getPrice(await symbolService.toCoinId(symbol));
+      if (!priceData) {
+        await ctx.reply(`Could not fetch price for ${symbol}. Please provide a price.`);
+        return;
+      }
+      price = priceData.price;
+    }
+    const fee = feeArg !== undefined ? parseFloat(feeArg) : 0;
+    if (isNaN(price) || isNaN(fee)) {
+      await ctx.reply(`Usage: /${name} <symbol> <amount> [price] [fee]`);
+      return;
+    }
+
+    const result = await portfolioService.addTransaction(ctx.from.id, {
+      symbol,
+      type,
+      quantity,
+      price,
+      fee,
+    });
+    if (!result.success) {
+      await ctx.reply(`❌ ${result.message}`);
+      return;
+    }
+
+    await ctx.reply(
+      `✅ Recorded ${type.replace('_', ' ')}: ${quantity} ${symbol} @ $${price.toFixed(4)}` +
+        (fee > 0 ? ` (fee $${fee.toFixed(2)})` : '')
+    );
+  }
+
+  private async showLedger(ctx: BotContext, edit: boolean = false): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const transactions = (await portfolioService.getTransactions(ctx.from.id)).slice(-10).reverse();
+    if (transactions.length === 0) {
+      await ctx.reply('Your ledger is empty.');
+      return;
+    }
+
+    let message = '📒 Recent Transactions:\n\n';
+    const keyboard = new InlineKeyboard();
+    transactions.forEach((tx, index) => {
+      message +=
+        `${index + 1}. ${new Date(tx.timestamp).toISOString().slice(0, 10)} ` +
+        `${tx.type.replace('_', ' ')} ${tx.quantity} ${tx.symbol} @ $${tx.price.toFixed(4)}` +
+        (tx.fee > 0 ? ` (fee $${tx.fee.toFixed(2)})` : '') + '\n';
+      keyboard.text(`🗑 ${index + 1}`, `ledger_del:${tx.id}`);
+      if ((index + 1) % 5 === 0) keyboard.row();
+    });
+
+    if (edit) {
+      await ctx.editMessageText(message, { reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { reply_markup: keyboard });
+    }
+  }
+
+  private async handleAnalysisCommand(
+    ctx: BotContext,
+    input: string
+  ): Promise<void> {
+    const coin = await this.resolveCoin(ctx, input, 'analyze');
+    if (!coin) return;
+
+    const symbol = this.formatCoin(coin);
+    await ctx.reply(`Generating analysis for ${symbol}...`);
+    const technicals = await technicalAnalysisService.analyze(coin.id, '1d');
+
+    let analysis: string;
+    try {
+      analysis = await aiService.generateMarketAnalysis(symbol, technicals, ctx.from?.id);
+    } catch (error) {
+      if (await this.replyIfQuotaExceeded(ctx, error)) return;
+      throw error;
+    }
+
+    await ctx.reply(`📈 Market Analysis for ${symbol}:\n\n${analysis}`);
+    await this.sendChart(
+      ctx,
+      () => chartService.renderPriceChart(coin.id, coin.symbol.toUpperCase(), '1d', {
+        candles: 90,
+        overlays: ['sma', 'bollinger'],
+      }),
+      `${symbol} · 1d with SMA 20/50 and Bollinger Bands`
+    );
+  }
+
+  private async handleTechnicalCommand(
+    ctx: BotContext,
+    input: string,
+    interval: KlineInterval
+  ): Promise<void> {
+    const coin = await this.resolveCoin(ctx, input, `ta_${interval}`);
+    if (!coin) return;
+
+    const snapshot = await technicalAnalysisService.analyze(coin.id, interval);
+    const trendIcon = snapshot.trend === 'bullish' ? '🟢' : snapshot.trend === 'bearish' ? '🔴' : '⚪️';
+
+    const keyboard = new InlineKeyboard();
+    for (const option of KLINE_INTERVAL_NAMES.filter((i) => i !== interval)) {
+      keyboard.text(option, `ta_${option}_${coin.id}`);
+    }
+    keyboard.row().text('🤖 AI Signal', `signal_${interval}_${coin.id}`);
+
+    await ctx.reply(
+      `📐 ${this.formatCoin(coin)} · ${interval} ${trendIcon}\n\n` +
+        technicalAnalysisService.format(snapshot),
+      { reply_markup: keyboard }
+    );
+  }
+
+  private async handleSignalCallback(
+    ctx: BotContext,
+    coinId: string,
+    interval: KlineInterval
+  ): Promise<void> {
+    const coin = await symbolService.getCoin(coinId);
+    const symbol = coin ? this.formatCoin(coin) : coinId;
+    await ctx.reply(`Generating ${interval} signal for ${symbol}...`);
+
+    const snapshot = await technicalAnalysisService.analyze(coinId, interval);
+    let signal: TradingSignal;
+    try {
+      signal = await aiService.generateTradingSignal(symbol, interval, snapshot, ctx.from?.id);
+    } catch (error) {
+      if (await this.replyIfQuotaExceeded(ctx, error)) return;
+      if (error instanceof AIResponseError) {
+        await ctx.reply('The AI returned an unusable signal. Please try again later.');
+        return;
+      }
+      throw error;
+    }
+
+    await ctx.reply(this.formatSignal(symbol, interval, signal));
+  }
+
+  private async replyIfQuotaExceeded(ctx: BotContext, error: unknown): Promise<boolean> {
+    if (!(error instanceof QuotaExceededError)) {
+      return false;
+    }
+    const resets = new Date(error.resetsAt).toISOString().replace('T', ' ').slice(0, 16);
+    await ctx.reply(
+      `⏳ You've used your ${error.period === 'day' ? 'daily' : 'monthly'} AI allowance ` +
+        `(${error.used.toLocaleString()} of ${error.limit.toLocaleString()} tokens on the ${error.tier} tier).\n` +
+        `It resets at ${resets} UTC. Prices, alerts, charts and /ta keep working in the meantime.`
+    );
+    return true;
+  }
+
+  private isAdmin(ctx: BotContext): boolean {
+    return ctx.from?.id !== undefined && config.admin.userIds.includes(ctx.from.id);
+  }
+
+  private formatUsageBreakdown(totals: UsageTotals): string {
+    const features = Object.entries(totals.byFeature)
+      .sort(([, a], [, b]) => b.tokens - a.tokens)
+      .map(([feature, usage]) => `  ${feature}: ${usage.requests} req · ${usage.tokens.toLocaleString()} tok · $${usage.cost.toFixed(4)}`);
+    return (
+      `Requests: ${totals.requests}\n` +
+      `Tokens: ${totals.tokens.toLocaleString()} (${totals.promptTokens.toLocaleString()} in / ` +
+      `${totals.completionTokens.toLocaleString()} out)\n` +
+      `Est. cost: $${totals.cost.toFixed(4)}` +
+      (features.length > 0 ? `\n${features.join('\n')}` : '')
+    );
+  }
+
+  private async showUsage(ctx: BotContext): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const userId = ctx.from.id;
+    const tier = await usageService.getTier(userId);
+    const quota = usageService.getQuota(tier);
+    const [daily, monthly] = await Promise.all([
+      usageService.getUserUsage(userId, 'day'),
+      usageService.getUserUsage(userId, 'month'),
+    ]);
+    const limit = (used: number, max: number): string =>
+      max > 0 ? `${used.toLocaleString()} / ${max.toLocaleString()} tokens (${Math.min(100, (used / max) * 100).toFixed(0)}%)` : `${used.toLocaleString()} tokens (no limit)`;
+
+    await ctx.reply(
+      `🧮 AI Usage · ${tier} tier\n\n` +
+        `Today: ${limit(daily.tokens, quota.daily)}\n` +
+        `This month: ${limit(monthly.tokens, quota.monthly)}\n\n` +
+        `This month by feature:\n${this.formatUsageBreakdown(monthly)}`
+    );
+  }
+
+  private async showUsageReport(ctx: BotContext, period: UsagePeriod, dateArg?: string): Promise<void> {
+    if (!this.isAdmin(ctx)) {
+      await this.showUsage(ctx);
+      return;
+    }
+
+    const date = dateArg ? new Date(dateArg.length === 7 ? `${dateArg}-01` : dateArg) : undefined;
+    if (date && isNaN(date.getTime())) {
+      await ctx.reply('Usage: /usage report [day|month] [YYYY-MM or YYYY-MM-DD]');
+      return;
+    }
+
+    const report = await usageService.getReport(period, date);
+    const models = Object.entries(report.byModel)
+      .sort(([, a], [, b]) => b.cost - a.cost)
+      .map(([model, usage]) => `  ${model}: ${usage.requests} req · ${usage.tokens.toLocaleString()} tok · $${usage.cost.toFixed(4)}`);
+    const users = report.byUser
+      .slice(0, 10)
+      .map((user) => `  ${user.userId}: ${user.requests} req · ${user.tokens.toLocaleString()} tok · $${user.cost.toFixed(4)}`);
+
+    await ctx.reply(
+      `📊 AI Usage Report · ${report.periodKey}\n\n` +
+        `${this.formatUsageBreakdown(report)}\n\n` +
+        `By model:\n${models.join('\n') || '  none'}\n\n` +
+        `Top users:\n${users.join('\n') || '  none'}`
+    );
+  }
+
+  private async showRecentSignals(ctx: BotContext): Promise<void> {
+    if (!ctx.from?.id) {
+      await ctx.reply('Could not identify user');
+      return;
+    }
+
+    const records = await signalService.getRecentSignals(10, ctx.from.id);
+    if (records.length === 0) {
+      await ctx.reply('You have no signals yet. Use /ta <symbol> and tap "🤖 AI Signal".');
+      return;
+    }
+
+    const icons: Record<string, string> = { open: '⏳', hit: '🎯', stopped: '🛑', expired: '⌛️' };
+    let message = '📜 Your recent signals:\n\n';
+    for (const record of records) {
+      const result = record.returnPercent !== undefined
+        ? ` ${record.returnPercent >= 0 ? '+' : ''}${record.returnPercent.toFixed(2)}%`
+        : '';
+      message +=
+        `${icons[record.outcome]} ${new Date(record.issuedAt).toISOString().slice(0, 16).replace('T', ' ')} ` +
+        `${record.coinId} ${record.timeframe} ${record.signal.toUpperCase()} @ $${record.priceAtIssue.toFixed(4)} ` +
+        `(${(record.confidence * 100).toFixed(0)}%) → ${record.outcome}${result}\n`;
+    }
+    message += '\nSee /signals stats for the bot\'s overall track record.';
+    await ctx.reply(message);
+  }
+
+  private async showSignalStats(ctx: BotContext, symbol?: string, interval?: string): Promise<void> {
+    if (interval && !isKlineInterval(interval)) {
+      await ctx.reply(`Usage: /signals stats [symbol] [interval]\nIntervals: ${KLINE_INTERVAL_NAMES.join(', ')}`);
+      return;
+    }
+
+    const coinId = symbol ? await symbolService.toCoinId(symbol) : undefined;
+    const { overall, series } = await signalService.getStats({ coinId, timeframe: interval });
+    if (overall.total === 0) {
+      await ctx.reply('No signals recorded for that selection yet.');
+      return;
+    }
+
+    let message = `📊 Signal Track Record${coinId ? ` · ${coinId}` : ''}${interval ? ` ${interval}` : ''}\n\n`;
+    message += this.formatSignalStats(overall);
+
+    if (overall.calibration.length > 0) {
+      message += '\n\nCalibration (stated confidence → actual hit rate):\n';
+      for (const bucket of overall.calibration) {
+        message +=
+          `  ${bucket.range}: ${(bucket.statedConfidence * 100).toFixed(0)}% → ` +
+          `${(bucket.hitRate * 100).toFixed(0)}% (${bucket.count})\n`;
+      }
+    }
+
+    if (series.length > 1) {
+      message += '\nBy coin and timeframe:\n';
+      for (const stats of series.slice(0, 10)) {
+        message += `\n${stats.key}\n${this.formatSignalStats(stats)}\n`;
+      }
+    }
+
+    await ctx.reply(message);
+  }
+
+  private formatSignalStats(stats: SignalStats): string {
+    const percent = (value: number | null): string => (value === null ? 'n/a' : `${(value * 100).toFixed(0)}%`);
+    const average = stats.averageReturn === null
+      ? 'n/a'
+      : `${stats.averageReturn >= 0 ? '+' : ''}${stats.averageReturn.toFixed(2)}%`;
+    return (
+      `Signals: ${stats.total} (${stats.open} open, ${stats.graded} graded)\n` +
+      `🎯 ${stats.hits} hit · 🛑 ${stats.stops} stopped · ⌛️ ${stats.expired} expired\n` +
+      `Hit rate: ${percent(stats.hitRate)} · Avg return: ${average}`
+    );
+  }
+
+  private formatSignal(symbol: string, interval: string, signal: TradingSignal): string {
+    const icon = signal.signal === 'buy' ? '🟢' : signal.signal === 'sell' ? '🔴' : '⚪️';
+    const price = (value: number): string => `$${value >= 1 ? value.toFixed(2) : value.toPrecision(4)}`;
+
+    let message =
+      `🤖 ${symbol} · ${interval}\n\n` +
+      `${icon} Signal: ${signal.signal.toUpperCase()}\n` +
+      `Confidence: ${(signal.confidence * 100).toFixed(0)}%\n` +
+      `Horizon: ${signal.timeHorizon}\n`;
+    if (signal.entry !== null) message += `Entry: ${price(signal.entry)}\n`;
+    if (signal.stopLoss !== null) message += `Stop: ${price(signal.stopLoss)}\n`;
+    if (signal.targets.length > 0) message += `Targets: ${signal.targets.map(price).join(' → ')}\n`;
+
+    message += '\nReasons:\n' + signal.reasons.map((reason) => `• ${reason}`).join('\n');
+    return message;
   }
 
   async start(): Promise<void> {
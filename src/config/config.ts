@@ -11,9 +11,70 @@ const envSchema = z.object({
 
   // API Keys
   DUNE_API_KEY: z.string(),
-  OPENAI_API_KEY: z.string(),
-  BINANCE_API_KEY: z.string(),
-  BINANCE_API_SECRET: z.string(),
+  OPENAI_API_KEY: z.string().optional(),
+  BINANCE_API_KEY: z.string().optional(),
+  BINANCE_API_SECRET: z.string().optional(),
+
+  // Market Data Configuration
+  MARKET_DATA_PROVIDERS: z.string().default('coingecko,binance'), // Comma-separated, highest priority first
+  PRICE_DIVERGENCE_THRESHOLD: z.string().transform(Number).default('0.02'), // Fraction, 0.02 = 2%
+  COINGECKO_API_URL: z.string().url().default('https://api.coingecko.com/api/v3'),
+  BINANCE_API_URL: z.string().url().default('https://api.binance.com'),
+
+  // Polkadot Chain Configuration
+  POLKADOT_RPC_URL: z.string().url().default('wss://rpc.polkadot.io'), // ws://127.0.0.1:9944 for a local dev node
+  KUSAMA_RPC_URL: z.string().url().default('wss://kusama-rpc.polkadot.io'),
+  CHAIN_CONNECT_TIMEOUT_MS: z.string().transform(Number).default('15000'),
+
+  // LLM Configuration
+  LLM_PROVIDER: z.enum(['openai', 'mock']).default('openai'),
+  LLM_BASE_URL: z.string().url().optional(), // Any OpenAI-compatible server, e.g. http://localhost:11434/v1
+  LLM_TIMEOUT_MS: z.string().transform(Number).default('30000'),
+  LLM_MAX_RETRIES: z.string().transform(Number).default('2'),
+  LLM_JSON_MODE: z.enum(['true', 'false']).default('true'), // Disable for servers without response_format support
+  LLM_MODEL_ANALYSIS: z.string().default('gpt-4o'),
+  LLM_MODEL_SIGNAL: z.string().default('gpt-4o'),
+  LLM_MODEL_ANOMALY: z.string().default('gpt-4o-mini'),
+  LLM_MODEL_INTENT: z.string().default('gpt-4o-mini'),
+  LLM_MODEL_DIGEST: z.string().default('gpt-4o-mini'),
+  LLM_MODEL_TRANSCRIPTION: z.string().default('whisper-1'),
+
+  // AI Usage Quotas (tokens per period, 0 = unlimited)
+  AI_QUOTA_FREE_DAILY: z.string().transform(Number).default('20000'),
+  AI_QUOTA_FREE_MONTHLY: z.string().transform(Number).default('300000'),
+  AI_QUOTA_PRO_DAILY: z.string().transform(Number).default('200000'),
+  AI_QUOTA_PRO_MONTHLY: z.string().transform(Number).default('3000000'),
+  ADMIN_USER_IDS: z.string().default(''), // Comma-separated Telegram user ids
+
+  // Backtesting
+  BACKTEST_FIXTURES_DIR: z.string().optional(), // Directory of {coinId}-{interval}.json candle files used instead of live data
+  BACKTEST_FEE_RATE: z.string().transform(Number).default('0.001'), // Fraction per fill, 0.001 = 0.1%
+  BACKTEST_SLIPPAGE: z.string().transform(Number).default('0.0005'),
+
+  // Order Execution (Binance spot)
+  TRADING_MODE: z.enum(['dry_run', 'testnet', 'live']).default('dry_run'),
+  BINANCE_TRADING_URL: z.string().url().optional(), // Overrides the mode's endpoint, e.g. a local mock server
+  TRADING_MAX_ORDER_USD: z.string().transform(Number).default('100'),
+  TRADING_MAX_DAILY_USD: z.string().transform(Number).default('500'),
+  TRADING_KILL_SWITCH: z.enum(['true', 'false']).default('false'), // Halts trading regardless of the runtime switch
+  TRADING_CONFIRM_TTL_SECONDS: z.string().transform(Number).default('60'),
+
+  // Anomaly Detection
+  ANOMALY_INTERVAL: z.enum(['1m', '5m', '15m', '1h', '4h', '1d']).default('1h'), // Candle size the detector scores
+  ANOMALY_LOOKBACK: z.string().transform(Number).default('100'), // Closed candles in the baseline
+  ANOMALY_Z_THRESHOLD: z.string().transform(Number).default('3'),
+  ANOMALY_GAP_PERCENT: z.string().transform(Number).default('2'),
+  ANOMALY_VOLATILITY_RATIO: z.string().transform(Number).default('2.5'),
+  ANOMALY_COOLDOWN_CANDLES: z.string().transform(Number).default('6'), // Quiet period per coin and anomaly type
+
+  // Whale Watch
+  DUNE_WHALE_QUERY_ID: z.string().transform(Number).optional(), // Scheduled Dune query returning large transfers; whale watch is off without it
+  WHALE_POLL_MINUTES: z.string().transform(Number).default('10'), // 1-59
+  WHALE_DEFAULT_CHAIN: z.string().default('polkadot'), // For rows without a blockchain column
+
+  // Paper Trading
+  PAPER_STARTING_BALANCE: z.string().transform(Number).default('10000'), // Virtual USD per account
+  PAPER_FEE_RATE: z.string().transform(Number).default('0.001'),
 
   // Redis Configuration
   REDIS_URL: z.string().url(),
@@ -25,7 +86,13 @@ const envSchema = z.object({
 
   // Google Cloud Configuration
   GOOGLE_APPLICATION_CREDENTIALS: z.string().optional(),
-});
+}).refine(
+  (env) => env.LLM_PROVIDER !== 'openai' || env.LLM_BASE_URL !== undefined || env.OPENAI_API_KEY !== undefined,
+  { message: 'OPENAI_API_KEY is required unless LLM_BASE_URL points at a local server or LLM_PROVIDER=mock', path: ['OPENAI_API_KEY'] }
+).refine(
+  (env) => env.TRADING_MODE === 'dry_run' || (env.BINANCE_API_KEY !== undefined && env.BINANCE_API_SECRET !== undefined),
+  { message: 'BINANCE_API_KEY and BINANCE_API_SECRET are required unless TRADING_MODE=dry_run', path: ['BINANCE_API_KEY'] }
+);
 
 // Parse and validate environment variables
 const env = envSchema.safeParse(process.env);
@@ -44,14 +111,80 @@ export const config = {
     dune: {
       apiKey: env.data.DUNE_API_KEY,
     },
-    openai: {
-      apiKey: env.data.OPENAI_API_KEY,
-    },
     binance: {
       apiKey: env.data.BINANCE_API_KEY,
       apiSecret: env.data.BINANCE_API_SECRET,
+      baseUrl: env.data.BINANCE_API_URL,
+    },
+  },
+  marketData: {
+    providers: env.data.MARKET_DATA_PROVIDERS.split(',').map((name) => name.trim()).filter(Boolean),
+    divergenceThreshold: env.data.PRICE_DIVERGENCE_THRESHOLD,
+    coingeckoUrl: env.data.COINGECKO_API_URL,
+  },
+  chains: {
+    polkadot: { rpcUrl: env.data.POLKADOT_RPC_URL },
+    kusama: { rpcUrl: env.data.KUSAMA_RPC_URL },
+    connectTimeoutMs: env.data.CHAIN_CONNECT_TIMEOUT_MS,
+  },
+  llm: {
+    provider: env.data.LLM_PROVIDER,
+    apiKey: env.data.OPENAI_API_KEY,
+    baseUrl: env.data.LLM_BASE_URL,
+    timeoutMs: env.data.LLM_TIMEOUT_MS,
+    maxRetries: env.data.LLM_MAX_RETRIES,
+    jsonMode: env.data.LLM_JSON_MODE === 'true',
+    models: {
+      analysis: env.data.LLM_MODEL_ANALYSIS,
+      signal: env.data.LLM_MODEL_SIGNAL,
+      anomaly: env.data.LLM_MODEL_ANOMALY,
+      intent: env.data.LLM_MODEL_INTENT,
+      digest: env.data.LLM_MODEL_DIGEST,
+      transcription: env.data.LLM_MODEL_TRANSCRIPTION,
     },
   },
+  usage: {
+    quotas: {
+      free: { daily: env.data.AI_QUOTA_FREE_DAILY, monthly: env.data.AI_QUOTA_FREE_MONTHLY },
+      pro: { daily: env.data.AI_QUOTA_PRO_DAILY, monthly: env.data.AI_QUOTA_PRO_MONTHLY },
+      unlimited: { daily: 0, monthly: 0 },
+    },
+  },
+  admin: {
+    userIds: env.data.ADMIN_USER_IDS.split(',').map((id) => Number(id.trim())).filter((id) => id > 0),
+  },
+  backtest: {
+    fixturesDir: env.data.BACKTEST_FIXTURES_DIR,
+    feeRate: env.data.BACKTEST_FEE_RATE,
+    slippage: env.data.BACKTEST_SLIPPAGE,
+  },
+  trading: {
+    mode: env.data.TRADING_MODE,
+    baseUrl:
+      env.data.BINANCE_TRADING_URL ??
+      (env.data.TRADING_MODE === 'live' ? env.data.BINANCE_API_URL : 'https://testnet.binance.vision'),
+    maxOrderNotional: env.data.TRADING_MAX_ORDER_USD,
+    maxDailyNotional: env.data.TRADING_MAX_DAILY_USD,
+    killSwitch: env.data.TRADING_KILL_SWITCH === 'true',
+    confirmTtlSeconds: env.data.TRADING_CONFIRM_TTL_SECONDS,
+  },
+  anomaly: {
+    interval: env.data.ANOMALY_INTERVAL,
+    lookback: env.data.ANOMALY_LOOKBACK,
+    zScore: env.data.ANOMALY_Z_THRESHOLD,
+    gapPercent: env.data.ANOMALY_GAP_PERCENT,
+    volatilityRatio: env.data.ANOMALY_VOLATILITY_RATIO,
+    cooldownCandles: env.data.ANOMALY_COOLDOWN_CANDLES,
+  },
+  whales: {
+    queryId: env.data.DUNE_WHALE_QUERY_ID,
+    pollMinutes: Math.min(59, Math.max(1, env.data.WHALE_POLL_MINUTES)),
+    defaultChain: env.data.WHALE_DEFAULT_CHAIN,
+  },
+  paper: {
+    startingBalance: env.data.PAPER_STARTING_BALANCE,
+    feeRate: env.data.PAPER_FEE_RATE,
+  },
   redis: {
     url: env.data.REDIS_URL,
   },
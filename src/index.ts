@@ -1,11 +1,29 @@
 import { bot } from './bot';
+import { config } from './config/config';
 import { log, logError } from './utils/logger';
 import { redisService } from './services/redis.service';
+import { alertService } from './services/alert.service';
+import { cryptoService } from './services/crypto.service';
+import { signalService } from './services/signal.service';
+import { paperTradingService } from './services/paper.service';
+import { digestService } from './services/digest.service';
+import { anomalyService } from './services/anomaly.service';
+import { whaleService } from './services/whale.service';
+import { polkadotService } from './services/polkadot.service';
+import { addressWatchService } from './services/address-watch.service';
+import { stakingService } from './services/staking.service';
 
 async function shutdown(): Promise<void> {
   try {
     log.info('Shutting down gracefully...');
+    cryptoService.stopMonitoring();
+    signalService.stop();
+    digestService.stop();
+    whaleService.stop();
+    addressWatchService.stop();
+    stakingService.stop();
     await bot.stop();
+    await polkadotService.disconnect();
     await redisService.disconnect();
     process.exit(0);
   } catch (error) {
@@ -33,6 +51,19 @@ process.on('unhandledRejection', (reason) => {
 (async () => {
   try {
     log.info('Starting SentinelTrade bot...');
+    await redisService.waitUntilReady();
+    await alertService.start();
+    await paperTradingService.start();
+    await anomalyService.start();
+    signalService.start();
+    await digestService.start();
+    if (config.whales.queryId !== undefined) {
+      whaleService.start();
+    } else {
+      log.info('Whale watch off: DUNE_WHALE_QUERY_ID is not set');
+    }
+    await addressWatchService.start();
+    stakingService.start();
     await bot.start();
     log.info('Bot is running');
   } catch (error) {
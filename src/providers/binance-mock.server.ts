@@ -0,0 +1,140 @@
+import { createHmac } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+// A stand-in for Binance's signed spot order endpoints, so the trading client can be exercised
+// without keys or network. Point BINANCE_TRADING_URL at it. Market orders fill at the configured
+// price; limit orders rest until cancelled unless they cross it.
+
+interface MockOrder {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  transactTime: number;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  cummulativeQuoteQty: string;
+  status: 'NEW' | 'FILLED' | 'CANCELED';
+  type: string;
+  side: string;
+}
+
+export interface BinanceMockServerOptions {
+  port?: number;
+  apiKey?: string;
+  apiSecret?: string;
+  // Fill price per pair; anything unlisted fills at defaultPrice
+  prices?: Record<string, number>;
+  defaultPrice?: number;
+}
+
+export interface BinanceMockServer {
+  url: string;
+  orders: Map<number, MockOrder>;
+  close(): Promise<void>;
+}
+
+export const startBinanceMockServer = (options: BinanceMockServerOptions = {}): Promise<BinanceMockServer> => {
+  const apiKey = options.apiKey ?? 'mock-key';
+  const apiSecret = options.apiSecret ?? 'mock-secret';
+  const orders = new Map<number, MockOrder>();
+  let nextOrderId = 1;
+
+  const send = (res: ServerResponse, status: number, body: unknown): void => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  const reject = (res: ServerResponse, status: number, code: number, msg: string): void =>
+    send(res, status, { code, msg });
+
+  const handle = (req: IncomingMessage, res: ServerResponse): void => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const query = url.search.slice(1);
+    const signatureIndex = query.lastIndexOf('&signature=');
+    const params = url.searchParams;
+
+    if (req.headers['x-mbx-apikey'] !== apiKey) {
+      return reject(res, 401, -2015, 'Invalid API-key, IP, or permissions for action.');
+    }
+    const expected = createHmac('sha256', apiSecret).update(query.slice(0, signatureIndex)).digest('hex');
+    if (signatureIndex < 0 || params.get('signature') !== expected) {
+      return reject(res, 400, -1022, 'Signature for this request is not valid.');
+    }
+
+    const symbol = params.get('symbol') || '';
+    if (url.pathname === '/api/v3/openOrders' && req.method === 'GET') {
+      return send(
+        res,
+        200,
+        Array.from(orders.values()).filter((order) => order.status === 'NEW' && (!symbol || order.symbol === symbol))
+      );
+    }
+    if (url.pathname !== '/api/v3/order') {
+      return reject(res, 404, -1000, `Unknown endpoint ${url.pathname}`);
+    }
+
+    if (req.method === 'POST') {
+      const type = params.get('type') || 'MARKET';
+      const side = params.get('side') || 'BUY';
+      const quantity = Number(params.get('quantity'));
+      const marketPrice = options.prices?.[symbol] ?? options.defaultPrice ?? 100;
+      const limitPrice = Number(params.get('price') || 0);
+      if (!symbol || !(quantity > 0) || (type === 'LIMIT' && !(limitPrice > 0))) {
+        return reject(res, 400, -1102, 'Mandatory parameter was not sent, was empty/null, or malformed.');
+      }
+
+      const crosses = type === 'MARKET' || (side === 'BUY' ? limitPrice >= marketPrice : limitPrice <= marketPrice);
+      const order: MockOrder = {
+        symbol,
+        orderId: nextOrderId++,
+        clientOrderId: params.get('newClientOrderId') || `mock-${Date.now()}`,
+        transactTime: Date.now(),
+        price: type === 'LIMIT' ? String(limitPrice) : '0',
+        origQty: String(quantity),
+        executedQty: crosses ? String(quantity) : '0',
+        cummulativeQuoteQty: crosses ? String(quantity * marketPrice) : '0',
+        status: crosses ? 'FILLED' : 'NEW',
+        type,
+        side,
+      };
+      orders.set(order.orderId, order);
+      return send(res, 200, order);
+    }
+
+    const order = orders.get(Number(params.get('orderId')));
+    if (!order || order.symbol !== symbol) {
+      return reject(res, 400, -2013, 'Order does not exist.');
+    }
+    if (req.method === 'GET') {
+      return send(res, 200, order);
+    }
+    if (req.method === 'DELETE') {
+      if (order.status !== 'NEW') {
+        return reject(res, 400, -2011, 'Unknown order sent.');
+      }
+      order.status = 'CANCELED';
+      return send(res, 200, order);
+    }
+    return reject(res, 405, -1000, `Unsupported method ${req.method}`);
+  };
+
+  const server: Server = createServer(handle);
+  return new Promise((resolve) => {
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        orders,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+};
+
+// node dist/providers/binance-mock.server.js [port]
+if (require.main === module) {
+  startBinanceMockServer({ port: Number(process.argv[2] || 8090) }).then((server) => {
+    console.log(`Mock Binance listening on ${server.url} (key "mock-key", secret "mock-secret")`);
+  });
+}
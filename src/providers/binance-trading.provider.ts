@@ -0,0 +1,122 @@
+import axios, { Method } from 'axios';
+import { createHmac } from 'crypto';
+import { ExchangeOrder, OrderRequest, OrderSide, OrderType } from '../types/trading';
+
+interface BinanceOrderResponse {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  transactTime?: number;
+  time?: number;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  cummulativeQuoteQty: string;
+  status: string;
+  type: OrderType;
+  side: OrderSide;
+}
+
+export class BinanceApiError extends Error {
+  constructor(readonly status: number | undefined, readonly code: number | undefined, message: string) {
+    super(`[binance] ${message}${code !== undefined ? ` (code ${code})` : ''}`);
+    this.name = 'BinanceApiError';
+  }
+}
+
+// Signed spot endpoints. Every parameter travels in the query string, which is what gets signed.
+export class BinanceTradingClient {
+  private readonly RECV_WINDOW = 5000;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    private readonly apiSecret: string
+  ) {}
+
+  async placeOrder(request: OrderRequest, clientOrderId?: string): Promise<ExchangeOrder> {
+    const params: Record<string, string | number> = {
+      symbol: request.pair,
+      side: request.side,
+      type: request.type,
+      quantity: this.formatNumber(request.quantity),
+      newOrderRespType: 'RESULT',
+    };
+    if (request.type === 'LIMIT') {
+      params.price = this.formatNumber(request.price ?? 0);
+      params.timeInForce = 'GTC';
+    }
+    if (clientOrderId) {
+      params.newClientOrderId = clientOrderId;
+    }
+    return this.toOrder(await this.signedRequest<BinanceOrderResponse>('POST', '/api/v3/order', params));
+  }
+
+  async cancelOrder(pair: string, orderId: number): Promise<ExchangeOrder> {
+    return this.toOrder(
+      await this.signedRequest<BinanceOrderResponse>('DELETE', '/api/v3/order', { symbol: pair, orderId })
+    );
+  }
+
+  async getOrder(pair: string, orderId: number): Promise<ExchangeOrder> {
+    return this.toOrder(
+      await this.signedRequest<BinanceOrderResponse>('GET', '/api/v3/order', { symbol: pair, orderId })
+    );
+  }
+
+  async getOpenOrders(pair?: string): Promise<ExchangeOrder[]> {
+    const orders = await this.signedRequest<BinanceOrderResponse[]>(
+      'GET',
+      '/api/v3/openOrders',
+      pair ? { symbol: pair } : {}
+    );
+    return orders.map((order) => this.toOrder(order));
+  }
+
+  private async signedRequest<T>(
+    method: Method,
+    path: string,
+    params: Record<string, string | number>
+  ): Promise<T> {
+    const query = new URLSearchParams(
+      Object.entries({ ...params, recvWindow: this.RECV_WINDOW, timestamp: Date.now() }).map(
+        ([key, value]): [string, string] => [key, String(value)]
+      )
+    ).toString();
+    const signature = createHmac('sha256', this.apiSecret).update(query).digest('hex');
+
+    try {
+      const response = await axios.request<T>({
+        method,
+        url: `${this.baseUrl}${path}?${query}&signature=${signature}`,
+        headers: { 'X-MBX-APIKEY': this.apiKey },
+        timeout: 10000,
+      });
+      return response.data;
+    } catch (error: any) {
+      const data = error?.response?.data;
+      throw new BinanceApiError(error?.response?.status, data?.code, data?.msg || error?.message || 'Request failed');
+    }
+  }
+
+  // Binance rejects exponent notation, so small quantities must be written out in full
+  private formatNumber(value: number): string {
+    return value.toFixed(8).replace(/\.?0+$/, '');
+  }
+
+  private toOrder(order: BinanceOrderResponse): ExchangeOrder {
+    return {
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId,
+      pair: order.symbol,
+      side: order.side,
+      type: order.type,
+      status: order.status,
+      price: parseFloat(order.price),
+      quantity: parseFloat(order.origQty),
+      executedQuantity: parseFloat(order.executedQty),
+      quoteQuantity: parseFloat(order.cummulativeQuoteQty),
+      time: order.transactTime ?? order.time ?? Date.now(),
+    };
+  }
+}
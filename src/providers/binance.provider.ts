@@ -0,0 +1,124 @@
+import axios from 'axios';
+import { config } from '../config/config';
+import { symbolService } from '../services/symbol.service';
+import { MarketDataProvider, MarketDataProviderError, toProviderError } from './market-data.provider';
+import { Candle, OrderBookTop, PriceData, Ticker24h } from '../types/market';
+import { KlineInterval } from '../utils/intervals';
+
+interface BinanceTicker24h {
+  symbol: string;
+  openPrice: string;
+  highPrice: string;
+  lowPrice: string;
+  lastPrice: string;
+  priceChangePercent: string;
+  quoteVolume: string;
+}
+
+interface BinanceBookTicker {
+  bidPrice: string;
+  bidQty: string;
+  askPrice: string;
+  askQty: string;
+}
+
+type BinanceKline = [number, string, string, string, string, string, number, string, ...unknown[]];
+
+export class BinanceProvider implements MarketDataProvider {
+  readonly name = 'binance';
+  private readonly QUOTE_ASSET = 'USDT';
+
+  constructor(private readonly baseUrl: string = config.apis.binance.baseUrl) {}
+
+  private async request<T>(path: string, params: Record<string, unknown>): Promise<T> {
+    try {
+      const response = await axios.get<T>(`${this.baseUrl}${path}`, { params, timeout: 10000 });
+      return response.data;
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  // Binance lists spot markets by pair, so coins are quoted against USDT as a USD proxy
+  private async toPair(coinId: string): Promise<string> {
+    const coin = await symbolService.getCoin(coinId);
+    const ticker = coin?.symbol.toUpperCase();
+    if (!ticker || ticker === this.QUOTE_ASSET) {
+      throw new MarketDataProviderError(this.name, 'unsupported', `No USDT market for ${coinId}`);
+    }
+    return `${ticker}${this.QUOTE_ASSET}`;
+  }
+
+  private async getTicker(coinId: string): Promise<BinanceTicker24h> {
+    return this.request<BinanceTicker24h>('/api/v3/ticker/24hr', { symbol: await this.toPair(coinId) });
+  }
+
+  async getPrices(coinIds: string[]): Promise<Record<string, PriceData>> {
+    const result: Record<string, PriceData> = {};
+    const tickers = await Promise.allSettled(coinIds.map((id) => this.getTicker(id)));
+
+    tickers.forEach((ticker, index) => {
+      if (ticker.status === 'fulfilled') {
+        result[coinIds[index]] = {
+          price: parseFloat(ticker.value.lastPrice),
+          change24h: parseFloat(ticker.value.priceChangePercent),
+          volume24h: parseFloat(ticker.value.quoteVolume),
+        };
+      }
+    });
+
+    // Partial results are fine (some coins have no USDT market); nothing at all is a failure
+    if (Object.keys(result).length === 0 && coinIds.length > 0) {
+      const failure = tickers.find((t): t is PromiseRejectedResult => t.status === 'rejected');
+      throw toProviderError(this.name, failure?.reason);
+    }
+    return result;
+  }
+
+  async get24hStats(coinId: string): Promise<Ticker24h> {
+    const ticker = await this.getTicker(coinId);
+    return {
+      open: parseFloat(ticker.openPrice),
+      high: parseFloat(ticker.highPrice),
+      low: parseFloat(ticker.lowPrice),
+      last: parseFloat(ticker.lastPrice),
+      changePercent: parseFloat(ticker.priceChangePercent),
+      volume: parseFloat(ticker.quoteVolume),
+    };
+  }
+
+  async getKlines(
+    coinId: string,
+    interval: KlineInterval,
+    limit: number,
+    startTime?: number
+  ): Promise<Candle[]> {
+    const rows = await this.request<BinanceKline[]>('/api/v3/klines', {
+      symbol: await this.toPair(coinId),
+      interval, // Our interval names match Binance's
+      limit: Math.min(limit, 1000),
+      startTime,
+    });
+
+    return rows.map((row) => ({
+      openTime: row[0],
+      open: parseFloat(row[1]),
+      high: parseFloat(row[2]),
+      low: parseFloat(row[3]),
+      close: parseFloat(row[4]),
+      volume: parseFloat(row[7]), // quote volume, i.e. USD
+    }));
+  }
+
+  async getOrderBookTop(coinId: string): Promise<OrderBookTop> {
+    const book = await this.request<BinanceBookTicker>('/api/v3/ticker/bookTicker', {
+      symbol: await this.toPair(coinId),
+    });
+    return {
+      bidPrice: parseFloat(book.bidPrice),
+      bidQuantity: parseFloat(book.bidQty),
+      askPrice: parseFloat(book.askPrice),
+      askQuantity: parseFloat(book.askQty),
+    };
+  }
+}
@@ -0,0 +1,145 @@
+import axios from 'axios';
+import { config } from '../config/config';
+import { MarketDataProvider, MarketDataProviderError, toProviderError } from './market-data.provider';
+import { Candle, OrderBookTop, PriceData, Ticker24h } from '../types/market';
+import { KlineInterval, intervalToMs } from '../utils/intervals';
+import { aggregateCandles } from '../utils/candles';
+
+interface CoinGeckoPrice {
+  usd: number;
+  usd_24h_change: number;
+  usd_24h_vol: number;
+  usd_market_cap: number;
+}
+
+interface CoinGeckoMarket {
+  id: string;
+  current_price: number;
+  high_24h: number;
+  low_24h: number;
+  price_change_24h: number;
+  price_change_percentage_24h: number;
+  total_volume: number;
+}
+
+interface CoinGeckoMarketChart {
+  prices: Array<[number, number]>;
+  total_volumes: Array<[number, number]>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// With fewer samples per bucket, high and low collapse onto open and close
+const MIN_SAMPLES_PER_CANDLE = 4;
+// Longer ranges are fetched in pages short enough to keep hourly samples
+const MAX_PAGE_SPAN_MS = 90 * DAY_MS;
+const MAX_PAGES = 12;
+
+// market_chart/range picks its sample spacing from the requested span
+const getSampleSpacing = (spanMs: number): number => {
+  if (spanMs <= DAY_MS) return 5 * 60 * 1000;
+  if (spanMs <= 90 * DAY_MS) return 60 * 60 * 1000;
+  return DAY_MS;
+};
+
+export class CoinGeckoProvider implements MarketDataProvider {
+  readonly name = 'coingecko';
+
+  constructor(private readonly baseUrl: string = config.marketData.coingeckoUrl) {}
+
+  private async request<T>(path: string, params: Record<string, unknown>): Promise<T> {
+    try {
+      const response = await axios.get<T>(`${this.baseUrl}${path}`, { params, timeout: 10000 });
+      return response.data;
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  async getPrices(coinIds: string[]): Promise<Record<string, PriceData>> {
+    const data = await this.request<Record<string, CoinGeckoPrice>>('/simple/price', {
+      ids: coinIds.join(','),
+      vs_currencies: 'usd',
+      include_24hr_vol: true,
+      include_24hr_change: true,
+      include_market_cap: true,
+    });
+
+    const result: Record<string, PriceData> = {};
+    for (const [id, price] of Object.entries(data)) {
+      result[id] = {
+        price: price.usd,
+        change24h: price.usd_24h_change,
+        volume24h: price.usd_24h_vol,
+        marketCap: price.usd_market_cap,
+      };
+    }
+    return result;
+  }
+
+  async get24hStats(coinId: string): Promise<Ticker24h> {
+    const [market] = await this.request<CoinGeckoMarket[]>('/coins/markets', {
+      vs_currency: 'usd',
+      ids: coinId,
+    });
+    if (!market) {
+      throw new MarketDataProviderError(this.name, 'unsupported', `Unknown coin ${coinId}`);
+    }
+
+    return {
+      open: market.current_price - market.price_change_24h,
+      high: market.high_24h,
+      low: market.low_24h,
+      last: market.current_price,
+      changePercent: market.price_change_percentage_24h,
+      volume: market.total_volume,
+    };
+  }
+
+  async getKlines(
+    coinId: string,
+    interval: KlineInterval,
+    limit: number,
+    startTime?: number
+  ): Promise<Candle[]> {
+    const intervalMs = intervalToMs(interval);
+    const now = Date.now();
+    const from = startTime ?? now - intervalMs * limit;
+    const span = now - from;
+    const pageSpan = getSampleSpacing(span) * MIN_SAMPLES_PER_CANDLE <= intervalMs ? span : MAX_PAGE_SPAN_MS;
+    if (getSampleSpacing(pageSpan) * MIN_SAMPLES_PER_CANDLE > intervalMs || Math.ceil(span / pageSpan) > MAX_PAGES) {
+      throw new MarketDataProviderError(
+        this.name,
+        'unsupported',
+        `${interval} candles over this range would have too few CoinGecko samples for a real range`
+      );
+    }
+
+    const prices: Array<[number, number]> = [];
+    const volumes: Array<[number, number]> = [];
+    for (let pageStart = from; pageStart < now; pageStart += pageSpan) {
+      const chart = await this.request<CoinGeckoMarketChart>(`/coins/${coinId}/market_chart/range`, {
+        vs_currency: 'usd',
+        from: Math.floor(pageStart / 1000),
+        to: Math.floor(Math.min(pageStart + pageSpan, now) / 1000),
+      });
+      prices.push(...chart.prices);
+      volumes.push(...chart.total_volumes);
+    }
+    volumes.sort((a, b) => a[0] - b[0]);
+
+    // CoinGecko only publishes rolling 24h volume, so each candle gets it pro-rated to its interval.
+    // That volume is synthetic and the candles are flagged as such.
+    const volumeAt = (openTime: number): number => {
+      const sample = volumes.find(([timestamp]) => timestamp >= openTime) || volumes[volumes.length - 1];
+      return sample ? sample[1] * (intervalMs / DAY_MS) : 0;
+    };
+
+    return aggregateCandles(prices, intervalMs, volumeAt)
+      .slice(-limit)
+      .map((candle) => ({ ...candle, synthetic: true }));
+  }
+
+  async getOrderBookTop(): Promise<OrderBookTop> {
+    throw new MarketDataProviderError(this.name, 'unsupported', 'Order books are not available');
+  }
+}
@@ -0,0 +1,29 @@
+// Each task can be routed to its own model so cheap work (intent parsing) doesn't use the big one
+export type LLMTask = 'analysis' | 'signal' | 'anomaly' | 'intent' | 'digest' | 'transcription';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens?: number;
+  // Ask for a bare JSON object; providers that can't enforce it still get the instruction in the prompt
+  json?: boolean;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage: { promptTokens: number; completionTokens: number };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  transcribe(audio: Buffer, model: string, language: string): Promise<string>;
+}
@@ -0,0 +1,49 @@
+import { Candle, OrderBookTop, PriceData, Ticker24h } from '../types/market';
+import { KlineInterval } from '../utils/intervals';
+
+export type ProviderErrorReason = 'rate_limited' | 'unsupported' | 'unavailable';
+
+export class MarketDataProviderError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly reason: ProviderErrorReason,
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(`[${provider}] ${message}`);
+    this.name = 'MarketDataProviderError';
+  }
+}
+
+// All methods take CoinGecko coin ids; each provider maps them to its own instruments
+export interface MarketDataProvider {
+  readonly name: string;
+  getPrices(coinIds: string[]): Promise<Record<string, PriceData>>;
+  get24hStats(coinId: string): Promise<Ticker24h>;
+  // Returns up to `limit` candles, oldest first, starting at `startTime` when given
+  getKlines(coinId: string, interval: KlineInterval, limit: number, startTime?: number): Promise<Candle[]>;
+  getOrderBookTop(coinId: string): Promise<OrderBookTop>;
+}
+
+// Maps an axios failure onto the failover vocabulary: 429/418 are rate limits, 4xx means the
+// provider doesn't know the instrument, anything else is treated as a transient outage.
+export const toProviderError = (provider: string, error: any): MarketDataProviderError => {
+  if (error instanceof MarketDataProviderError) {
+    return error;
+  }
+
+  const status: number | undefined = error?.response?.status;
+  if (status === 429 || status === 418) {
+    const retryAfter = Number(error.response.headers?.['retry-after']);
+    return new MarketDataProviderError(
+      provider,
+      'rate_limited',
+      'Rate limit exceeded',
+      isNaN(retryAfter) ? undefined : retryAfter * 1000
+    );
+  }
+  if (status !== undefined && status >= 400 && status < 500) {
+    return new MarketDataProviderError(provider, 'unsupported', `Request rejected (HTTP ${status})`);
+  }
+  return new MarketDataProviderError(provider, 'unavailable', error?.message || 'Request failed');
+};
@@ -0,0 +1,103 @@
+import { LLMCompletion, LLMCompletionRequest, LLMMessage, LLMProvider } from './llm.provider';
+
+const lastUserMessage = (messages: LLMMessage[]): string =>
+  [...messages].reverse().find((message) => message.role === 'user')?.content || '';
+
+// Reads a value from the indicator block rendered by TechnicalAnalysisService.format
+const readIndicator = (prompt: string, label: string): string | null => {
+  const line = prompt.split('\n').find((l) => l.startsWith(`${label}:`));
+  return line ? line.slice(label.length + 1).trim() : null;
+};
+
+const readPrice = (value: string | null): number => parseFloat((value || '').replace(/[$,]/g, ''));
+
+// Deterministic offline stand-in: answers are derived from the prompt only, so the same
+// input always produces the same output and no network or API key is needed.
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const prompt = lastUserMessage(request.messages);
+    const content = this.respond(request, prompt);
+    const promptChars = request.messages.reduce((sum, message) => sum + message.content.length, 0);
+
+    return {
+      content,
+      model: `mock:${request.model}`,
+      usage: {
+        promptTokens: Math.ceil(promptChars / 4),
+        completionTokens: Math.ceil(content.length / 4),
+      },
+    };
+  }
+
+  async transcribe(audio: Buffer): Promise<string> {
+    return audio.length > 0 ? 'what is the price of bitcoin' : '';
+  }
+
+  private respond(request: LLMCompletionRequest, prompt: string): string {
+    switch (request.task) {
+      case 'signal':
+        return JSON.stringify(this.signal(prompt));
+      case 'anomaly':
+        // Echo the finding so notifications show which detection was explained
+        return ['[mock explanation]', ...prompt.split('\n').filter((line) => line.startsWith('- Finding:'))].join('\n');
+      case 'intent':
+        return JSON.stringify(this.intent(prompt));
+      case 'digest':
+        // Echo the headline facts so previews show which data fed the summary
+        return ['[mock digest]', ...prompt.split('\n').filter((line) => line.startsWith('- ')).slice(0, 3)].join('\n');
+      default: {
+        const facts = ['Trend', 'RSI(14)', 'Support', 'Resistance']
+          .map((label) => [label, readIndicator(prompt, label)])
+          .filter(([, value]) => value !== null)
+          .map(([label, value]) => `${label}: ${value}`);
+        return ['[mock analysis]', ...facts].join('\n');
+      }
+    }
+  }
+
+  private signal(prompt: string): Record<string, unknown> {
+    const price = readPrice(readIndicator(prompt, 'Price')?.split(' ')[0] ?? null);
+    const trend = readIndicator(prompt, 'Trend');
+    const atr = readPrice(readIndicator(prompt, 'ATR(14)')?.split(' ')[0] ?? null);
+    const risk = !isNaN(atr) && atr > 0 ? atr : price * 0.03;
+
+    if (isNaN(price) || (trend !== 'bullish' && trend !== 'bearish')) {
+      return {
+        signal: 'hold',
+        entry: null,
+        stopLoss: null,
+        targets: [],
+        timeHorizon: 'n/a',
+        confidence: 0.5,
+        reasons: [`Mock provider: trend is ${trend || 'unknown'}`],
+      };
+    }
+
+    const direction = trend === 'bullish' ? 1 : -1;
+    return {
+      signal: trend === 'bullish' ? 'buy' : 'sell',
+      entry: price,
+      stopLoss: price - direction * risk,
+      targets: [price + direction * risk * 1.5, price + direction * risk * 3],
+      timeHorizon: '1-3 days',
+      confidence: 0.55,
+      reasons: [`Mock provider: trend is ${trend}`, 'Stop and targets are multiples of ATR'],
+    };
+  }
+
+  private intent(text: string): { command: string; params: Record<string, string> } {
+    const lower = text.toLowerCase();
+    const words = lower.replace(/[^a-z0-9.\s]/g, ' ').split(/\s+/).filter(Boolean);
+    const stopWords = ['price', 'of', 'for', 'the', 'what', 'is', 'show', 'me', 'alert', 'when', 'at', 'set', 'an', 'a', 'analysis', 'analyze', 'reaches', 'hits', 'above', 'below'];
+    const symbol = words.find((word) => !stopWords.includes(word) && !/^\d/.test(word)) || '';
+    const price = words.find((word) => /^\d+(\.\d+)?$/.test(word));
+
+    if (lower.includes('portfolio')) return { command: 'portfolio', params: {} };
+    if (lower.includes('gainer') || lower.includes('mover')) return { command: 'topGainers', params: {} };
+    if (lower.includes('alert') && price) return { command: 'alert', params: { symbol, price } };
+    if (lower.includes('analy')) return { command: 'analysis', params: { symbol } };
+    return { command: 'price', params: { symbol } };
+  }
+}
@@ -0,0 +1,49 @@
+import OpenAI, { toFile } from 'openai';
+import { LLMCompletion, LLMCompletionRequest, LLMProvider } from './llm.provider';
+
+// Talks to api.openai.com or any server exposing the same REST API (vLLM, Ollama, LM Studio, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(
+    options: { apiKey?: string; baseUrl?: string; timeoutMs: number; maxRetries: number },
+    private readonly jsonMode: boolean
+  ) {
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK refuses to start without one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseUrl,
+      timeout: options.timeoutMs,
+      maxRetries: options.maxRetries,
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && this.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    return {
+      content: response.choices[0]?.message.content || '',
+      model: response.model || request.model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  async transcribe(audio: Buffer, model: string, language: string): Promise<string> {
+    const response = await this.client.audio.transcriptions.create({
+      file: await toFile(audio, 'audio.ogg'),
+      model,
+      language,
+    });
+    return response.text;
+  }
+}
@@ -0,0 +1,48 @@
+// Offline backtests against a local candle file; needs no bot config, Redis or network.
+// Usage: npm run backtest -- <candles.json> <interval> <rsi|sma|dca> [params...]
+import { DEFAULT_BACKTEST_OPTIONS, describeStrategy, parseStrategy, runBacktest } from '../utils/backtest';
+import { loadCandleFixture } from '../utils/candle-fixtures';
+import { intervalToMs, isKlineInterval, KLINE_INTERVAL_NAMES } from '../utils/intervals';
+
+const main = async (): Promise<void> => {
+  const [path, interval, ...strategyArgs] = process.argv.slice(2);
+  const strategy = parseStrategy(strategyArgs);
+  if (!path || !interval || !isKlineInterval(interval) || !strategy) {
+    console.error(
+      'Usage: npm run backtest -- <candles.json> <interval> <rsi|sma|dca> [params...]\n' +
+        `Intervals: ${KLINE_INTERVAL_NAMES.join(', ')}`
+    );
+    process.exit(1);
+  }
+
+  const candles = await loadCandleFixture(path);
+  const result = runBacktest(candles, strategy, { ...DEFAULT_BACKTEST_OPTIONS, intervalMs: intervalToMs(interval) });
+  const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(2)}%`);
+
+  console.log(`${describeStrategy(strategy)} over ${candles.length} ${interval} candles`);
+  console.table({
+    'Final equity': result.finalEquity.toFixed(2),
+    'Total return': percent(result.totalReturn),
+    'Buy & hold': percent(result.buyAndHoldReturn),
+    CAGR: percent(result.cagr),
+    'Max drawdown': percent(result.maxDrawdown),
+    Sharpe: result.sharpe === null ? 'n/a' : result.sharpe.toFixed(2),
+    Trades: result.trades.length,
+    'Win rate': percent(result.winRate),
+    'Fees paid': result.feesPaid.toFixed(2),
+  });
+  console.table(
+    result.trades.map((trade) => ({
+      side: trade.side,
+      time: new Date(trade.time).toISOString(),
+      price: trade.price.toFixed(4),
+      quantity: trade.quantity.toFixed(6),
+      fee: trade.fee.toFixed(4),
+    }))
+  );
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,327 @@
+import { ApiPromise } from '@polkadot/api';
+import { cryptoService } from './crypto.service';
+import { polkadotService } from './polkadot.service';
+import { portfolioService } from './portfolio.service';
+import { redisService } from './redis.service';
+import { webhookService } from './webhook.service';
+import { log, logError } from '../utils/logger';
+import { detectChain, formatTokens, fromPlanck, parseChainEvent, toChainAddress } from '../utils/polkadot';
+import { AddressActivity, AddressWatch } from '../types/address-watch';
+import { SubstrateChain } from '../types/polkadot';
+
+type AddressNotifier = (userId: number, activity: AddressActivity, watch: AddressWatch) => Promise<void>;
+type WatchResult = { success: boolean; message: string; watch?: AddressWatch };
+
+class AddressWatchService {
+  private readonly MAX_ADDRESSES = 10;
+  // Blocks replayed after a gap, e.g. a reconnect; older activity is dropped rather than flooding chats
+  private readonly MAX_BACKFILL = 50;
+  private readonly RETRY_MS = 5 * 60 * 1000;
+  private notifiers: AddressNotifier[] = [];
+  // Watches by chain, then by address, rebuilt from Redis on every change
+  private watches: Map<SubstrateChain, Map<string, AddressWatch[]>> = new Map();
+  private unsubscribers: Map<SubstrateChain, () => void> = new Map();
+  private lastBlock: Map<SubstrateChain, number> = new Map();
+  // Heads arrive faster than a backfill can finish, so each chain processes blocks one at a time
+  private queues: Map<SubstrateChain, Promise<void>> = new Map();
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  // A node that can't be reached doesn't hold up startup; subscribing is retried in the background
+  async start(): Promise<void> {
+    try {
+      await this.reload();
+      await this.subscribeAll();
+      this.retryTimer = setInterval(() => {
+        this.subscribeAll().catch((error) => logError(error as Error, 'AddressWatchService.retry'));
+      }, this.RETRY_MS);
+      log.info(`Address watch started for ${this.countWatches()} address(es)`);
+    } catch (error) {
+      logError(error as Error, 'AddressWatchService.start');
+      throw error;
+    }
+  }
+
+  stop(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers.clear();
+  }
+
+  onActivity(notifier: AddressNotifier): void {
+    this.notifiers.push(notifier);
+  }
+
+  async getWatches(userId: number): Promise<AddressWatch[]> {
+    return redisService.getAddressWatches(userId);
+  }
+
+  async watch(userId: number, input: string, label?: string): Promise<WatchResult> {
+    try {
+      const chain = detectChain(input);
+      if (!chain) {
+        return { success: false, message: "That isn't a Polkadot or Kusama address." };
+      }
+
+      const address = toChainAddress(input, chain);
+      const watches = await this.getWatches(userId);
+      if (watches.some((watch) => watch.chain === chain && watch.address === address)) {
+        return { success: false, message: 'You are already watching that address.' };
+      }
+      if (watches.length >= this.MAX_ADDRESSES) {
+        return { success: false, message: `You can watch at most ${this.MAX_ADDRESSES} addresses.` };
+      }
+
+      const watch: AddressWatch = {
+        userId,
+        chain,
+        address,
+        label: label?.trim().slice(0, 30) || undefined,
+        syncPortfolio: false,
+        createdAt: Date.now(),
+      };
+      await redisService.setAddressWatches(userId, [...watches, watch]);
+      await this.reload();
+
+      let message = `Watching ${chain} address ${address}.`;
+      try {
+        await this.subscribe(chain);
+      } catch {
+        message += ` The ${chain} node is unreachable right now; watching starts once it's back.`;
+      }
+      return { success: true, message, watch };
+    } catch (error) {
+      logError(error as Error, 'AddressWatchService.watch');
+      throw error;
+    }
+  }
+
+  // Synced balances are taken back out of the portfolio, so the ledger doesn't keep a stale copy
+  async unwatch(userId: number, input: string): Promise<WatchResult> {
+    try {
+      const watches = await this.getWatches(userId);
+      const watch = this.findWatch(watches, input);
+      if (!watch) {
+        return { success: false, message: 'You are not watching that address.' };
+      }
+
+      if (watch.syncPortfolio) {
+        await this.recordBalance(watch, 'transfer_out');
+      }
+      await redisService.setAddressWatches(userId, watches.filter((existing) => existing !== watch));
+      await this.reload();
+      return { success: true, message: `Stopped watching ${watch.label || watch.address}.`, watch };
+    } catch (error) {
+      logError(error as Error, 'AddressWatchService.unwatch');
+      throw error;
+    }
+  }
+
+  // Turning sync on books the address's current balance as a deposit; from then on every transfer
+  // and reward is mirrored as it happens. Turning it off books the balance back out.
+  async setSync(userId: number, input: string, enabled: boolean): Promise<WatchResult> {
+    try {
+      const watches = await this.getWatches(userId);
+      const watch = this.findWatch(watches, input);
+      if (!watch) {
+        return { success: false, message: 'You are not watching that address.' };
+      }
+      if (watch.syncPortfolio === enabled) {
+        return { success: false, message: `Portfolio sync is already ${enabled ? 'on' : 'off'}.`, watch };
+      }
+
+      const amount = await this.recordBalance(watch, enabled ? 'transfer_in' : 'transfer_out');
+      const updated = { ...watch, syncPortfolio: enabled };
+      await redisService.setAddressWatches(
+        userId,
+        watches.map((existing) => (existing === watch ? updated : existing))
+      );
+      await this.reload();
+      return {
+        success: true,
+        message: enabled
+          ? `Portfolio sync on: added the current balance of ${amount}.`
+          : `Portfolio sync off: removed the current balance of ${amount}.`,
+        watch: updated,
+      };
+    } catch (error) {
+      logError(error as Error, 'AddressWatchService.setSync');
+      throw error;
+    }
+  }
+
+  // Accepts the address in any SS58 format, or the label it was saved under
+  private findWatch(watches: AddressWatch[], input: string): AddressWatch | undefined {
+    const query = input.trim();
+    const chain = detectChain(query);
+    return watches.find((watch) =>
+      chain
+        ? watch.chain === chain && watch.address === toChainAddress(query, chain)
+        : watch.label?.toLowerCase() === query.toLowerCase()
+    );
+  }
+
+  private async reload(): Promise<void> {
+    const byChain: Map<SubstrateChain, Map<string, AddressWatch[]>> = new Map();
+    for (const watch of await redisService.getAllAddressWatches()) {
+      const addresses = byChain.get(watch.chain) ?? new Map<string, AddressWatch[]>();
+      addresses.set(watch.address, [...(addresses.get(watch.address) ?? []), watch]);
+      byChain.set(watch.chain, addresses);
+    }
+    this.watches = byChain;
+  }
+
+  private countWatches(): number {
+    let count = 0;
+    this.watches.forEach((addresses) => addresses.forEach((watches) => (count += watches.length)));
+    return count;
+  }
+
+  private async subscribeAll(): Promise<void> {
+    for (const chain of this.watches.keys()) {
+      try {
+        await this.subscribe(chain);
+      } catch (error) {
+        log.warn(`Address watch not subscribed to ${chain}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  // Finalized heads only, so a reorg can't announce a transfer that later disappears. The
+  // subscription stays up once made; the API resubscribes by itself after a reconnect.
+  private async subscribe(chain: SubstrateChain): Promise<void> {
+    if (this.unsubscribers.has(chain)) return;
+
+    const api = await polkadotService.getApi(chain);
+    const unsubscribe = await api.rpc.chain.subscribeFinalizedHeads((header) => {
+      const blockNumber = header.number.toNumber();
+      const queue = (this.queues.get(chain) ?? Promise.resolve())
+        .then(() => this.processUpTo(chain, api, blockNumber))
+        .catch((error) => logError(error as Error, 'AddressWatchService.processBlock'));
+      this.queues.set(chain, queue);
+    });
+    this.unsubscribers.set(chain, unsubscribe);
+    log.info(`Address watch subscribed to ${chain} finalized blocks`);
+  }
+
+  private async processUpTo(chain: SubstrateChain, api: ApiPromise, head: number): Promise<void> {
+    const last = this.lastBlock.get(chain);
+    const from = last === undefined ? head : Math.max(last + 1, head - this.MAX_BACKFILL + 1);
+    for (let blockNumber = from; blockNumber <= head; blockNumber++) {
+      await this.processBlock(chain, api, blockNumber);
+      this.lastBlock.set(chain, blockNumber);
+    }
+  }
+
+  private async processBlock(chain: SubstrateChain, api: ApiPromise, blockNumber: number): Promise<void> {
+    const addresses = this.watches.get(chain);
+    if (!addresses || addresses.size === 0) return;
+
+    const hash = await api.rpc.chain.getBlockHash(blockNumber);
+    const records = await (await api.at(hash)).query.system.events();
+    const { token, decimals } = polkadotService.getToken(api);
+    let price: number | null | undefined;
+
+    for (let eventIndex = 0; eventIndex < records.length; eventIndex++) {
+      const { event } = records[eventIndex];
+      const parsed = parseChainEvent(
+        event.section,
+        event.method,
+        event.data.map((value) => value.toString())
+      );
+      if (!parsed) continue;
+
+      const amount = fromPlanck(BigInt(parsed.amount), decimals);
+      const matches: Array<Pick<AddressActivity, 'address' | 'kind' | 'counterparty'>> =
+        parsed.kind === 'reward'
+          ? [{ address: parsed.stash, kind: 'reward', counterparty: null }]
+          : [
+              { address: parsed.from, kind: 'transfer_out', counterparty: parsed.to },
+              { address: parsed.to, kind: 'transfer_in', counterparty: parsed.from },
+            ];
+
+      for (const match of matches) {
+        const watches = addresses.get(match.address);
+        if (!watches) continue;
+
+        // One price lookup per block, and only for blocks that concern someone
+        if (price === undefined) {
+          price = await this.getPrice(chain);
+        }
+        const activity: AddressActivity = {
+          ...match,
+          chain,
+          amount,
+          token,
+          usdValue: price === null ? null : price * amount,
+          blockNumber,
+          eventIndex,
+        };
+        log.info(`Address activity on ${chain} #${blockNumber}: ${activity.kind} of ${amount} ${token}`);
+        for (const watch of watches) {
+          await this.deliver(watch, activity, price);
+        }
+      }
+    }
+  }
+
+  private async getPrice(chain: SubstrateChain): Promise<number | null> {
+    try {
+      return (await cryptoService.getPrice(chain))?.price ?? null;
+    } catch (error) {
+      log.debug(`No ${chain} price for address activity: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private async deliver(watch: AddressWatch, activity: AddressActivity, price: number | null): Promise<void> {
+    if (watch.syncPortfolio) {
+      try {
+        // The event's position makes the id unique, so a replayed block isn't booked twice
+        await portfolioService.importTransactions(watch.userId, [{
+          symbol: activity.token,
+          type: activity.kind === 'transfer_out' ? 'transfer_out' : 'transfer_in',
+          quantity: activity.amount,
+          price: price ?? 0,
+          fee: 0,
+          timestamp: Date.now(),
+          source: activity.chain,
+          externalId: `${activity.chain}:${activity.blockNumber}-${activity.eventIndex}:${watch.address}`,
+        }]);
+      } catch (error) {
+        logError(error as Error, 'AddressWatchService.sync');
+      }
+    }
+
+    await webhookService.sendAddressActivity(watch.userId, activity);
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier(watch.userId, activity, watch);
+      } catch (error) {
+        logError(error as Error, 'AddressWatchService.notify');
+      }
+    }
+  }
+
+  // Books the address's whole on-chain balance in or out of the portfolio; returns it formatted
+  private async recordBalance(watch: AddressWatch, type: 'transfer_in' | 'transfer_out'): Promise<string> {
+    const balance = await polkadotService.getAccountBalance(watch.chain, watch.address);
+    if (balance.total > 0) {
+      await portfolioService.importTransactions(watch.userId, [{
+        symbol: balance.token,
+        type,
+        quantity: balance.total,
+        price: (await this.getPrice(watch.chain)) ?? 0,
+        fee: 0,
+        timestamp: Date.now(),
+        source: watch.chain,
+        externalId: `${watch.chain}:sync-${type}-${Date.now()}:${watch.address}`,
+      }]);
+    }
+    return formatTokens(balance.total, balance.token);
+  }
+}
+
+export const addressWatchService = new AddressWatchService();
@@ -1,30 +1,43 @@
-import OpenAI from 'openai';
-import { config } from '../config/config';
-import { log, logError } from '../utils/logger';
+import { logError } from '../utils/logger';
 import { redisService } from './redis.service';
+import { llmService } from './llm.service';
+import { technicalAnalysisService } from './technical.service';
+import { signalService } from './signal.service';
+import { TechnicalSnapshot } from '../types/market';
+import { TradingSignal, TradingSignalSchema } from '../types/ai';
+import { AnomalyDetection } from '../types/anomaly';
 
 class AIService {
-  private openai: OpenAI;
   private readonly CACHE_TTL = 1800; // 30 minutes cache
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.apis.openai.apiKey,
-    });
-  }
-
   private getCacheKey(type: string, params: Record<string, any>): string {
     return `ai:${type}:${JSON.stringify(params)}`;
   }
 
+  // A cached signal is shared between users, but each one asking gets it in their own track record,
+  // once per cache window
+  private async recordSignalOnce(
+    signal: TradingSignal,
+    technicals: TechnicalSnapshot,
+    cacheKey: string,
+    userId?: number
+  ): Promise<void> {
+    const recordedKey = `${cacheKey}:recorded:${userId ?? 'anonymous'}`;
+    if (await redisService.getCache(recordedKey)) return;
+
+    await redisService.setCacheWithExpiry(recordedKey, '1', this.CACHE_TTL);
+    await signalService.recordSignal(signal, technicals, userId);
+  }
+
   async generateMarketAnalysis(
     symbol: string,
-    priceData: any,
-    newsData: any
+    technicals: TechnicalSnapshot,
+    userId?: number
   ): Promise<string> {
     try {
       const cacheKey = this.getCacheKey('market_analysis', {
         symbol,
+        interval: technicals.interval,
         timestamp: Math.floor(Date.now() / (15 * 60 * 1000)), // 15-minute intervals
       });
 
@@ -36,36 +49,28 @@ class AIService {
 
       const prompt = `Analyze the following market data for ${symbol}:
         
-Price Data:
-${JSON.stringify(priceData, null, 2)}
-
-Recent News:
-${JSON.stringify(newsData, null, 2)}
+Technical Indicators (${technicals.interval}):
+${technicalAnalysisService.format(technicals)}
 
 Provide a comprehensive market analysis including:
-1. Price trend analysis
-2. Key support and resistance levels
-3. Market sentiment based on news
+1. Price trend analysis grounded in the indicator values above
+2. Key support and resistance levels (use the computed levels rather than inventing new ones)
+3. Market sentiment as reflected in momentum and volume
 4. Potential risks and opportunities
 5. Short-term price outlook`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a professional cryptocurrency analyst specializing in technical and fundamental analysis.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-      });
+      const response = await llmService.complete('analysis', [
+        {
+          role: 'system',
+          content: 'You are a professional cryptocurrency analyst specializing in technical and fundamental analysis.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ], { temperature: 0.7, maxTokens: 1000, userId });
 
-      const analysis = response.choices[0].message.content || 'No analysis generated';
+      const analysis = response.content || 'No analysis generated';
 
       // Cache the result
       await redisService.setCacheWithExpiry(cacheKey, analysis, this.CACHE_TTL);
@@ -77,70 +82,51 @@ Provide a comprehensive market analysis including:
     }
   }
 
-  async detectAnomalies(
-    symbol: string,
-    recentTrades: any[],
-    historicalData: any
-  ): Promise<{
-    hasAnomaly: boolean;
-    description: string;
-    confidence: number;
-  }> {
+  // Detection is statistical (see utils/anomaly); the model only puts a fired detection into words
+  async explainAnomaly(detection: AnomalyDetection, symbol: string, userId?: number): Promise<string> {
     try {
-      const cacheKey = this.getCacheKey('anomaly_detection', {
-        symbol,
-        timestamp: Math.floor(Date.now() / (5 * 60 * 1000)), // 5-minute intervals
+      const cacheKey = this.getCacheKey('anomaly_explanation', {
+        coinId: detection.coinId,
+        type: detection.type,
+        candleTime: detection.candleTime,
       });
 
       // Check cache
-      const cachedResult = await redisService.getCache(cacheKey);
-      if (cachedResult) {
-        return JSON.parse(cachedResult);
+      const cachedExplanation = await redisService.getCache(cacheKey);
+      if (cachedExplanation) {
+        return cachedExplanation;
       }
 
-      const prompt = `Analyze the following trading data for ${symbol} and detect any anomalies:
-        
-Recent Trades:
-${JSON.stringify(recentTrades, null, 2)}
-
-Historical Data:
-${JSON.stringify(historicalData, null, 2)}
-
-Identify any unusual patterns, sudden price movements, or trading volumes that might indicate market manipulation or significant events.`;
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an AI specializing in detecting cryptocurrency market anomalies and patterns.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.5,
-        max_tokens: 500,
-      });
-
-      const analysis = response.choices[0].message.content || '';
-      const result = {
-        hasAnomaly: analysis.toLowerCase().includes('anomaly'),
-        description: analysis,
-        confidence: this.calculateConfidence(analysis),
-      };
+      const prompt = `A statistical detector flagged ${symbol} on the ${detection.interval} chart:
+- Type: ${detection.type}
+- Finding: ${detection.description}
+- Measured: ${detection.value.toFixed(2)} (threshold ${detection.threshold})
+- Severity: ${detection.severity}
+- Price at close: $${detection.price}
+
+In at most three sentences, explain what this kind of move usually means and what a trader might check next.`;
+
+      const response = await llmService.complete('anomaly', [
+        {
+          role: 'system',
+          content:
+            'You explain crypto market anomalies that have already been detected. Do not question or re-score ' +
+            'the detection, never invent numbers, and do not give financial advice.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ], { temperature: 0.3, maxTokens: 200, userId });
+
+      const explanation = response.content.trim();
 
       // Cache the result
-      await redisService.setCacheWithExpiry(
-        cacheKey,
-        JSON.stringify(result),
-        this.CACHE_TTL
-      );
+      await redisService.setCacheWithExpiry(cacheKey, explanation, this.CACHE_TTL);
 
-      return result;
+      return explanation;
     } catch (error) {
-      logError(error as Error, 'AIService.detectAnomalies');
+      logError(error as Error, 'AIService.explainAnomaly');
       throw error;
     }
   }
@@ -148,12 +134,9 @@ Identify any unusual patterns, sudden price movements, or trading volumes that m
   async generateTradingSignal(
     symbol: string,
     timeframe: string,
-    technicalData: any
-  ): Promise<{
-    signal: 'buy' | 'sell' | 'hold';
-    reasoning: string;
-    confidence: number;
-  }> {
+    technicals: TechnicalSnapshot,
+    userId?: number
+  ): Promise<TradingSignal> {
     try {
       const cacheKey = this.getCacheKey('trading_signal', {
         symbol,
@@ -164,33 +147,40 @@ Identify any unusual patterns, sudden price movements, or trading volumes that m
       // Check cache
       const cachedSignal = await redisService.getCache(cacheKey);
       if (cachedSignal) {
-        return JSON.parse(cachedSignal);
+        const signal: TradingSignal = JSON.parse(cachedSignal);
+        await this.recordSignalOnce(signal, technicals, cacheKey, userId);
+        return signal;
       }
 
-      const prompt = `Generate a trading signal for ${symbol} on ${timeframe} timeframe based on the following technical data:
-        
-${JSON.stringify(technicalData, null, 2)}
-
-Provide a clear signal (buy/sell/hold) with detailed reasoning and confidence level.`;
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an AI trading analyst specializing in cryptocurrency technical analysis.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.4,
-        max_tokens: 500,
-      });
+      const prompt = `Generate a trading signal for ${symbol} on ${timeframe} timeframe based on the following computed indicators:
 
-      const analysis = response.choices[0].message.content || '';
-      const signal = this.parseSignal(analysis);
+${technicalAnalysisService.format(technicals)}
+
+Respond with a JSON object of this shape:
+{
+  "signal": "buy" | "sell" | "hold",
+  "entry": number | null,
+  "stopLoss": number | null,
+  "targets": number[] (up to 3 take-profit prices),
+  "timeHorizon": string (e.g. "1-3 days"),
+  "confidence": number between 0 and 1,
+  "reasons": string[] (1 to 6 short reasons referencing the indicators)
+}
+For "buy" the stopLoss must be below entry and targets above it; for "sell" the reverse.
+For "hold" use null entry and stopLoss and an empty targets list.`;
+
+      const signal = await llmService.completeJson('signal', TradingSignalSchema, [
+        {
+          role: 'system',
+          content: 'You are an AI trading analyst specializing in cryptocurrency technical analysis. Reply with JSON only.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ], { temperature: 0.2, maxTokens: 600, userId });
+
+      await this.recordSignalOnce(signal, technicals, cacheKey, userId);
 
       // Cache the result
       await redisService.setCacheWithExpiry(
@@ -206,60 +196,32 @@ Provide a clear signal (buy/sell/hold) with detailed reasoning and confidence le
     }
   }
 
-  private calculateConfidence(analysis: string): number {
-    // Simple confidence calculation based on keyword presence
-    const confidenceKeywords = [
-      'certainly',
-      'definitely',
-      'clearly',
-      'strong',
-      'significant',
-    ];
-    const uncertaintyKeywords = [
-      'possibly',
-      'might',
-      'could',
-      'uncertain',
-      'unclear',
-    ];
-
-    const confidenceCount = confidenceKeywords.filter((word) =>
-      analysis.toLowerCase().includes(word)
-    ).length;
-    const uncertaintyCount = uncertaintyKeywords.filter((word) =>
-      analysis.toLowerCase().includes(word)
-    ).length;
-
-    // Calculate confidence score (0.3 to 0.9 range)
-    return Math.min(
-      0.9,
-      Math.max(0.3, 0.6 + (confidenceCount * 0.1 - uncertaintyCount * 0.1))
-    );
-  }
-
-  private parseSignal(analysis: string): {
-    signal: 'buy' | 'sell' | 'hold';
-    reasoning: string;
-    confidence: number;
-  } {
-    const lowerAnalysis = analysis.toLowerCase();
-    let signal: 'buy' | 'sell' | 'hold' = 'hold';
-
-    if (lowerAnalysis.includes('buy signal') || lowerAnalysis.includes('bullish')) {
-      signal = 'buy';
-    } else if (
-      lowerAnalysis.includes('sell signal') ||
-      lowerAnalysis.includes('bearish')
-    ) {
-      signal = 'sell';
+  // Facts are pre-computed bullet lines; the model only condenses them, so numbers stay exact
+  async generateDigestSummary(
+    slot: 'morning' | 'evening',
+    facts: string[],
+    userId?: number
+  ): Promise<string> {
+    try {
+      const response = await llmService.complete('digest', [
+        {
+          role: 'system',
+          content:
+            'You write short, neutral crypto market digests. Use only the facts given, ' +
+            'never invent numbers, and do not give financial advice.',
+        },
+        {
+          role: 'user',
+          content: `Summarize this ${slot} digest in at most three sentences:\n${facts.map((fact) => `- ${fact}`).join('\n')}`,
+        },
+      ], { temperature: 0.4, maxTokens: 200, userId });
+
+      return response.content.trim();
+    } catch (error) {
+      logError(error as Error, 'AIService.generateDigestSummary');
+      throw error;
     }
-
-    return {
-      signal,
-      reasoning: analysis,
-      confidence: this.calculateConfidence(analysis),
-    };
   }
 }
 
-export const aiService = new AIService(); 
\ No newline at end of file
+export const aiService = new AIService();
@@ -0,0 +1,186 @@
+import { randomUUID } from 'crypto';
+import { cryptoService } from './crypto.service';
+import { redisService } from './redis.service';
+import { webhookService } from './webhook.service';
+import { log, logError } from '../utils/logger';
+import { evaluateRule, describeRule, MAX_RULE_WINDOW_MINUTES } from '../utils/alert-rules';
+import { AlertRule, PriceAlert, FiredAlert, PricePoint } from '../types/alert';
+import { PriceData } from '../types/market';
+
+type AlertNotifier = (alert: FiredAlert) => Promise<void>;
+
+class AlertService {
+  private notifiers: AlertNotifier[] = [];
+  private priceHistory: Map<string, PricePoint[]> = new Map();
+
+  async start(): Promise<void> {
+    try {
+      // Resume monitoring for every symbol that still has an active alert
+      const symbols = await redisService.getAlertedSymbols();
+      cryptoService.addPriceListener((symbol, data) => this.checkAlerts(symbol, data));
+      await cryptoService.startPriceMonitoring(symbols);
+      log.info(`Alert engine started for ${symbols.length} symbol(s)`);
+    } catch (error) {
+      logError(error as Error, 'AlertService.start');
+      throw error;
+    }
+  }
+
+  onAlertFired(notifier: AlertNotifier): void {
+    this.notifiers.push(notifier);
+  }
+
+  async createAlert(userId: number, symbol: string, rule: AlertRule): Promise<PriceAlert> {
+    const alert: PriceAlert = {
+      id: randomUUID().slice(0, 8),
+      userId,
+      symbol,
+      rule,
+      status: 'active',
+      createdAt: Date.now(),
+    };
+    await redisService.setPriceAlert(alert);
+    cryptoService.addMonitoredSymbol(symbol);
+    log.debug(`Created alert ${alert.id} for user ${userId}: ${symbol} ${describeRule(rule)}`);
+    return alert;
+  }
+
+  async listAlerts(userId: number): Promise<PriceAlert[]> {
+    return redisService.getPriceAlerts(userId);
+  }
+
+  async getAlert(userId: number, alertId: string): Promise<PriceAlert | null> {
+    return redisService.getPriceAlert(userId, alertId);
+  }
+
+  async deleteAlert(userId: number, alertId: string): Promise<void> {
+    await redisService.removePriceAlert(userId, alertId);
+  }
+
+  async clearAlerts(userId: number): Promise<void> {
+    await redisService.clearUserAlerts(userId);
+  }
+
+  async togglePause(userId: number, alertId: string): Promise<PriceAlert | null> {
+    return this.updateAlert(userId, alertId, (alert) => ({
+      ...alert,
+      status: alert.status === 'paused' ? 'active' : 'paused',
+    }));
+  }
+
+  async snoozeAlert(userId: number, alertId: string, durationMs: number): Promise<PriceAlert | null> {
+    return this.updateAlert(userId, alertId, (alert) => ({
+      ...alert,
+      snoozedUntil: Date.now() + durationMs,
+    }));
+  }
+
+  // Editing keeps the id and schedule but replaces the rule, resetting any trailing state
+  async updateRule(userId: number, alertId: string, rule: AlertRule): Promise<PriceAlert | null> {
+    return this.updateAlert(userId, alertId, (alert) => ({ ...alert, rule }));
+  }
+
+  private async updateAlert(
+    userId: number,
+    alertId: string,
+    update: (alert: PriceAlert) => PriceAlert
+  ): Promise<PriceAlert | null> {
+    const alert = await redisService.getPriceAlert(userId, alertId);
+    if (!alert) {
+      return null;
+    }
+    const updated = update(alert);
+    await redisService.setPriceAlert(updated);
+    return updated;
+  }
+
+  isSuspended(alert: PriceAlert, now: number = Date.now()): boolean {
+    return alert.status === 'paused' || (alert.snoozedUntil !== undefined && alert.snoozedUntil > now);
+  }
+
+  async getFiredAlerts(
+    userId: number,
+    page: number = 0,
+    pageSize: number = 5
+  ): Promise<{ alerts: FiredAlert[]; total: number }> {
+    const [alerts, total] = await Promise.all([
+      redisService.getFiredAlerts(userId, page * pageSize, pageSize),
+      redisService.getFiredAlertCount(userId),
+    ]);
+    return { alerts, total };
+  }
+
+  private recordPrice(symbol: string, price: number, now: number): PricePoint[] {
+    const cutoff = now - MAX_RULE_WINDOW_MINUTES * 60 * 1000;
+    const history = (this.priceHistory.get(symbol) || []).filter((point) => point.timestamp >= cutoff);
+    history.push({ timestamp: now, price });
+    this.priceHistory.set(symbol, history);
+    return history;
+  }
+
+  private async checkAlerts(symbol: string, data: PriceData): Promise<void> {
+    try {
+      const now = Date.now();
+      const history = this.recordPrice(symbol, data.price, now);
+      const alerts = await redisService.getAlertsForSymbol(symbol);
+
+      for (const alert of alerts) {
+        if (this.isSuspended(alert, now)) {
+          continue;
+        }
+
+        const result = evaluateRule(alert.rule, {
+          price: data.price,
+          volume24h: data.volume24h,
+          history,
+          now,
+          since: alert.createdAt,
+        });
+
+        if (result.triggered) {
+          await this.fireAlert(alert, data.price, result.message || describeRule(alert.rule));
+        } else if (result.rule !== alert.rule) {
+          // Stateful rules (trailing) moved their reference point. The alert is re-read first: if it was
+          // deleted, paused, snoozed or edited from /alerts during this check, that change wins.
+          const current = await redisService.getPriceAlert(alert.userId, alert.id);
+          if (current && JSON.stringify(current) === JSON.stringify(alert)) {
+            await redisService.setPriceAlert({ ...current, rule: result.rule });
+          }
+        }
+      }
+    } catch (error) {
+      logError(error as Error, 'AlertService.checkAlerts');
+    }
+  }
+
+  private async fireAlert(alert: PriceAlert, price: number, message: string): Promise<void> {
+    // Remove first so a slow delivery can't fire the same alert twice
+    await redisService.removePriceAlert(alert.userId, alert.id);
+
+    const fired: FiredAlert = {
+      alertId: alert.id,
+      userId: alert.userId,
+      symbol: alert.symbol,
+      rule: alert.rule,
+      triggeredPrice: price,
+      message,
+      firedAt: Date.now(),
+    };
+    await redisService.addFiredAlert(alert.userId, fired);
+
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier(fired);
+      } catch (error) {
+        logError(error as Error, 'AlertService.notify');
+      }
+    }
+
+    // Not awaited: webhook retries can take ~20s and would hold up the price loop
+    webhookService
+      .sendPriceAlert(alert.userId, alert.symbol, price, alert.rule, message)
+      .catch((error) => logError(error as Error, 'AlertService.webhook'));
+  }
+}
+
+export const alertService = new AlertService();
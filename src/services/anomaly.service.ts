@@ -0,0 +1,144 @@
+import { config } from '../config/config';
+import { aiService } from './ai.service';
+import { cryptoService } from './crypto.service';
+import { redisService } from './redis.service';
+import { symbolService } from './symbol.service';
+import { webhookService } from './webhook.service';
+import { log, logError } from '../utils/logger';
+import { DEFAULT_ANOMALY_THRESHOLDS, detectAnomalies } from '../utils/anomaly';
+import { intervalToMs } from '../utils/intervals';
+import { AnomalyDetection } from '../types/anomaly';
+
+type AnomalyNotifier = (userId: number, detection: AnomalyDetection, explanation: string | null) => Promise<void>;
+
+class AnomalyService {
+  private notifiers: AnomalyNotifier[] = [];
+  // Open time of the last closed candle scored per coin, so the 30s price loop scores each candle once
+  private lastScored: Map<string, number> = new Map();
+  private scanning: Set<string> = new Set();
+
+  async start(): Promise<void> {
+    try {
+      const symbols = await redisService.getAnomalySymbols();
+      symbols.forEach((symbol) => cryptoService.addMonitoredSymbol(symbol));
+      // Not awaited: a detection waits on the model and on webhooks, which would hold up the price loop
+      cryptoService.addPriceListener(async (symbol) => {
+        this.scan(symbol).catch((error) => logError(error as Error, 'AnomalyService.scan'));
+      });
+      log.info(`Anomaly detector started for ${symbols.length} symbol(s) on ${config.anomaly.interval} candles`);
+    } catch (error) {
+      logError(error as Error, 'AnomalyService.start');
+      throw error;
+    }
+  }
+
+  onAnomaly(notifier: AnomalyNotifier): void {
+    this.notifiers.push(notifier);
+  }
+
+  async subscribe(userId: number, coinId: string): Promise<void> {
+    await redisService.addAnomalySubscription(userId, coinId);
+    cryptoService.addMonitoredSymbol(coinId);
+  }
+
+  async unsubscribe(userId: number, coinId: string): Promise<void> {
+    await redisService.removeAnomalySubscription(userId, coinId);
+  }
+
+  async getSubscriptions(userId: number): Promise<string[]> {
+    return redisService.getUserAnomalySubscriptions(userId);
+  }
+
+  // Scores the newest closed candle against the lookback window. Coins nobody subscribed to are
+  // monitored for other reasons (alerts, paper orders) and skipped without fetching candles. Each
+  // candle gets one attempt: a coin no provider has candles for is retried on the next candle, not
+  // on every price tick.
+  async scan(coinId: string): Promise<AnomalyDetection[]> {
+    const intervalMs = intervalToMs(config.anomaly.interval);
+    const now = Date.now();
+    const lastClosed = Math.floor(now / intervalMs) * intervalMs - intervalMs;
+    if (this.lastScored.get(coinId) === lastClosed || this.scanning.has(coinId)) {
+      return [];
+    }
+
+    this.scanning.add(coinId);
+    this.lastScored.set(coinId, lastClosed);
+    try {
+      const subscribers = await redisService.getAnomalySubscribers(coinId);
+      if (subscribers.length === 0) {
+        return [];
+      }
+
+      // The feed includes the candle still forming; it never takes part in scoring
+      const candles = (await cryptoService.getKlines(coinId, config.anomaly.interval, config.anomaly.lookback + 1))
+        .filter((candle) => candle.openTime + intervalMs <= now);
+
+      const fired: AnomalyDetection[] = [];
+      for (const found of detectAnomalies(candles, {
+        ...DEFAULT_ANOMALY_THRESHOLDS,
+        zScore: config.anomaly.zScore,
+        gapPercent: config.anomaly.gapPercent,
+        volatilityRatio: config.anomaly.volatilityRatio,
+      })) {
+        const detection: AnomalyDetection = {
+          ...found,
+          coinId,
+          interval: config.anomaly.interval,
+          detectedAt: now,
+        };
+        if (await this.isCoolingDown(detection, intervalMs)) continue;
+
+        log.info(`Anomaly on ${coinId}: ${detection.type} (${detection.severity}) ${detection.description}`);
+        await this.deliver(detection, subscribers);
+        fired.push(detection);
+      }
+      return fired;
+    } catch (error) {
+      logError(error as Error, 'AnomalyService.scan');
+      return [];
+    } finally {
+      this.scanning.delete(coinId);
+    }
+  }
+
+  // A regime shift or a run of heavy candles would otherwise fire on every candle while it lasts
+  private async isCoolingDown(detection: AnomalyDetection, intervalMs: number): Promise<boolean> {
+    const key = `anomaly_last:${detection.coinId}:${detection.type}`;
+    const cooldownMs = config.anomaly.cooldownCandles * intervalMs;
+    const last = Number(await redisService.getCache(key));
+    if (last && detection.candleTime - last < cooldownMs) {
+      return true;
+    }
+
+    await redisService.setCacheWithExpiry(
+      key,
+      String(detection.candleTime),
+      Math.max(1, Math.ceil(cooldownMs / 1000))
+    );
+    return false;
+  }
+
+  // One explanation per detection, shared by every subscriber; the alert goes out without it if the model fails
+  private async deliver(detection: AnomalyDetection, subscribers: number[]): Promise<void> {
+    const symbol = ((await symbolService.getCoin(detection.coinId))?.symbol || detection.coinId).toUpperCase();
+    let explanation: string | null = null;
+    try {
+      explanation = await aiService.explainAnomaly(detection, symbol);
+    } catch (error) {
+      log.debug(`Anomaly explanation skipped for ${detection.coinId}: ${(error as Error).message}`);
+    }
+
+    for (const userId of subscribers) {
+      await webhookService.sendAnomalyAlert(userId, symbol, { ...detection, explanation });
+      for (const notifier of this.notifiers) {
+        try {
+          await notifier(userId, detection, explanation);
+        } catch (error) {
+          logError(error as Error, 'AnomalyService.notify');
+        }
+      }
+    }
+  }
+}
+
+export const anomalyService = new AnomalyService();
@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import { access } from 'fs/promises';
+import { config } from '../config/config';
+import { cryptoService } from './crypto.service';
+import { redisService } from './redis.service';
+import { log, logError } from '../utils/logger';
+import {
+  BacktestOptions,
+  BacktestResult,
+  BacktestStrategy,
+  DEFAULT_BACKTEST_OPTIONS,
+  parseStrategy,
+  runBacktest,
+  strategyToArgs,
+} from '../utils/backtest';
+import { getFixturePath, loadCandleFixture } from '../utils/candle-fixtures';
+import { intervalToMs, KlineInterval } from '../utils/intervals';
+import { Candle } from '../types/market';
+
+class BacktestService {
+  private readonly MAX_CANDLES = 1000;
+  private readonly STRATEGY_TTL = 7 * 24 * 60 * 60;
+
+  async run(
+    coinId: string,
+    interval: KlineInterval,
+    strategy: BacktestStrategy,
+    options: Partial<Omit<BacktestOptions, 'intervalMs'>> & { candles?: number } = {}
+  ): Promise<BacktestResult & { source: 'fixture' | 'live' }> {
+    try {
+      const limit = Math.min(this.MAX_CANDLES, options.candles ?? this.MAX_CANDLES);
+      const { candles, source } = await this.loadCandles(coinId, interval, limit);
+
+      const result = runBacktest(candles, strategy, {
+        initialCapital: options.initialCapital ?? DEFAULT_BACKTEST_OPTIONS.initialCapital,
+        feeRate: options.feeRate ?? config.backtest.feeRate,
+        slippage: options.slippage ?? config.backtest.slippage,
+        intervalMs: intervalToMs(interval),
+      });
+      log.debug(`Backtested ${strategy.type} on ${coinId} ${interval} over ${candles.length} ${source} candles`);
+      return { ...result, source };
+    } catch (error) {
+      logError(error as Error, 'BacktestService.run');
+      throw error;
+    }
+  }
+
+  // Strategy parameters are free-form numbers, too long for Telegram's 64-byte callback data, so
+  // buttons carry a short key instead. The key is a hash of the parameters, so re-runs reuse it.
+  async saveStrategy(strategy: BacktestStrategy): Promise<string> {
+    const args = strategyToArgs(strategy).join(':');
+    const key = createHash('sha1').update(args).digest('hex').slice(0, 8);
+    await redisService.setCacheWithExpiry(`backtest_strategy:${key}`, args, this.STRATEGY_TTL);
+    return key;
+  }
+
+  async loadStrategy(key: string): Promise<BacktestStrategy | null> {
+    const args = await redisService.getCache(`backtest_strategy:${key}`);
+    return args ? parseStrategy(args.split(':')) : null;
+  }
+
+  // Local fixtures win when present so runs are reproducible; otherwise the cached kline history is used
+  private async loadCandles(
+    coinId: string,
+    interval: KlineInterval,
+    limit: number
+  ): Promise<{ candles: Candle[]; source: 'fixture' | 'live' }> {
+    if (config.backtest.fixturesDir) {
+      const path = getFixturePath(config.backtest.fixturesDir, coinId, interval);
+      const exists = await access(path).then(() => true, () => false);
+      if (exists) {
+        return { candles: (await loadCandleFixture(path)).slice(-limit), source: 'fixture' };
+      }
+    }
+    return { candles: await cryptoService.getKlines(coinId, interval, limit), source: 'live' };
+  }
+}
+
+export const backtestService = new BacktestService();
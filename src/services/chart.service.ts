@@ -0,0 +1,68 @@
+import { cryptoService } from './crypto.service';
+import { portfolioService } from './portfolio.service';
+import { logError } from '../utils/logger';
+import { renderAllocationChart, renderPriceChart, ChartOverlay, ChartType } from '../utils/charts';
+import { KlineInterval } from '../utils/intervals';
+import { Candle } from '../types/market';
+
+class ChartService {
+  // Extra history so the 50-period overlays start at the left edge of the chart
+  private readonly WARMUP_CANDLES = 50;
+
+  async renderPriceChart(
+    coinId: string,
+    title: string,
+    interval: KlineInterval,
+    options: { type?: ChartType; overlays?: ChartOverlay[]; volume?: boolean; candles?: number } = {}
+  ): Promise<Buffer> {
+    try {
+      const visible = options.candles ?? 60;
+      const candles = await cryptoService.getKlines(coinId, interval, visible + this.WARMUP_CANDLES);
+      return renderPriceChart(candles, {
+        title: `${title} ${interval}`,
+        type: options.type ?? 'candle',
+        overlays: options.overlays ?? ['sma'],
+        volume: options.volume ?? true,
+        visible,
+      });
+    } catch (error) {
+      logError(error as Error, 'ChartService.renderPriceChart');
+      throw error;
+    }
+  }
+
+  // Equity points become flat line-chart candles so backtests reuse the price chart renderer
+  renderEquityCurve(title: string, curve: Array<{ time: number; equity: number }>): Buffer {
+    try {
+      const candles: Candle[] = curve.map((point) => ({
+        openTime: point.time,
+        open: point.equity,
+        high: point.equity,
+        low: point.equity,
+        close: point.equity,
+        volume: 0,
+      }));
+      return renderPriceChart(candles, { title, type: 'line', overlays: [], volume: false });
+    } catch (error) {
+      logError(error as Error, 'ChartService.renderEquityCurve');
+      throw error;
+    }
+  }
+
+  async renderPortfolioAllocation(userId: number): Promise<Buffer> {
+    try {
+      const valuations = await portfolioService.getValuation(userId);
+      return renderAllocationChart(
+        'PORTFOLIO ALLOCATION',
+        valuations
+          .filter((holding) => holding.value !== null && holding.value > 0)
+          .map((holding) => ({ label: holding.symbol, value: holding.value as number }))
+      );
+    } catch (error) {
+      logError(error as Error, 'ChartService.renderPortfolioAllocation');
+      throw error;
+    }
+  }
+}
+
+export const chartService = new ChartService();
@@ -1,52 +1,145 @@
 import axios from 'axios';
+import { config } from '../config/config';
 import { redisService } from './redis.service';
 import { log, logError } from '../utils/logger';
-
-interface PriceData {
-  price: number;
-  change24h: number;
-  volume24h: number;
-  marketCap: number;
-}
-
-interface PriceAlert {
-  condition: 'above' | 'below';
-  price: number;
-  userId: number;
-}
-
-interface CoinGeckoPrice {
-  usd: number;
-  usd_24h_change: number;
-  usd_24h_vol: number;
-  usd_market_cap: number;
-}
-
-interface MarketChartPoint {
-  timestamp: number;
-  price: number;
-}
+import { MarketDataProvider, MarketDataProviderError, toProviderError } from '../providers/market-data.provider';
+import { CoinGeckoProvider } from '../providers/coingecko.provider';
+import { BinanceProvider } from '../providers/binance.provider';
+import { Candle, MarketCapBucket, MarketMover, MoversTab, OrderBookTop, PriceData, Ticker24h } from '../types/market';
+import { KlineInterval, intervalToMs, isKlineInterval } from '../utils/intervals';
+import { mergeCandles } from '../utils/candles';
+import { rankMovers } from '../utils/movers';
 
 interface CoinMarketData {
   id: string;
   symbol: string;
   name: string;
-  current_price: number;
-  price_change_percentage_24h: number;
+  current_price: number | null;
+  price_change_percentage_24h: number | null;
+  total_volume: number | null;
+  market_cap: number | null;
+  market_cap_rank: number | null;
+}
+
+interface TrendingResponse {
+  coins: Array<{
+    item: {
+      id: string;
+      symbol: string;
+      name: string;
+      market_cap_rank: number | null;
+      data?: { price?: number; price_change_percentage_24h?: { usd?: number } };
+    };
+  }>;
 }
 
 type PriceUpdateCallback = (symbol: string, price: number) => void;
+type PriceListener = (symbol: string, data: PriceData) => Promise<void>;
+
+const PROVIDER_FACTORIES: Record<string, () => MarketDataProvider> = {
+  coingecko: () => new CoinGeckoProvider(),
+  binance: () => new BinanceProvider(),
+};
 
 class CryptoService {
-  private readonly API_BASE_URL = 'https://api.coingecko.com/api/v3';
+  private readonly DEFAULT_COOLDOWN = 60 * 1000; // Rate-limited providers sit out a minute unless told otherwise
+  private readonly CROSS_CHECK_INTERVAL = 5 * 60 * 1000;
+  private readonly MAX_CACHED_CANDLES = 1000;
+  private readonly MARKETS_TTL = 2 * 60 * 1000;
+  private readonly TRENDING_TTL = 5 * 60 * 1000;
+  private providers: MarketDataProvider[];
+  private providerCooldowns: Map<string, number>;
+  private lastCrossCheck: number;
   private priceUpdateCallbacks: Map<string, PriceUpdateCallback[]>;
+  private priceListeners: PriceListener[];
   private monitoredSymbols: Set<string>;
   private updateInterval: NodeJS.Timeout | null;
+  private updating: boolean;
 
   constructor() {
+    this.providers = config.marketData.providers
+      .filter((name) => {
+        if (!PROVIDER_FACTORIES[name]) {
+          log.warn(`Unknown market data provider "${name}" ignored`);
+          return false;
+        }
+        return true;
+      })
+      .map((name) => PROVIDER_FACTORIES[name]());
+    if (this.providers.length === 0) {
+      this.providers = [new CoinGeckoProvider()];
+    }
+    this.providerCooldowns = new Map();
+    this.lastCrossCheck = 0;
     this.priceUpdateCallbacks = new Map();
+    this.priceListeners = [];
     this.monitoredSymbols = new Set();
     this.updateInterval = null;
+    this.updating = false;
+  }
+
+  // Tries providers in priority order, skipping ones cooling down after a rate limit
+  private async withFailover<T>(
+    operation: string,
+    call: (provider: MarketDataProvider) => Promise<T>
+  ): Promise<{ result: T; provider: MarketDataProvider }> {
+    const now = Date.now();
+    const available = this.providers.filter((p) => (this.providerCooldowns.get(p.name) || 0) <= now);
+    let lastError: MarketDataProviderError | null = null;
+
+    for (const provider of available.length > 0 ? available : this.providers) {
+      try {
+        return { result: await call(provider), provider };
+      } catch (error) {
+        lastError = toProviderError(provider.name, error);
+        if (lastError.reason === 'rate_limited') {
+          this.providerCooldowns.set(provider.name, Date.now() + (lastError.retryAfterMs ?? this.DEFAULT_COOLDOWN));
+        }
+        log.warn(`${operation} failed on ${provider.name} (${lastError.reason}), trying next provider`);
+      }
+    }
+
+    throw lastError || new Error(`${operation}: no market data provider available`);
+  }
+
+  // Compares a fresh quote against the next provider and flags prices that disagree
+  private async crossCheck(
+    prices: Record<string, PriceData>,
+    source: MarketDataProvider
+  ): Promise<void> {
+    const now = Date.now();
+    const reference = this.providers.find(
+      (p) => p !== source && (this.providerCooldowns.get(p.name) || 0) <= now
+    );
+    if (!reference || now - this.lastCrossCheck < this.CROSS_CHECK_INTERVAL) {
+      return;
+    }
+    this.lastCrossCheck = now;
+
+    try {
+      const referencePrices = await reference.getPrices(Object.keys(prices));
+      for (const [id, data] of Object.entries(prices)) {
+        const referencePrice = referencePrices[id]?.price;
+        if (!referencePrice) continue;
+
+        const percent = Math.abs(data.price - referencePrice) / referencePrice;
+        if (percent > config.marketData.divergenceThreshold) {
+          data.divergence = {
+            provider: source.name,
+            referenceProvider: reference.name,
+            price: data.price,
+            referencePrice,
+            percent: percent * 100,
+          };
+          log.warn(
+            `Price divergence for ${id}: ${source.name} $${data.price} vs ` +
+            `${reference.name} $${referencePrice} (${(percent * 100).toFixed(2)}%)`
+          );
+        }
+      }
+    } catch (error) {
+      logError(error as Error, 'CryptoService.crossCheck');
+    }
   }
 
   async startPriceMonitoring(symbols: string[] = ['polkadot']) {
@@ -59,8 +152,11 @@ class CryptoService {
         clearInterval(this.updateInterval);
       }
 
-      // Update prices every 30 seconds
+      // Update prices every 30 seconds. A tick still running when the next one is due makes that one
+      // skip, so listeners never see the same prices twice at once.
       this.updateInterval = setInterval(async () => {
+        if (this.updating || this.monitoredSymbols.size === 0) return;
+        this.updating = true;
         try {
           const prices = await this.getPrices(Array.from(this.monitoredSymbols));
           for (const [symbol, data] of Object.entries(prices)) {
@@ -68,6 +164,8 @@ class CryptoService {
           }
         } catch (error) {
           logError(error as Error, 'CryptoService.updatePrices');
+        } finally {
+          this.updating = false;
         }
       }, 30000);
 
@@ -86,23 +184,11 @@ class CryptoService {
         300
       );
 
-      const alerts = await redisService.getPriceAlerts(symbol);
-      for (const alert of alerts) {
-        // Convert legacy alert format to new format
-        const typedAlert: PriceAlert = {
-          condition: alert.isAbove ? 'above' : 'below',
-          price: alert.targetPrice,
-          userId: alert.userId
-        };
-
-        if (
-          (typedAlert.condition === 'above' && data.price >= typedAlert.price) ||
-          (typedAlert.condition === 'below' && data.price <= typedAlert.price)
-        ) {
-          const callbacks = this.priceUpdateCallbacks.get(symbol) || [];
-          callbacks.forEach(callback => callback(symbol, data.price));
-          await redisService.removePriceAlert(typedAlert.userId, symbol, typedAlert.condition === 'above');
-        }
+      const callbacks = this.priceUpdateCallbacks.get(symbol) || [];
+      callbacks.forEach(callback => callback(symbol, data.price));
+
+      for (const listener of this.priceListeners) {
+        await listener(symbol, data);
       }
     } catch (error) {
       logError(error as Error, 'CryptoService.handlePriceUpdate');
@@ -111,27 +197,8 @@ class CryptoService {
 
   async getPrices(symbols: string[]): Promise<Record<string, PriceData>> {
     try {
-      const ids = symbols.join(',');
-      const response = await axios.get<Record<string, CoinGeckoPrice>>(`${this.API_BASE_URL}/simple/price`, {
-        params: {
-          ids,
-          vs_currency: 'usd',
-          include_24hr_vol: true,
-          include_24hr_change: true,
-          include_market_cap: true,
-        },
-      });
-
-      const result: Record<string, PriceData> = {};
-      for (const [id, data] of Object.entries(response.data)) {
-        result[id] = {
-          price: data.usd,
-          change24h: data.usd_24h_change,
-          volume24h: data.usd_24h_vol,
-          marketCap: data.usd_market_cap,
-        };
-      }
-
+      const { result, provider } = await this.withFailover('getPrices', (p) => p.getPrices(symbols));
+      await this.crossCheck(result, provider);
       return result;
     } catch (error) {
       logError(error as Error, 'CryptoService.getPrices');
@@ -166,26 +233,65 @@ class CryptoService {
     }
   }
 
-  async getKlines(symbol: string, interval: string = '1d', limit: number = 30): Promise<MarketChartPoint[]> {
+  async get24hStats(symbol: string): Promise<Ticker24h> {
     try {
-      const response = await axios.get<{ prices: [number, number][] }>(`${this.API_BASE_URL}/coins/${symbol}/market_chart`, {
-        params: {
-          vs_currency: 'usd',
-          days: limit,
-          interval,
-        },
-      });
+      const { result } = await this.withFailover('get24hStats', (p) => p.get24hStats(symbol));
+      return result;
+    } catch (error) {
+      logError(error as Error, 'CryptoService.get24hStats');
+      throw error;
+    }
+  }
 
-      return response.data.prices.map(([timestamp, price]) => ({
-        timestamp,
-        price,
-      }));
+  // Serves candles from the Redis cache and only fetches what's missing: the whole window on a
+  // cold or too-short cache, otherwise just the candles since the newest cached one.
+  async getKlines(symbol: string, interval: KlineInterval = '1d', limit: number = 30): Promise<Candle[]> {
+    try {
+      if (!isKlineInterval(interval)) {
+        throw new Error(`Unsupported interval ${interval}`);
+      }
+
+      const intervalMs = intervalToMs(interval);
+      const now = Date.now();
+      const windowStart = Math.floor((now - intervalMs * (limit - 1)) / intervalMs) * intervalMs;
+      let cached = await redisService.getCachedCandles(symbol, interval);
+      const newest = cached.length > 0 ? cached[cached.length - 1].openTime : 0;
+      const missing = Math.ceil((now - newest) / intervalMs) + 1;
+
+      let fetched: Candle[];
+      if (cached.length > 0 && cached[0].openTime <= windowStart && missing <= limit) {
+        // Refetch from the newest cached candle, which may still have been forming
+        const { result } = await this.withFailover('getKlines', (p) =>
+          p.getKlines(symbol, interval, missing, newest)
+        );
+        fetched = result;
+      } else {
+        // A stale cache would leave a hole between old and new candles, so start over
+        if (missing > limit) cached = [];
+        const { result } = await this.withFailover('getKlines', (p) => p.getKlines(symbol, interval, limit));
+        fetched = result;
+      }
+
+      const candles = mergeCandles(cached, fetched).slice(-this.MAX_CACHED_CANDLES);
+      await redisService.setCachedCandles(symbol, interval, candles);
+
+      return candles.slice(-limit);
     } catch (error) {
       logError(error as Error, 'CryptoService.getKlines');
       throw error;
     }
   }
 
+  async getOrderBookTop(symbol: string): Promise<OrderBookTop> {
+    try {
+      const { result } = await this.withFailover('getOrderBookTop', (p) => p.getOrderBookTop(symbol));
+      return result;
+    } catch (error) {
+      logError(error as Error, 'CryptoService.getOrderBookTop');
+      throw error;
+    }
+  }
+
   async getTopGainers(limit: number = 10): Promise<Array<{
     symbol: string;
     name: string;
@@ -193,26 +299,102 @@ class CryptoService {
     change24h: number;
   }>> {
     try {
-      const response = await axios.get<CoinMarketData[]>(`${this.API_BASE_URL}/coins/markets`, {
+      const movers = await this.getMovers('gainers', 'all');
+      return movers.slice(0, limit).map((mover) => ({
+        symbol: mover.id,
+        name: mover.name,
+        price: mover.price,
+        change24h: mover.change24h,
+      }));
+    } catch (error) {
+      logError(error as Error, 'CryptoService.getTopGainers');
+      throw error;
+    }
+  }
+
+  // Full ranked list for a tab; callers paginate
+  async getMovers(tab: MoversTab, bucket: MarketCapBucket): Promise<MarketMover[]> {
+    try {
+      const movers = tab === 'trending' ? await this.getTrending() : await this.getMarkets();
+      return rankMovers(movers, tab, bucket);
+    } catch (error) {
+      logError(error as Error, 'CryptoService.getMovers');
+      throw error;
+    }
+  }
+
+  // The top 250 coins by market cap. Market-wide rankings only exist on CoinGecko, so the
+  // provider failover doesn't apply here
+  private async getMarkets(): Promise<MarketMover[]> {
+    return this.withMarketCache('markets:top', this.MARKETS_TTL, async () => {
+      const response = await axios.get<CoinMarketData[]>(`${config.marketData.coingeckoUrl}/coins/markets`, {
         params: {
           vs_currency: 'usd',
-          order: 'price_change_percentage_24h_desc',
-          per_page: limit,
+          order: 'market_cap_desc',
+          per_page: 250,
           page: 1,
           sparkline: false,
         },
       });
 
-      return response.data.map((coin) => ({
-        symbol: coin.id,
-        name: coin.name,
-        price: coin.current_price,
-        change24h: coin.price_change_percentage_24h,
-      }));
-    } catch (error) {
-      logError(error as Error, 'CryptoService.getTopGainers');
-      throw error;
+      return response.data
+        .filter((coin) => coin.current_price !== null && coin.price_change_percentage_24h !== null)
+        .map((coin) => ({
+          id: coin.id,
+          symbol: coin.symbol,
+          name: coin.name,
+          price: coin.current_price as number,
+          change24h: coin.price_change_percentage_24h as number,
+          volume24h: coin.total_volume ?? 0,
+          marketCap: coin.market_cap || null,
+          marketCapRank: coin.market_cap_rank,
+        }));
+    });
+  }
+
+  // CoinGecko's search trending list, in its order, with market data from the markets page where known
+  private async getTrending(): Promise<MarketMover[]> {
+    return this.withMarketCache('markets:trending', this.TRENDING_TTL, async () => {
+      const [response, markets] = await Promise.all([
+        axios.get<TrendingResponse>(`${config.marketData.coingeckoUrl}/search/trending`),
+        this.getMarkets().catch(() => [] as MarketMover[]),
+      ]);
+      const byId = new Map(markets.map((mover) => [mover.id, mover]));
+
+      return response.data.coins.map(({ item }) => byId.get(item.id) ?? {
+        id: item.id,
+        symbol: item.symbol,
+        name: item.name,
+        price: item.data?.price ?? 0,
+        change24h: item.data?.price_change_percentage_24h?.usd ?? 0,
+        volume24h: 0,
+        marketCap: null,
+        marketCapRank: item.market_cap_rank,
+      });
+    });
+  }
+
+  // Entries carry their own timestamp, since the in-memory cache fallback never expires keys
+  private async withMarketCache(
+    key: string,
+    ttlMs: number,
+    load: () => Promise<MarketMover[]>
+  ): Promise<MarketMover[]> {
+    const cached = await redisService.getCache(key);
+    if (cached) {
+      const { fetchedAt, movers } = JSON.parse(cached) as { fetchedAt: number; movers: MarketMover[] };
+      if (Date.now() - fetchedAt < ttlMs) {
+        return movers;
+      }
     }
+
+    const movers = await load();
+    await redisService.setCacheWithExpiry(
+      key,
+      JSON.stringify({ fetchedAt: Date.now(), movers }),
+      Math.ceil(ttlMs / 1000)
+    );
+    return movers;
   }
 
   onPriceUpdate(symbol: string, callback: PriceUpdateCallback): void {
@@ -232,6 +414,15 @@ class CryptoService {
     }
   }
 
+  // Listeners receive every update of every monitored symbol
+  addPriceListener(listener: PriceListener): void {
+    this.priceListeners.push(listener);
+  }
+
+  addMonitoredSymbol(symbol: string): void {
+    this.monitoredSymbols.add(symbol);
+  }
+
   stopMonitoring(): void {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
@@ -239,6 +430,7 @@ class CryptoService {
     }
     this.monitoredSymbols.clear();
     this.priceUpdateCallbacks.clear();
+    this.priceListeners = [];
     log.info('Price monitoring service stopped');
   }
 }
@@ -0,0 +1,224 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { aiService } from './ai.service';
+import { alertService } from './alert.service';
+import { cryptoService } from './crypto.service';
+import { portfolioService } from './portfolio.service';
+import { redisService } from './redis.service';
+import { symbolService } from './symbol.service';
+import { log, logError } from '../utils/logger';
+import { formatLocalTime, getLocalHour, toDailyCron } from '../utils/schedule';
+import { DigestSlot, DigestSubscription } from '../types/digest';
+
+type DigestNotifier = (userId: number, message: string) => Promise<void>;
+
+export const DIGEST_SLOTS: DigestSlot[] = ['morning', 'evening'];
+
+class DigestService {
+  private readonly DEFAULT_TIMES: Record<DigestSlot, string> = { morning: '08:00', evening: '20:00' };
+  private readonly DEFAULT_TIMEZONE = 'UTC';
+  private readonly MOVER_COUNT = 5;
+  private tasks: Map<string, ScheduledTask> = new Map();
+  private notifiers: DigestNotifier[] = [];
+
+  // Schedules live in Redis; the cron tasks are rebuilt from them on every start
+  async start(): Promise<void> {
+    try {
+      const subscriptions = await redisService.getAllDigestSubscriptions();
+      subscriptions.forEach((subscription) => this.schedule(subscription));
+      log.info(`Digest scheduler started with ${this.tasks.size} active subscription(s)`);
+    } catch (error) {
+      logError(error as Error, 'DigestService.start');
+      throw error;
+    }
+  }
+
+  stop(): void {
+    this.tasks.forEach((task) => task.stop());
+    this.tasks.clear();
+  }
+
+  onDigest(notifier: DigestNotifier): void {
+    this.notifiers.push(notifier);
+  }
+
+  // Both slots, with unsaved disabled defaults for the ones the user never touched
+  async getSubscriptions(userId: number): Promise<DigestSubscription[]> {
+    const saved = await Promise.all(DIGEST_SLOTS.map((slot) => redisService.getDigestSubscription(userId, slot)));
+    const timezone = saved.find((subscription) => subscription)?.timezone ?? this.DEFAULT_TIMEZONE;
+    return DIGEST_SLOTS.map((slot, index) => saved[index] ?? {
+      userId,
+      slot,
+      time: this.DEFAULT_TIMES[slot],
+      timezone,
+      enabled: false,
+      createdAt: Date.now(),
+    });
+  }
+
+  async toggle(userId: number, slot: DigestSlot): Promise<DigestSubscription> {
+    return this.update(userId, slot, (subscription) => ({ ...subscription, enabled: !subscription.enabled }));
+  }
+
+  async setTime(userId: number, slot: DigestSlot, time: string): Promise<DigestSubscription> {
+    return this.update(userId, slot, (subscription) => ({ ...subscription, time, enabled: true }));
+  }
+
+  // The timezone belongs to the user, so it moves both slots
+  async setTimezone(userId: number, timezone: string): Promise<void> {
+    for (const slot of DIGEST_SLOTS) {
+      await this.update(userId, slot, (subscription) => ({ ...subscription, timezone }));
+    }
+  }
+
+  private async update(
+    userId: number,
+    slot: DigestSlot,
+    change: (subscription: DigestSubscription) => DigestSubscription
+  ): Promise<DigestSubscription> {
+    const current = (await this.getSubscriptions(userId)).find((subscription) => subscription.slot === slot)!;
+    const updated = change(current);
+    await redisService.setDigestSubscription(updated);
+    this.schedule(updated);
+    return updated;
+  }
+
+  private schedule(subscription: DigestSubscription): void {
+    const key = `${subscription.userId}:${subscription.slot}`;
+    this.tasks.get(key)?.stop();
+    this.tasks.delete(key);
+    if (!subscription.enabled) return;
+
+    this.tasks.set(
+      key,
+      cron.schedule(
+        toDailyCron(subscription.time),
+        () => {
+          this.sendDigest(subscription.userId, subscription.slot).catch((error) =>
+            logError(error as Error, 'DigestService.scheduled')
+          );
+        },
+        { timezone: subscription.timezone }
+      )
+    );
+  }
+
+  // Previews pass a slot of null: whichever fits the user's local time, and nothing is recorded
+  async sendDigest(userId: number, slot: DigestSlot | null): Promise<void> {
+    const subscriptions = await this.getSubscriptions(userId);
+    const preview = slot === null;
+    const resolvedSlot = slot ?? (getLocalHour(Date.now(), subscriptions[0].timezone) < 12 ? 'morning' : 'evening');
+    const subscription = subscriptions.find((s) => s.slot === resolvedSlot)!;
+    const { message, portfolioValue } = await this.buildDigest(subscription);
+
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier(userId, message);
+      } catch (error) {
+        logError(error as Error, 'DigestService.notify');
+      }
+    }
+
+    if (!preview) {
+      await redisService.setDigestSubscription({
+        ...subscription,
+        lastSentAt: Date.now(),
+        lastPortfolioValue: portfolioValue ?? subscription.lastPortfolioValue,
+      });
+    }
+  }
+
+  async buildDigest(subscription: DigestSubscription): Promise<{ message: string; portfolioValue: number | null }> {
+    const { userId, slot } = subscription;
+    const now = Date.now();
+    const since = subscription.lastSentAt ?? now - 24 * 60 * 60 * 1000;
+    const facts: string[] = [];
+    let message =
+      `${slot === 'morning' ? '🌅 Morning' : '🌆 Evening'} Digest · ` +
+      `${formatLocalTime(now, subscription.timezone)}\n\n`;
+
+    // Portfolio
+    const portfolio = await this.getPortfolioChange(userId);
+    if (portfolio) {
+      const { value, change24h } = portfolio;
+      message += `💼 Portfolio: $${value.toFixed(2)}`;
+      if (change24h !== null) {
+        message += ` (${this.formatPercent(change24h)} 24h)`;
+      }
+      if (subscription.lastPortfolioValue) {
+        const sinceLast = ((value - subscription.lastPortfolioValue) / subscription.lastPortfolioValue) * 100;
+        message += `\n   ${this.formatPercent(sinceLast)} since your last digest`;
+      }
+      message += '\n\n';
+      facts.push(`Portfolio value $${value.toFixed(2)}${change24h !== null ? `, ${this.formatPercent(change24h)} over 24h` : ''}`);
+    }
+
+    // Market movers
+    try {
+      const movers = await cryptoService.getTopGainers(this.MOVER_COUNT);
+      if (movers.length > 0) {
+        message += '🚀 Top Movers (24h):\n';
+        for (const mover of movers) {
+          message += `${mover.name}: $${mover.price.toFixed(4)} (${this.formatPercent(mover.change24h)})\n`;
+        }
+        message += '\n';
+        facts.push(`Top movers: ${movers.map((m) => `${m.name} ${this.formatPercent(m.change24h)}`).join(', ')}`);
+      }
+    } catch (error) {
+      logError(error as Error, 'DigestService.movers');
+    }
+
+    // Alerts fired since the previous digest
+    const { alerts } = await alertService.getFiredAlerts(userId, 0, 20);
+    const recent = alerts.filter((alert) => alert.firedAt > since);
+    if (recent.length > 0) {
+      message += `🔔 Alerts Fired (${recent.length}):\n`;
+      for (const alert of recent.slice(0, 5)) {
+        message += `${alert.symbol}: ${alert.message} @ $${alert.triggeredPrice.toFixed(4)}\n`;
+      }
+      message += '\n';
+      facts.push(`${recent.length} price alert(s) fired: ${recent.map((a) => a.symbol).join(', ')}`);
+    }
+
+    // The summary is a nice-to-have; quota or provider failures leave the digest without it
+    if (facts.length > 0) {
+      try {
+        message += `🤖 ${await aiService.generateDigestSummary(slot, facts, userId)}\n`;
+      } catch (error) {
+        log.debug(`Digest summary skipped for user ${userId}: ${(error as Error).message}`);
+      }
+    } else {
+      message += 'Nothing to report. Add holdings or alerts to make your digest more useful.\n';
+    }
+
+    return { message: message.trim(), portfolioValue: portfolio?.value ?? null };
+  }
+
+  // Current value plus the 24h change implied by each holding's own 24h price move
+  private async getPortfolioChange(userId: number): Promise<{ value: number; change24h: number | null } | null> {
+    const valuations = (await portfolioService.getValuation(userId)).filter(
+      (holding) => holding.quantity > 0 && holding.value !== null
+    );
+    if (valuations.length === 0) return null;
+
+    let value = 0;
+    let previous = 0;
+    let complete = true;
+    for (const holding of valuations) {
+      value += holding.value as number;
+      const priceData = await cryptoService.getPrice(await symbolService.toCoinId(holding.symbol));
+      if (priceData) {
+        previous += (holding.value as number) / (1 + priceData.change24h / 100);
+      } else {
+        complete = false;
+      }
+    }
+
+    return { value, change24h: complete && previous > 0 ? ((value - previous) / previous) * 100 : null };
+  }
+
+  private formatPercent(value: number): string {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+  }
+}
+
+export const digestService = new DigestService();
@@ -2,12 +2,22 @@ import axios from 'axios';
 import { config } from '../config/config';
 import { log, logError } from '../utils/logger';
 import { redisService } from './redis.service';
+import { parseWhaleRows } from '../utils/whales';
+import { WhaleTransaction } from '../types/whale';
 
 interface DuneExecutionResponse {
   execution_id: string;
   state: string;
 }
 
+interface DuneResultsResponse {
+  execution_id: string;
+  state: string;
+  result?: {
+    rows: Array<Record<string, unknown>>;
+  };
+}
+
 class DuneService {
   private readonly API_BASE_URL = 'https://api.dune.com/api/v1';
   private readonly CACHE_TTL = 3600; // 1 hour cache
@@ -77,12 +87,6 @@ class DuneService {
   }
 
   // Predefined queries for common Polkadot metrics
-  async getPolkadotStakingMetrics(): Promise<any> {
-    // Query ID for Polkadot staking metrics
-    const STAKING_QUERY_ID = 1234; // Replace with actual query ID
-    return this.executeQuery(STAKING_QUERY_ID);
-  }
-
   async getPolkadotTransferVolume(days: number = 7): Promise<any> {
     // Query ID for Polkadot transfer volume
     const VOLUME_QUERY_ID = 5678; // Replace with actual query ID
@@ -95,13 +99,31 @@ class DuneService {
     return this.executeQuery(PARACHAIN_QUERY_ID);
   }
 
+  // Rows from the query's most recent run. Nothing is executed, so a query scheduled on Dune can
+  // be polled often without spending execution credits.
+  async getLatestResults(queryId: number): Promise<Array<Record<string, unknown>>> {
+    try {
+      const response = await this.makeRequest<DuneResultsResponse>(`/query/${queryId}/results`);
+      return response.result?.rows || [];
+    } catch (error) {
+      logError(error as Error, 'DuneService.getLatestResults');
+      throw error;
+    }
+  }
+
+  // The whale query is expected to run on a schedule on Dune; thresholds and the window are applied here
   async getWhaleTransactions(
     minAmount: number = 10000,
     days: number = 1
-  ): Promise<any> {
-    // Query ID for whale transactions
-    const WHALE_QUERY_ID = 3456; // Replace with actual query ID
-    return this.executeQuery(WHALE_QUERY_ID, { minAmount, days });
+  ): Promise<WhaleTransaction[]> {
+    if (config.whales.queryId === undefined) {
+      throw new Error('DUNE_WHALE_QUERY_ID is not set');
+    }
+    const rows = await this.getLatestResults(config.whales.queryId);
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    return parseWhaleRows(rows, config.whales.defaultChain).filter(
+      (tx) => tx.amount >= minAmount && (tx.time === null || tx.time >= since)
+    );
   }
 
   async getDailyActiveAccounts(): Promise<any> {
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { config } from '../config/config';
+import { log, logError } from '../utils/logger';
+import { LLMCompletion, LLMMessage, LLMProvider, LLMTask } from '../providers/llm.provider';
+import { OpenAICompatibleProvider } from '../providers/openai.provider';
+import { MockLLMProvider } from '../providers/mock-llm.provider';
+import { usageService } from './usage.service';
+
+// Raised when the model keeps returning output that doesn't match the requested schema
+export class AIResponseError extends Error {
+  constructor(readonly task: string, readonly issues: string[]) {
+    super(`Invalid ${task} response from the model: ${issues.join('; ')}`);
+    this.name = 'AIResponseError';
+  }
+}
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider> = {
+  openai: () =>
+    new OpenAICompatibleProvider(
+      {
+        apiKey: config.llm.apiKey,
+        baseUrl: config.llm.baseUrl,
+        timeoutMs: config.llm.timeoutMs,
+        maxRetries: config.llm.maxRetries,
+      },
+      config.llm.jsonMode
+    ),
+  mock: () => new MockLLMProvider(),
+};
+
+class LLMService {
+  private readonly MAX_JSON_ATTEMPTS = 3;
+  private provider: LLMProvider = PROVIDER_FACTORIES[config.llm.provider]();
+
+  getModel(task: LLMTask): string {
+    return config.llm.models[task];
+  }
+
+  async complete(
+    task: LLMTask,
+    messages: LLMMessage[],
+    options: { temperature: number; maxTokens?: number; json?: boolean; userId?: number }
+  ): Promise<LLMCompletion> {
+    const { userId, ...requestOptions } = options;
+    if (userId !== undefined) {
+      await usageService.assertWithinQuota(userId);
+    }
+
+    const started = Date.now();
+    try {
+      const completion = await this.provider.complete({
+        task,
+        model: this.getModel(task),
+        messages,
+        ...requestOptions,
+      });
+      log.debug(
+        `LLM ${task} via ${this.provider.name}/${completion.model} took ${Date.now() - started}ms ` +
+          `(${completion.usage.promptTokens}+${completion.usage.completionTokens} tokens)`
+      );
+      await usageService.record({
+        userId,
+        feature: task,
+        model: completion.model,
+        promptTokens: completion.usage.promptTokens,
+        completionTokens: completion.usage.completionTokens,
+        cost: usageService.estimateCost(
+          completion.model,
+          completion.usage.promptTokens,
+          completion.usage.completionTokens
+        ),
+      });
+      return completion;
+    } catch (error) {
+      logError(error as Error, `LLMService.complete(${task})`);
+      throw error;
+    }
+  }
+
+  // Requests JSON output and validates it; failed attempts are sent back with the validation errors
+  async completeJson<T>(
+    task: LLMTask,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    messages: LLMMessage[],
+    options: { temperature: number; maxTokens?: number; userId?: number }
+  ): Promise<T> {
+    const conversation = [...messages];
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= this.MAX_JSON_ATTEMPTS; attempt++) {
+      const { content } = await this.complete(task, conversation, { ...options, json: true });
+      const parsed = this.parseJson(content);
+      if (parsed === undefined) {
+        issues = ['response is not valid JSON'];
+      } else {
+        const result = schema.safeParse(parsed);
+        if (result.success) {
+          return result.data;
+        }
+        issues = result.error.issues.map((issue) =>
+          issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+        );
+      }
+
+      log.warn(`LLM ${task} attempt ${attempt} failed validation: ${issues.join('; ')}`);
+      conversation.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your reply was rejected: ${issues.join('; ')}. Reply again with only the corrected JSON object.`,
+        }
+      );
+    }
+
+    throw new AIResponseError(task, issues);
+  }
+
+  async transcribe(
+    audio: Buffer,
+    language: string = 'en',
+    options: { userId?: number; durationSeconds?: number } = {}
+  ): Promise<string> {
+    if (options.userId !== undefined) {
+      await usageService.assertWithinQuota(options.userId);
+    }
+
+    try {
+      const model = this.getModel('transcription');
+      const text = await this.provider.transcribe(audio, model, language);
+      // Audio is billed by duration, not tokens
+      const isMock = this.provider.name === 'mock';
+      await usageService.record({
+        userId: options.userId,
+        feature: 'transcription',
+        model: isMock ? `mock:${model}` : model,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: isMock ? 0 : usageService.estimateTranscriptionCost(options.durationSeconds ?? 0),
+      });
+      return text;
+    } catch (error) {
+      logError(error as Error, 'LLMService.transcribe');
+      throw error;
+    }
+  }
+
+  // Repairs the usual wrappers around otherwise valid JSON: code fences and surrounding prose
+  private parseJson(content: string): unknown {
+    const candidates = [content.trim()];
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) candidates.push(fenced[1].trim());
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start !== -1 && end > start) candidates.push(content.slice(start, end + 1));
+
+    for (const candidate of candidates) {
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        // try the next candidate
+      }
+    }
+    return undefined;
+  }
+}
+
+export const llmService = new LLMService();
@@ -0,0 +1,259 @@
+import { randomUUID } from 'crypto';
+import { config } from '../config/config';
+import { cryptoService } from './crypto.service';
+import { portfolioService } from './portfolio.service';
+import { redisService } from './redis.service';
+import { log, logError } from '../utils/logger';
+import { computeHoldings, getQuantityHeld } from '../utils/portfolio-math';
+import { fillOrder, getReservedCash, getReservedQuantity, isOrderTriggered } from '../utils/paper-orders';
+import { PriceData } from '../types/market';
+import { PaperAccount, PaperOrder, PaperOrderSide, PaperOrderType } from '../types/paper';
+import { HoldingValuation } from '../types/portfolio';
+
+type PaperOrderNotifier = (userId: number, order: PaperOrder) => Promise<void>;
+
+class PaperTradingService {
+  private readonly ORDER_HISTORY_LIMIT = 50;
+  private notifiers: PaperOrderNotifier[] = [];
+  // Each user's account is read, changed and saved one update at a time, so an order placed or
+  // cancelled while the price loop fills another isn't overwritten by the loop's stale copy
+  private queues: Map<number, Promise<unknown>> = new Map();
+
+  async start(): Promise<void> {
+    try {
+      const symbols = await redisService.getPaperOrderSymbols();
+      symbols.forEach((symbol) => cryptoService.addMonitoredSymbol(symbol));
+      cryptoService.addPriceListener((symbol, data) => this.checkOrders(symbol, data));
+      log.info(`Paper trading engine started for ${symbols.length} symbol(s)`);
+    } catch (error) {
+      logError(error as Error, 'PaperTradingService.start');
+      throw error;
+    }
+  }
+
+  // Called when a resting order fills or is rejected; market orders report back synchronously instead
+  onOrderSettled(notifier: PaperOrderNotifier): void {
+    this.notifiers.push(notifier);
+  }
+
+  async getAccount(userId: number): Promise<PaperAccount> {
+    return (await redisService.getPaperAccount(userId)) || this.createAccount(userId);
+  }
+
+  async resetAccount(userId: number): Promise<PaperAccount> {
+    const account = await this.serialize(userId, async () => {
+      await redisService.deletePaperAccount(userId);
+      const fresh = this.createAccount(userId);
+      await redisService.setPaperAccount(fresh);
+      return fresh;
+    });
+    log.info(`Paper account reset for user ${userId}`);
+    return account;
+  }
+
+  private createAccount(userId: number): PaperAccount {
+    return {
+      userId,
+      cash: config.paper.startingBalance,
+      initialBalance: config.paper.startingBalance,
+      createdAt: Date.now(),
+      coinIds: {},
+      fills: [],
+      orders: [],
+    };
+  }
+
+  async placeOrder(
+    userId: number,
+    input: {
+      coinId: string;
+      symbol: string;
+      side: PaperOrderSide;
+      type: PaperOrderType;
+      quantity: number;
+      price?: number;
+    }
+  ): Promise<{ success: boolean; message: string; order?: PaperOrder }> {
+    try {
+      if (!(input.quantity > 0)) {
+        return { success: false, message: 'Quantity must be positive.' };
+      }
+      if (input.type !== 'market' && !(input.price !== undefined && input.price > 0)) {
+        return { success: false, message: `A ${input.type} order needs a positive price.` };
+      }
+
+      const priceData = await cryptoService.getPrice(input.coinId);
+      if (!priceData) {
+        return { success: false, message: `Could not fetch a price for ${input.symbol}.` };
+      }
+
+      return await this.serialize(userId, async () => {
+        const account = await this.getAccount(userId);
+        const feeRate = config.paper.feeRate;
+        const order: PaperOrder = {
+          id: randomUUID().slice(0, 8),
+          coinId: input.coinId,
+          symbol: input.symbol,
+          side: input.side,
+          type: input.type,
+          quantity: input.quantity,
+          price: input.type === 'market' ? undefined : input.price,
+          status: 'open',
+          createdAt: Date.now(),
+        };
+
+        // Resting orders must be fundable next to everything else already resting
+        if (order.side === 'buy') {
+          const needed = order.quantity * (order.price ?? priceData.price) * (1 + feeRate);
+          const available = account.cash - getReservedCash(account, feeRate);
+          if (needed > available) {
+            return {
+              success: false,
+              message: `Insufficient paper cash: needed $${needed.toFixed(2)}, available $${available.toFixed(2)}.`,
+            };
+          }
+        } else {
+          const available = getQuantityHeld(account.fills, order.symbol) - getReservedQuantity(account, order.symbol);
+          if (order.quantity > available) {
+            return {
+              success: false,
+              message: `Insufficient paper ${order.symbol}: available ${Math.max(0, available)}.`,
+            };
+          }
+        }
+
+        if (isOrderTriggered(order, priceData.price)) {
+          const result = fillOrder(account, order, priceData.price, feeRate, Date.now());
+          await this.saveAccount(result.account);
+          return result.order.status === 'filled'
+            ? { success: true, message: 'Order filled', order: result.order }
+            : { success: false, message: result.order.reason || 'Order rejected', order: result.order };
+        }
+
+        await this.saveAccount({ ...account, orders: [...account.orders, order] });
+        cryptoService.addMonitoredSymbol(order.coinId);
+        log.debug(`Paper ${order.type} ${order.side} ${order.quantity} ${order.symbol} resting for user ${userId}`);
+        return { success: true, message: 'Order placed', order };
+      });
+    } catch (error) {
+      logError(error as Error, 'PaperTradingService.placeOrder');
+      throw error;
+    }
+  }
+
+  async cancelOrder(userId: number, orderId: string): Promise<PaperOrder | null> {
+    return this.serialize(userId, async () => {
+      const account = await this.getAccount(userId);
+      const order = account.orders.find((existing) => existing.id === orderId && existing.status === 'open');
+      if (!order) {
+        return null;
+      }
+
+      const cancelled: PaperOrder = { ...order, status: 'cancelled' };
+      await this.saveAccount({
+        ...account,
+        orders: [...account.orders.filter((existing) => existing.id !== orderId), cancelled],
+      });
+      return cancelled;
+    });
+  }
+
+  async getOpenOrders(userId: number): Promise<PaperOrder[]> {
+    return (await this.getAccount(userId)).orders
+      .filter((order) => order.status === 'open')
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async getValuation(userId: number): Promise<{
+    account: PaperAccount;
+    valuations: HoldingValuation[];
+    equity: number | null;
+  }> {
+    const account = await this.getAccount(userId);
+    const valuations = await portfolioService.valueHoldings(
+      computeHoldings(account.fills),
+      async (symbol) => account.coinIds[symbol] ?? symbol
+    );
+
+    // Equity is only meaningful when every open position could be priced
+    const open = valuations.filter((holding) => holding.quantity > 0);
+    const equity = open.every((holding) => holding.value !== null)
+      ? account.cash + open.reduce((total, holding) => total + (holding.value as number), 0)
+      : null;
+
+    return { account, valuations, equity };
+  }
+
+  private async checkOrders(coinId: string, data: PriceData): Promise<void> {
+    try {
+      for (const userId of await redisService.getPaperOrderUsers(coinId)) {
+        const settled = await this.serialize(userId, () => this.fillResting(userId, coinId, data.price));
+        for (const order of settled) {
+          await this.notify(userId, order);
+        }
+      }
+    } catch (error) {
+      logError(error as Error, 'PaperTradingService.checkOrders');
+    }
+  }
+
+  private async fillResting(userId: number, coinId: string, price: number): Promise<PaperOrder[]> {
+    let account = await redisService.getPaperAccount(userId);
+    const resting = (account?.orders || []).filter(
+      (order) => order.status === 'open' && order.coinId === coinId
+    );
+    if (!account || resting.length === 0) {
+      await redisService.removePaperOrderUser(coinId, userId);
+      return [];
+    }
+
+    const settled: PaperOrder[] = [];
+    for (const order of resting.sort((a, b) => a.createdAt - b.createdAt)) {
+      if (!isOrderTriggered(order, price)) continue;
+      const result = fillOrder(account, order, price, config.paper.feeRate, Date.now());
+      account = result.account;
+      settled.push(result.order);
+    }
+    if (settled.length === 0) return [];
+
+    await this.saveAccount(account);
+    if (!account.orders.some((order) => order.status === 'open' && order.coinId === coinId)) {
+      await redisService.removePaperOrderUser(coinId, userId);
+    }
+    return settled;
+  }
+
+  // Runs after every earlier update queued for the user, whether that one succeeded or not
+  private serialize<T>(userId: number, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(userId) ?? Promise.resolve()).catch(() => undefined).then(task);
+    this.queues.set(userId, run);
+    run
+      .finally(() => {
+        if (this.queues.get(userId) === run) this.queues.delete(userId);
+      })
+      .catch(() => undefined);
+    return run;
+  }
+
+  // Keeps every open order but only the most recent closed ones
+  private async saveAccount(account: PaperAccount): Promise<void> {
+    const open = account.orders.filter((order) => order.status === 'open');
+    const closed = account.orders
+      .filter((order) => order.status !== 'open')
+      .sort((a, b) => (a.filledAt ?? a.createdAt) - (b.filledAt ?? b.createdAt))
+      .slice(-this.ORDER_HISTORY_LIMIT);
+    await redisService.setPaperAccount({ ...account, orders: [...open, ...closed] });
+  }
+
+  private async notify(userId: number, order: PaperOrder): Promise<void> {
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier(userId, order);
+      } catch (error) {
+        logError(error as Error, 'PaperTradingService.notify');
+      }
+    }
+  }
+}
+
+export const paperTradingService = new PaperTradingService();
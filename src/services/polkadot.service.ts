@@ -0,0 +1,139 @@
+import '@polkadot/api-augment';
+import { ApiPromise, WsProvider } from '@polkadot/api';
+import { ApiOptions } from '@polkadot/api/types';
+import { config } from '../config/config';
+import { log, logError } from '../utils/logger';
+import { fromPlanck } from '../utils/polkadot';
+import { AccountBalance, ChainOverview, SubstrateChain } from '../types/polkadot';
+
+export type ChainProvider = NonNullable<ApiOptions['provider']>;
+
+class PolkadotService {
+  private apis: Map<SubstrateChain, Promise<ApiPromise>> = new Map();
+  private providers: Map<SubstrateChain, ChainProvider> = new Map();
+
+  // Swaps the RPC connection for a chain, e.g. for a MockProvider in tests or a dev node's WsProvider.
+  // The current connection, if any, is closed first.
+  async useProvider(chain: SubstrateChain, provider: ChainProvider): Promise<void> {
+    await this.disconnect(chain);
+    this.providers.set(chain, provider);
+  }
+
+  // Connects lazily and shares the connection; a failed attempt is forgotten so the next call retries
+  async getApi(chain: SubstrateChain = 'polkadot'): Promise<ApiPromise> {
+    let api = this.apis.get(chain);
+    if (!api) {
+      api = this.connect(chain);
+      this.apis.set(chain, api);
+      api.catch(() => this.apis.delete(chain));
+    }
+    return api;
+  }
+
+  private async connect(chain: SubstrateChain): Promise<ApiPromise> {
+    const provider = this.providers.get(chain) ?? new WsProvider(config.chains[chain].rpcUrl);
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const api = await Promise.race([
+        ApiPromise.create({ provider, throwOnConnect: true, noInitWarn: true }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out connecting to ${chain} after ${config.chains.connectTimeoutMs}ms`)),
+            config.chains.connectTimeoutMs
+          );
+        }),
+      ]);
+      log.info(`Connected to ${api.runtimeChain.toString()} (spec ${api.runtimeVersion.specVersion.toString()})`);
+      return api;
+    } catch (error) {
+      // Stops the provider's reconnect loop after a timeout
+      await provider.disconnect().catch(() => undefined);
+      logError(error as Error, 'PolkadotService.connect');
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async disconnect(chain?: SubstrateChain): Promise<void> {
+    const chains = chain ? [chain] : Array.from(this.apis.keys());
+    for (const name of chains) {
+      const api = this.apis.get(name);
+      this.apis.delete(name);
+      try {
+        await (await api)?.disconnect();
+      } catch (error) {
+        log.debug(`Ignoring ${name} disconnect error: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  getToken(api: ApiPromise): { token: string; decimals: number } {
+    return { token: api.registry.chainTokens[0], decimals: api.registry.chainDecimals[0] };
+  }
+
+  async getChainOverview(chain: SubstrateChain = 'polkadot'): Promise<ChainOverview> {
+    try {
+      const api = await this.getApi(chain);
+      const { token, decimals } = this.getToken(api);
+      const finalizedHash = await api.rpc.chain.getFinalizedHead();
+      const [header, issuance, progress, validators, targetValidators, candidates, nominators] = await Promise.all([
+        api.rpc.chain.getHeader(finalizedHash),
+        api.query.balances.totalIssuance(),
+        api.derive.session.progress(),
+        api.query.session.validators(),
+        api.query.staking.validatorCount(),
+        api.query.staking.counterForValidators(),
+        api.query.staking.counterForNominators(),
+      ]);
+
+      return {
+        chain,
+        token,
+        decimals,
+        finalizedBlock: header.number.toNumber(),
+        totalIssuance: fromPlanck(issuance, decimals),
+        activeEra: progress.activeEra.toNumber(),
+        currentEra: progress.currentEra.toNumber(),
+        eraProgress: progress.eraProgress.toNumber(),
+        eraLength: progress.eraLength.toNumber(),
+        sessionIndex: progress.currentIndex.toNumber(),
+        activeValidators: validators.length,
+        targetValidators: targetValidators.toNumber(),
+        validatorCandidates: candidates.toNumber(),
+        nominators: nominators.toNumber(),
+      };
+    } catch (error) {
+      logError(error as Error, 'PolkadotService.getChainOverview');
+      throw error;
+    }
+  }
+
+  async getAccountBalance(chain: SubstrateChain, address: string): Promise<AccountBalance> {
+    try {
+      const api = await this.getApi(chain);
+      const { token, decimals } = this.getToken(api);
+      const balances = await api.derive.balances.all(address);
+      const free = fromPlanck(balances.freeBalance, decimals);
+      const reserved = fromPlanck(balances.reservedBalance, decimals);
+
+      return {
+        chain,
+        address,
+        token,
+        free,
+        reserved,
+        locked: fromPlanck(balances.lockedBalance, decimals),
+        transferable: fromPlanck(balances.availableBalance, decimals),
+        total: free + reserved,
+        nonce: balances.accountNonce.toNumber(),
+      };
+    } catch (error) {
+      logError(error as Error, 'PolkadotService.getAccountBalance');
+      throw error;
+    }
+  }
+}
+
+export const polkadotService = new PolkadotService();
@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import { cryptoService } from './crypto.service';
+import { redisService } from './redis.service';
+import { symbolService } from './symbol.service';
+import { log, logError } from '../utils/logger';
+import {
+  computeHoldings,
+  getQuantityHeld,
+  matchRealizedLots,
+  sortTransactions,
+} from '../utils/portfolio-math';
+import { toCsv } from '../utils/csv';
+import {
+  CostBasisMethod,
+  Holding,
+  HoldingValuation,
+  RealizedLot,
+  Transaction,
+  TransactionInput,
+  TransactionType,
+} from '../types/portfolio';
+
+class PortfolioService {
+  async getTransactions(userId: number): Promise<Transaction[]> {
+    return sortTransactions(await this.loadLedger(userId));
+  }
+
+  // Portfolios saved before the ledger existed only have a quantity snapshot; treat it as zero-cost deposits
+  private async loadLedger(userId: number): Promise<Transaction[]> {
+    const transactions = await redisService.getPortfolioLedger(userId);
+    if (transactions.length > 0) {
+      return transactions;
+    }
+
+    const snapshot = await redisService.getUserPortfolio(userId);
+    return Object.entries(snapshot).map(([symbol, quantity]) => ({
+      id: `snapshot-${symbol}`,
+      symbol,
+      type: 'transfer_in' as const,
+      quantity,
+      price: 0,
+      fee: 0,
+      timestamp: 0,
+    }));
+  }
+
+  async addTransaction(
+    userId: number,
+    input: {
+      symbol: string;
+      type: TransactionType;
+      quantity: number;
+      price: number;
+      fee?: number;
+      timestamp?: number;
+    }
+  ): Promise<{ success: boolean; message: string; transaction?: Transaction }> {
+    try {
+      if (!(input.quantity > 0) || input.price < 0 || (input.fee ?? 0) < 0) {
+        return { success: false, message: 'Quantity must be positive and price/fee cannot be negative.' };
+      }
+
+      const transactions = await this.loadLedger(userId);
+      const symbol = await this.normalizeSymbol(input.symbol);
+
+      if (input.type === 'sell' || input.type === 'transfer_out') {
+        const held = getQuantityHeld(transactions, symbol);
+        if (input.quantity > held) {
+          return {
+            success: false,
+            message: `Insufficient ${symbol} balance: you hold ${held}.`,
+          };
+        }
+      }
+
+      const transaction: Transaction = {
+        id: randomUUID().slice(0, 8),
+        symbol,
+        type: input.type,
+        quantity: input.quantity,
+        price: input.price,
+        fee: input.fee ?? 0,
+        timestamp: input.timestamp ?? Date.now(),
+      };
+
+      await this.saveLedger(userId, [...transactions, transaction]);
+      log.debug(`Recorded ${transaction.type} ${transaction.quantity} ${transaction.symbol} for user ${userId}`);
+
+      return { success: true, message: 'Transaction recorded', transaction };
+    } catch (error) {
+      logError(error as Error, 'PortfolioService.addTransaction');
+      throw error;
+    }
+  }
+
+  // Ledger rows are keyed by upper-case ticker, as the importers write them, so "btc", "BTC" and
+  // "bitcoin" all land on the same holding
+  async normalizeSymbol(input: string): Promise<string> {
+    const resolution = await symbolService.resolve(input);
+    return (resolution.status === 'resolved' ? resolution.coin.symbol : input.trim()).toUpperCase();
+  }
+
+  async deleteTransaction(userId: number, transactionId: string): Promise<boolean> {
+    const transactions = await this.loadLedger(userId);
+    const remaining = transactions.filter((tx) => tx.id !== transactionId);
+    if (remaining.length === transactions.length) {
+      return false;
+    }
+    await this.saveLedger(userId, remaining);
+    return true;
+  }
+
+  async getHoldings(userId: number, method: CostBasisMethod = 'fifo'): Promise<Holding[]> {
+    return computeHoldings(await this.loadLedger(userId), method);
+  }
+
+  async getValuation(
+    userId: number,
+    method: CostBasisMethod = 'fifo'
+  ): Promise<HoldingValuation[]> {
+    return this.valueHoldings(await this.getHoldings(userId, method));
+  }
+
+  // Prices each open position; callers that already know the coin ids can skip symbol resolution
+  async valueHoldings(
+    holdings: Holding[],
+    resolveCoinId: (symbol: string) => Promise<string> = (symbol) => symbolService.toCoinId(symbol)
+  ): Promise<HoldingValuation[]> {
+    const valuations: HoldingValuation[] = [];
+
+    for (const holding of holdings) {
+      let currentPrice: number | null = null;
+      if (holding.quantity > 0) {
+        try {
+          const coinId = await resolveCoinId(holding.symbol);
+          currentPrice = (await cryptoService.getPrice(coinId))?.price ?? null;
+        } catch (error) {
+          logError(error as Error, 'PortfolioService.getValuation');
+        }
+      }
+
+      const value = currentPrice !== null ? holding.quantity * currentPrice : null;
+      const unrealizedPnl = value !== null ? value - holding.costBasis : null;
+      valuations.push({
+        ...holding,
+        currentPrice,
+        value,
+        unrealizedPnl,
+        unrealizedPnlPercent:
+          unrealizedPnl !== null && holding.costBasis > 0
+            ? (unrealizedPnl / holding.costBasis) * 100
+            : null,
+      });
+    }
+
+    return valuations;
+  }
+
+  async importTransactions(
+    userId: number,
+    inputs: TransactionInput[]
+  ): Promise<{ imported: number; duplicates: number }> {
+    try {
+      const transactions = await this.loadLedger(userId);
+      const seen = new Set(transactions.map((tx) => this.getFingerprint(tx)));
+      const added: Transaction[] = [];
+
+      for (const input of inputs) {
+        const fingerprint = this.getFingerprint(input);
+        if (seen.has(fingerprint)) {
+          continue;
+        }
+        seen.add(fingerprint);
+        added.push({ ...input, id: randomUUID().slice(0, 8) });
+      }
+
+      if (added.length > 0) {
+        await this.saveLedger(userId, [...transactions, ...added]);
+      }
+      log.info(`Imported ${added.length} transaction(s) for user ${userId}`);
+
+      return { imported: added.length, duplicates: inputs.length - added.length };
+    } catch (error) {
+      logError(error as Error, 'PortfolioService.importTransactions');
+      throw error;
+    }
+  }
+
+  private getFingerprint(tx: TransactionInput): string {
+    return tx.externalId || `${tx.symbol}:${tx.type}:${tx.quantity}:${tx.price}:${tx.timestamp}`;
+  }
+
+  async exportHoldingsCsv(userId: number, method: CostBasisMethod = 'fifo'): Promise<string> {
+    const valuations = (await this.getValuation(userId, method)).filter((h) => h.quantity > 0);
+    const format = (value: number | null, digits: number = 2): string =>
+      value === null ? '' : value.toFixed(digits);
+
+    return toCsv([
+      ['symbol', 'quantity', 'average_cost', 'cost_basis', 'current_price', 'value', 'unrealized_pnl', 'realized_pnl'],
+      ...valuations.map((h) => [
+        h.symbol,
+        h.quantity,
+        format(h.averageCost, 8),
+        format(h.costBasis),
+        format(h.currentPrice, 8),
+        format(h.value),
+        format(h.unrealizedPnl),
+        format(h.realizedPnl),
+      ]),
+    ]);
+  }
+
+  async getRealizedLots(userId: number, year?: number): Promise<RealizedLot[]> {
+    const lots = matchRealizedLots(await this.loadLedger(userId));
+    return year === undefined
+      ? lots
+      : lots.filter((lot) => new Date(lot.disposedAt).getUTCFullYear() === year);
+  }
+
+  async getRealizedGainsSummary(userId: number): Promise<Array<{
+    year: number;
+    proceeds: number;
+    costBasis: number;
+    shortTermGain: number;
+    longTermGain: number;
+  }>> {
+    const byYear = new Map<number, { proceeds: number; costBasis: number; shortTermGain: number; longTermGain: number }>();
+    for (const lot of await this.getRealizedLots(userId)) {
+      const year = new Date(lot.disposedAt).getUTCFullYear();
+      const totals = byYear.get(year) || { proceeds: 0, costBasis: 0, shortTermGain: 0, longTermGain: 0 };
+      totals.proceeds += lot.proceeds;
+      totals.costBasis += lot.costBasis;
+      if (lot.term === 'long') {
+        totals.longTermGain += lot.gain;
+      } else {
+        totals.shortTermGain += lot.gain;
+      }
+      byYear.set(year, totals);
+    }
+
+    return Array.from(byYear.entries())
+      .map(([year, totals]) => ({ year, ...totals }))
+      .sort((a, b) => a.year - b.year);
+  }
+
+  async exportRealizedGainsCsv(userId: number, year: number): Promise<string> {
+    const lots = await this.getRealizedLots(userId, year);
+    const date = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+    return toCsv([
+      ['symbol', 'quantity', 'date_acquired', 'date_disposed', 'proceeds', 'cost_basis', 'gain', 'term'],
+      ...lots.map((lot) => [
+        lot.symbol,
+        lot.quantity,
+        date(lot.acquiredAt),
+        date(lot.disposedAt),
+        lot.proceeds.toFixed(2),
+        lot.costBasis.toFixed(2),
+        lot.gain.toFixed(2),
+        lot.term,
+      ]),
+    ]);
+  }
+
+  // The ledger is the source of truth; the quantity snapshot keeps getUserPortfolio readers current
+  private async saveLedger(userId: number, transactions: Transaction[]): Promise<void> {
+    await redisService.setPortfolioLedger(userId, sortTransactions(transactions));
+
+    const snapshot: Record<string, number> = {};
+    for (const holding of computeHoldings(transactions)) {
+      if (holding.quantity > 0) {
+        snapshot[holding.symbol] = holding.quantity;
+      }
+    }
+    await redisService.setUserPortfolio(userId, snapshot);
+  }
+}
+
+export const portfolioService = new PortfolioService();
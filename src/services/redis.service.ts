@@ -1,11 +1,26 @@
 import Redis from 'ioredis';
 import { config } from '../config/config';
 import { log, logError } from '../utils/logger';
+import { PriceAlert, FiredAlert } from '../types/alert';
+import { Transaction } from '../types/portfolio';
+import { Candle } from '../types/market';
+import { SignalRecord } from '../types/signal';
+import { PaperAccount } from '../types/paper';
+import { DigestSlot, DigestSubscription } from '../types/digest';
+import { UserWatchlists } from '../types/watchlist';
+import { WhaleSubscription } from '../types/whale';
+import { AddressWatch } from '../types/address-watch';
+import { StakingWatch } from '../types/staking';
 
 class RedisService {
   private redis: Redis | null = null;
   private inMemoryStorage: Map<string, any> = new Map();
   private isRedisAvailable: boolean = false;
+  private readonly ALERT_HISTORY_LIMIT = 100;
+  private readonly CANDLE_CACHE_TTL = 7 * 24 * 60 * 60; // Unused series expire after a week
+  private readonly SIGNAL_RETENTION = 180 * 24 * 60 * 60; // Graded signals age out of the track record
+  private readonly SIGNAL_READ_BATCH = 500;
+  private connectionReady: Promise<void> = Promise.resolve();
 
   constructor() {
     this.initializeRedis();
@@ -36,20 +51,32 @@ class RedisService {
         this.isRedisAvailable = true;
         log.info('Redis connected successfully');
       });
+
+      // Settles once we know whether Redis or the in-memory fallback is in use
+      this.connectionReady = new Promise((resolve) => {
+        this.redis!.once('connect', () => resolve());
+        this.redis!.once('end', () => resolve());
+      });
     } catch (error) {
       this.isRedisAvailable = false;
       logError(error as Error, 'Redis initialization error');
     }
   }
 
+  async waitUntilReady(): Promise<void> {
+    await this.connectionReady;
+  }
+
   private getKey(type: string, userId: number, symbol?: string): string {
     return `${type}:${userId}${symbol ? ':' + symbol : ''}`;
   }
 
   // Price Alert Methods
-  async setPriceAlert(userId: number, symbol: string, price: number, isAbove: boolean): Promise<void> {
-    const key = this.getKey('alert', userId, symbol);
-    const data = { symbol, price, isAbove };
+  // Alerts live at alert:{userId}:{alertId}; alert_index:{symbol} holds "{userId}:{alertId}" members
+  async setPriceAlert(alert: PriceAlert): Promise<void> {
+    const { userId, symbol, id } = alert;
+    const key = this.getKey('alert', userId, id);
+    const data = alert;
     
     try {
       if (this.isRedisAvailable && this.redis) {
@@ -61,11 +88,32 @@ class RedisService {
       logError(error as Error, 'setPriceAlert');
       this.inMemoryStorage.set(key, data); // Fallback to in-memory
     }
+
+    await this.addToIndex(`alert_index:${symbol}`, `${userId}:${id}`);
+    await this.addToIndex('alert_symbols', symbol);
+  }
+
+  async getPriceAlert(userId: number, alertId: string): Promise<PriceAlert | null> {
+    const key = this.getKey('alert', userId, alertId);
+
+    try {
+      const data = this.isRedisAvailable && this.redis
+        ? await this.redis.get(key)
+        : this.inMemoryStorage.get(key);
+      if (!data) {
+        return null;
+      }
+      return this.parseAlert(typeof data === 'string' ? JSON.parse(data) : data, userId, alertId);
+    } catch (error) {
+      logError(error as Error, 'getPriceAlert');
+      const fallback = this.inMemoryStorage.get(key);
+      return fallback ? this.parseAlert(fallback, userId, alertId) : null;
+    }
   }
 
-  async getPriceAlerts(userId: number): Promise<Record<string, any>> {
+  async getPriceAlerts(userId: number): Promise<PriceAlert[]> {
     const pattern = this.getKey('alert', userId, '*');
-    const alerts: Record<string, any> = {};
+    const alerts: PriceAlert[] = [];
 
     try {
       if (this.isRedisAvailable && this.redis) {
@@ -73,40 +121,101 @@ class RedisService {
         for (const key of keys) {
           const data = await this.redis.get(key);
           if (data) {
-            const symbol = key.split(':')[2];
-            alerts[symbol] = JSON.parse(data);
+            alerts.push(this.parseAlert(JSON.parse(data), userId, key.split(':')[2]));
           }
         }
       } else {
         // Get from in-memory storage
         for (const [key, value] of this.inMemoryStorage.entries()) {
-          if (key.startsWith(`alert:${userId}`)) {
-            const symbol = key.split(':')[2];
-            alerts[symbol] = value;
+          if (key.startsWith(`alert:${userId}:`)) {
+            alerts.push(this.parseAlert(value, userId, key.split(':')[2]));
           }
         }
       }
     } catch (error) {
       logError(error as Error, 'getPriceAlerts');
       // Return in-memory alerts as fallback
-      return Object.fromEntries(
-        Array.from(this.inMemoryStorage.entries())
-          .filter(([key]) => key.startsWith(`alert:${userId}`))
-          .map(([key, value]) => [key.split(':')[2], value])
-      );
+      return Array.from(this.inMemoryStorage.entries())
+        .filter(([key]) => key.startsWith(`alert:${userId}:`))
+        .map(([key, value]) => this.parseAlert(value, userId, key.split(':')[2]));
+    }
+
+    return alerts.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async getAlertsForSymbol(symbol: string): Promise<PriceAlert[]> {
+    const members = await this.getIndexMembers(`alert_index:${symbol}`);
+    const alerts: PriceAlert[] = [];
+
+    for (const member of members) {
+      // Legacy members are a bare userId and the alert is keyed by symbol
+      const [userId, alertId = symbol] = member.split(':');
+      const alert = await this.getPriceAlert(Number(userId), alertId);
+      if (alert) {
+        alerts.push(alert);
+      } else {
+        // Index entry outlived its alert, drop it
+        await this.removeFromIndex(`alert_index:${symbol}`, member);
+      }
     }
 
     return alerts;
   }
 
-  async removePriceAlert(userId: number, symbol: string, isAbove: boolean): Promise<void> {
-    const key = this.getKey('alert', userId, symbol);
+  // Older alerts have no id (the key ends in the symbol) and may only carry { price, isAbove }
+  private parseAlert(raw: any, userId: number, keyId: string): PriceAlert {
+    return {
+      id: raw.id ?? keyId,
+      userId,
+      symbol: raw.symbol ?? keyId,
+      rule: raw.rule ?? { type: raw.isAbove ? 'above' : 'below', price: raw.price },
+      status: raw.status ?? 'active',
+      snoozedUntil: raw.snoozedUntil,
+      createdAt: raw.createdAt ?? Date.now(),
+    };
+  }
+
+  async getAlertedSymbols(): Promise<string[]> {
+    return this.getIndexMembers('alert_symbols');
+  }
+
+  async removePriceAlert(userId: number, alertId: string): Promise<void> {
+    const alert = await this.getPriceAlert(userId, alertId);
+    const key = this.getKey('alert', userId, alertId);
     if (this.isRedisAvailable && this.redis) {
       await this.redis.del(key);
     } else {
       this.inMemoryStorage.delete(key);
     }
-    log.debug(`Removed price alert for user ${userId}: ${symbol}`);
+    if (alert) {
+      await this.removeAlertIndexEntry(alert);
+    }
+    log.debug(`Removed price alert ${alertId} for user ${userId}`);
+  }
+
+  private async removeAlertIndexEntry(alert: PriceAlert): Promise<void> {
+    const indexKey = `alert_index:${alert.symbol}`;
+    await this.removeFromIndex(
+      indexKey,
+      alert.id === alert.symbol ? String(alert.userId) : `${alert.userId}:${alert.id}`
+    );
+    const remaining = await this.getIndexMembers(indexKey);
+    if (remaining.length === 0) {
+      await this.removeFromIndex('alert_symbols', alert.symbol);
+    }
+  }
+
+  // Fired Alert History Methods
+  async addFiredAlert(userId: number, alert: FiredAlert): Promise<void> {
+    await this.pushToList(this.getKey('alert_history', userId), alert, this.ALERT_HISTORY_LIMIT);
+  }
+
+  async getFiredAlerts(userId: number, offset: number = 0, limit: number = 10): Promise<FiredAlert[]> {
+    return this.getListRange<FiredAlert>(this.getKey('alert_history', userId), offset, limit);
+  }
+
+  async getFiredAlertCount(userId: number): Promise<number> {
+    return this.getListLength(this.getKey('alert_history', userId));
   }
 
   // Cache Methods
@@ -126,11 +235,12 @@ class RedisService {
     }
   }
 
-  async deleteCache(key: string): Promise<void> {
+  // Resolves to whether the key existed, so callers can use it as an atomic claim
+  async deleteCache(key: string): Promise<boolean> {
     if (this.isRedisAvailable && this.redis) {
-      await this.redis.del(key);
+      return (await this.redis.del(key)) > 0;
     } else {
-      this.inMemoryStorage.delete(key);
+      return this.inMemoryStorage.delete(key);
     }
   }
 
@@ -166,6 +276,69 @@ class RedisService {
     }
   }
 
+  async setPortfolioLedger(userId: number, transactions: Transaction[]): Promise<void> {
+    const key = this.getKey('portfolio_ledger', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.set(key, JSON.stringify(transactions));
+      } else {
+        this.inMemoryStorage.set(key, transactions);
+      }
+    } catch (error) {
+      logError(error as Error, 'setPortfolioLedger');
+      this.inMemoryStorage.set(key, transactions); // Fallback to in-memory
+    }
+  }
+
+  async getPortfolioLedger(userId: number): Promise<Transaction[]> {
+    const key = this.getKey('portfolio_ledger', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const data = await this.redis.get(key);
+        return data ? JSON.parse(data) : [];
+      } else {
+        return this.inMemoryStorage.get(key) || [];
+      }
+    } catch (error) {
+      logError(error as Error, 'getPortfolioLedger');
+      return this.inMemoryStorage.get(key) || [];
+    }
+  }
+
+  // Candle Methods
+  async setCachedCandles(symbol: string, interval: string, candles: Candle[]): Promise<void> {
+    const key = `klines:${symbol}:${interval}`;
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.set(key, JSON.stringify(candles), 'EX', this.CANDLE_CACHE_TTL);
+      } else {
+        this.inMemoryStorage.set(key, candles);
+      }
+    } catch (error) {
+      logError(error as Error, 'setCachedCandles');
+      this.inMemoryStorage.set(key, candles); // Fallback to in-memory
+    }
+  }
+
+  async getCachedCandles(symbol: string, interval: string): Promise<Candle[]> {
+    const key = `klines:${symbol}:${interval}`;
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const data = await this.redis.get(key);
+        return data ? JSON.parse(data) : [];
+      } else {
+        return this.inMemoryStorage.get(key) || [];
+      }
+    } catch (error) {
+      logError(error as Error, 'getCachedCandles');
+      return this.inMemoryStorage.get(key) || [];
+    }
+  }
+
   // Webhook Methods
   async setWebhook(userId: number, url: string): Promise<void> {
     const key = this.getKey('webhook', userId);
@@ -206,6 +379,500 @@ class RedisService {
     }
   }
 
+  // Signal Track Record Methods
+  // Every signal lives at signal:{id}; signal_index lists all ids and signal_open_index the ungraded ones.
+  // Graded signals expire after SIGNAL_RETENTION; their ids are pruned from the index as reads miss them.
+  async setSignalRecord(record: SignalRecord): Promise<void> {
+    const key = `signal:${record.id}`;
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        if (record.outcome === 'open') {
+          await this.redis.set(key, JSON.stringify(record));
+        } else {
+          await this.redis.set(key, JSON.stringify(record), 'EX', this.SIGNAL_RETENTION);
+        }
+      } else {
+        this.inMemoryStorage.set(key, record);
+      }
+    } catch (error) {
+      logError(error as Error, 'setSignalRecord');
+      this.inMemoryStorage.set(key, record); // Fallback to in-memory
+    }
+
+    await this.addToIndex('signal_index', record.id);
+    if (record.outcome === 'open') {
+      await this.addToIndex('signal_open_index', record.id);
+    } else {
+      await this.removeFromIndex('signal_open_index', record.id);
+    }
+  }
+
+  async getSignalRecords(openOnly: boolean = false): Promise<SignalRecord[]> {
+    const ids = await this.getIndexMembers(openOnly ? 'signal_open_index' : 'signal_index');
+    const records: SignalRecord[] = [];
+    const expired: string[] = [];
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        for (let i = 0; i < ids.length; i += this.SIGNAL_READ_BATCH) {
+          const batch = ids.slice(i, i + this.SIGNAL_READ_BATCH);
+          const values = await this.redis.mget(...batch.map((id) => `signal:${id}`));
+          values.forEach((data, index) => {
+            if (data) records.push(JSON.parse(data));
+            else expired.push(batch[index]);
+          });
+        }
+      } else {
+        const cutoff = Date.now() - this.SIGNAL_RETENTION * 1000;
+        for (const id of ids) {
+          const record: SignalRecord | undefined = this.inMemoryStorage.get(`signal:${id}`);
+          if (record && !(record.resolvedAt !== undefined && record.resolvedAt < cutoff)) {
+            records.push(record);
+          } else {
+            this.inMemoryStorage.delete(`signal:${id}`);
+            expired.push(id);
+          }
+        }
+      }
+    } catch (error) {
+      logError(error as Error, 'getSignalRecords');
+    }
+
+    for (const id of expired) {
+      await this.removeFromIndex('signal_index', id);
+      await this.removeFromIndex('signal_open_index', id);
+    }
+    return records.sort((a, b) => a.issuedAt - b.issuedAt);
+  }
+
+  // Paper Trading Methods
+  // paper_order_index:{coinId} lists users with resting orders on that coin, paper_order_symbols the coins
+  async setPaperAccount(account: PaperAccount): Promise<void> {
+    const key = this.getKey('paper_account', account.userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.set(key, JSON.stringify(account));
+      } else {
+        this.inMemoryStorage.set(key, account);
+      }
+    } catch (error) {
+      logError(error as Error, 'setPaperAccount');
+      this.inMemoryStorage.set(key, account); // Fallback to in-memory
+    }
+
+    for (const order of account.orders) {
+      if (order.status === 'open') {
+        await this.addToIndex(`paper_order_index:${order.coinId}`, String(account.userId));
+        await this.addToIndex('paper_order_symbols', order.coinId);
+      }
+    }
+  }
+
+  async getPaperAccount(userId: number): Promise<PaperAccount | null> {
+    const key = this.getKey('paper_account', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const data = await this.redis.get(key);
+        return data ? JSON.parse(data) : null;
+      }
+    } catch (error) {
+      logError(error as Error, 'getPaperAccount');
+    }
+    return this.inMemoryStorage.get(key) || null;
+  }
+
+  async deletePaperAccount(userId: number): Promise<void> {
+    const key = this.getKey('paper_account', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.del(key);
+      } else {
+        this.inMemoryStorage.delete(key);
+      }
+    } catch (error) {
+      logError(error as Error, 'deletePaperAccount');
+      this.inMemoryStorage.delete(key);
+    }
+  }
+
+  async getPaperOrderUsers(coinId: string): Promise<number[]> {
+    return (await this.getIndexMembers(`paper_order_index:${coinId}`)).map(Number);
+  }
+
+  async removePaperOrderUser(coinId: string, userId: number): Promise<void> {
+    await this.removeFromIndex(`paper_order_index:${coinId}`, String(userId));
+  }
+
+  async getPaperOrderSymbols(): Promise<string[]> {
+    return this.getIndexMembers('paper_order_symbols');
+  }
+
+  // Digest Subscription Methods
+  // digest:{userId}:{slot} holds the subscription; digest_index lists "{userId}:{slot}" for startup
+  async setDigestSubscription(subscription: DigestSubscription): Promise<void> {
+    const key = this.getKey('digest', subscription.userId, subscription.slot);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.set(key, JSON.stringify(subscription));
+      } else {
+        this.inMemoryStorage.set(key, subscription);
+      }
+    } catch (error) {
+      logError(error as Error, 'setDigestSubscription');
+      this.inMemoryStorage.set(key, subscription); // Fallback to in-memory
+    }
+
+    await this.addToIndex('digest_index', `${subscription.userId}:${subscription.slot}`);
+  }
+
+  async getDigestSubscription(userId: number, slot: DigestSlot): Promise<DigestSubscription | null> {
+    const key = this.getKey('digest', userId, slot);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const data = await this.redis.get(key);
+        return data ? JSON.parse(data) : null;
+      }
+    } catch (error) {
+      logError(error as Error, 'getDigestSubscription');
+    }
+    return this.inMemoryStorage.get(key) || null;
+  }
+
+  async getAllDigestSubscriptions(): Promise<DigestSubscription[]> {
+    const subscriptions: DigestSubscription[] = [];
+    for (const member of await this.getIndexMembers('digest_index')) {
+      const [userId, slot] = member.split(':');
+      const subscription = await this.getDigestSubscription(Number(userId), slot as DigestSlot);
+      if (subscription) {
+        subscriptions.push(subscription);
+      } else {
+        await this.removeFromIndex('digest_index', member);
+      }
+    }
+    return subscriptions;
+  }
+
+  // Anomaly Subscription Methods
+  // anomaly_index:{coinId} lists subscribed users, anomaly_user:{userId} their coins, anomaly_symbols the coins
+  async addAnomalySubscription(userId: number, coinId: string): Promise<void> {
+    await this.addToIndex(`anomaly_index:${coinId}`, String(userId));
+    await this.addToIndex(this.getKey('anomaly_user', userId), coinId);
+    await this.addToIndex('anomaly_symbols', coinId);
+  }
+
+  async removeAnomalySubscription(userId: number, coinId: string): Promise<void> {
+    await this.removeFromIndex(`anomaly_index:${coinId}`, String(userId));
+    await this.removeFromIndex(this.getKey('anomaly_user', userId), coinId);
+    if ((await this.getIndexMembers(`anomaly_index:${coinId}`)).length === 0) {
+      await this.removeFromIndex('anomaly_symbols', coinId);
+    }
+  }
+
+  async getAnomalySubscribers(coinId: string): Promise<number[]> {
+    return (await this.getIndexMembers(`anomaly_index:${coinId}`)).map(Number);
+  }
+
+  async getUserAnomalySubscriptions(userId: number): Promise<string[]> {
+    return this.getIndexMembers(this.getKey('anomaly_user', userId));
+  }
+
+  async getAnomalySymbols(): Promise<string[]> {
+    return this.getIndexMembers('anomaly_symbols');
+  }
+
+  // Whale Subscription Methods
+  // whale_subscriptions:{userId} holds the user's list; whale_index lists users with at least one
+  async setWhaleSubscriptions(userId: number, subscriptions: WhaleSubscription[]): Promise<void> {
+    const key = this.getKey('whale_subscriptions', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        if (subscriptions.length > 0) {
+          await this.redis.set(key, JSON.stringify(subscriptions));
+        } else {
+          await this.redis.del(key);
+        }
+      } else if (subscriptions.length > 0) {
+        this.inMemoryStorage.set(key, subscriptions);
+      } else {
+        this.inMemoryStorage.delete(key);
+      }
+    } catch (error) {
+      logError(error as Error, 'setWhaleSubscriptions');
+      this.inMemoryStorage.set(key, subscriptions); // Fallback to in-memory
+    }
+
+    if (subscriptions.length > 0) {
+      await this.addToIndex('whale_index', String(userId));
+    } else {
+      await this.removeFromIndex('whale_index', String(userId));
+    }
+  }
+
+  async getWhaleSubscriptions(userId: number): Promise<WhaleSubscription[]> {
+    const key = this.getKey('whale_subscriptions', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const data = await this.redis.get(key);
+        return data ? JSON.parse(data) : [];
+      }
+    } catch (error) {
+      logError(error as Error, 'getWhaleSubscriptions');
+    }
+    return this.inMemoryStorage.get(key) || [];
+  }
+
+  async getAllWhaleSubscriptions(): Promise<WhaleSubscription[]> {
+    const subscriptions: WhaleSubscription[] = [];
+    for (const member of await this.getIndexMembers('whale_index')) {
+      subscriptions.push(...(await this.getWhaleSubscriptions(Number(member))));
+    }
+    return subscriptions;
+  }
+
+  // Address Watch Methods
+  // address_watch:{userId} holds the user's watched addresses; address_watch_index lists users with any
+  async setAddressWatches(userId: number, watches: AddressWatch[]): Promise<void> {
+    const key = this.getKey('address_watch', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        if (watches.length > 0) {
+          await this.redis.set(key, JSON.stringify(watches));
+        } else {
+          await this.redis.del(key);
+        }
+      } else if (watches.length > 0) {
+        this.inMemoryStorage.set(key, watches);
+      } else {
+        this.inMemoryStorage.delete(key);
+      }
+    } catch (error) {
+      logError(error as Error, 'setAddressWatches');
+      this.inMemoryStorage.set(key, watches); // Fallback to in-memory
+    }
+
+    if (watches.length > 0) {
+      await this.addToIndex('address_watch_index', String(userId));
+    } else {
+      await this.removeFromIndex('address_watch_index', String(userId));
+    }
+  }
+
+  async getAddressWatches(userId: number): Promise<AddressWatch[]> {
+    const key = this.getKey('address_watch', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const data = await this.redis.get(key);
+        return data ? JSON.parse(data) : [];
+      }
+    } catch (error) {
+      logError(error as Error, 'getAddressWatches');
+    }
+    return this.inMemoryStorage.get(key) || [];
+  }
+
+  async getAllAddressWatches(): Promise<AddressWatch[]> {
+    const watches: AddressWatch[] = [];
+    for (const member of await this.getIndexMembers('address_watch_index')) {
+      watches.push(...(await this.getAddressWatches(Number(member))));
+    }
+    return watches;
+  }
+
+  // Staking Watch Methods
+  // staking_watch:{userId} holds the stashes the user gets validator alerts for; staking_watch_index lists users with any
+  async setStakingWatches(userId: number, watches: StakingWatch[]): Promise<void> {
+    const key = this.getKey('staking_watch', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        if (watches.length > 0) {
+          await this.redis.set(key, JSON.stringify(watches));
+        } else {
+          await this.redis.del(key);
+        }
+      } else if (watches.length > 0) {
+        this.inMemoryStorage.set(key, watches);
+      } else {
+        this.inMemoryStorage.delete(key);
+      }
+    } catch (error) {
+      logError(error as Error, 'setStakingWatches');
+      this.inMemoryStorage.set(key, watches); // Fallback to in-memory
+    }
+
+    if (watches.length > 0) {
+      await this.addToIndex('staking_watch_index', String(userId));
+    } else {
+      await this.removeFromIndex('staking_watch_index', String(userId));
+    }
+  }
+
+  async getStakingWatches(userId: number): Promise<StakingWatch[]> {
+    const key = this.getKey('staking_watch', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const data = await this.redis.get(key);
+        return data ? JSON.parse(data) : [];
+      }
+    } catch (error) {
+      logError(error as Error, 'getStakingWatches');
+    }
+    return this.inMemoryStorage.get(key) || [];
+  }
+
+  async getAllStakingWatches(): Promise<StakingWatch[]> {
+    const watches: StakingWatch[] = [];
+    for (const member of await this.getIndexMembers('staking_watch_index')) {
+      watches.push(...(await this.getStakingWatches(Number(member))));
+    }
+    return watches;
+  }
+
+  // Watchlist Methods
+  async setWatchlists(watchlists: UserWatchlists): Promise<void> {
+    const key = this.getKey('watchlists', watchlists.userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.set(key, JSON.stringify(watchlists));
+      } else {
+        this.inMemoryStorage.set(key, watchlists);
+      }
+    } catch (error) {
+      logError(error as Error, 'setWatchlists');
+      this.inMemoryStorage.set(key, watchlists); // Fallback to in-memory
+    }
+  }
+
+  async getWatchlists(userId: number): Promise<UserWatchlists | null> {
+    const key = this.getKey('watchlists', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const data = await this.redis.get(key);
+        return data ? JSON.parse(data) : null;
+      }
+    } catch (error) {
+      logError(error as Error, 'getWatchlists');
+    }
+    return this.inMemoryStorage.get(key) || null;
+  }
+
+  // Trading Methods
+  async setTradingHalted(halted: boolean): Promise<void> {
+    const key = 'trading:kill_switch';
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await (halted ? this.redis.set(key, '1') : this.redis.del(key));
+        return;
+      }
+    } catch (error) {
+      logError(error as Error, 'setTradingHalted');
+    }
+    if (halted) {
+      this.inMemoryStorage.set(key, '1');
+    } else {
+      this.inMemoryStorage.delete(key);
+    }
+  }
+
+  async isTradingHalted(): Promise<boolean> {
+    const key = 'trading:kill_switch';
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        return (await this.redis.get(key)) === '1';
+      }
+    } catch (error) {
+      logError(error as Error, 'isTradingHalted');
+      // Fail closed: an unreadable switch is treated as engaged
+      return true;
+    }
+    return this.inMemoryStorage.get(key) === '1';
+  }
+
+  // AI Usage Methods
+  // Counters live in hashes so one write can bump every dimension (totals, feature, model) at once
+  // Resolves to the incremented fields' new totals
+  async incrementUsage(
+    key: string,
+    increments: Record<string, number>,
+    ttlSeconds: number
+  ): Promise<Record<string, number>> {
+    const fields = Object.keys(increments);
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const pipeline = this.redis.multi();
+        for (const field of fields) {
+          pipeline.hincrbyfloat(key, field, increments[field]);
+        }
+        pipeline.expire(key, ttlSeconds);
+        const results = (await pipeline.exec()) || [];
+        return Object.fromEntries(fields.map((field, index) => [field, parseFloat(String(results[index]?.[1]))]));
+      }
+    } catch (error) {
+      logError(error as Error, 'incrementUsage');
+    }
+    const counters: Record<string, number> = this.inMemoryStorage.get(key) || {};
+    for (const field of fields) {
+      counters[field] = (counters[field] || 0) + increments[field];
+    }
+    this.inMemoryStorage.set(key, counters);
+    return Object.fromEntries(fields.map((field) => [field, counters[field]]));
+  }
+
+  async getUsage(key: string): Promise<Record<string, number>> {
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const raw = await this.redis.hgetall(key);
+        return Object.fromEntries(Object.entries(raw).map(([field, value]) => [field, parseFloat(value)]));
+      }
+    } catch (error) {
+      logError(error as Error, 'getUsage');
+    }
+    return { ...(this.inMemoryStorage.get(key) || {}) };
+  }
+
+  async setUserTier(userId: number, tier: string): Promise<void> {
+    const key = this.getKey('user_tier', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.set(key, tier);
+      } else {
+        this.inMemoryStorage.set(key, tier);
+      }
+    } catch (error) {
+      logError(error as Error, 'setUserTier');
+      this.inMemoryStorage.set(key, tier);
+    }
+  }
+
+  async getUserTier(userId: number): Promise<string | null> {
+    const key = this.getKey('user_tier', userId);
+
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        return await this.redis.get(key);
+      }
+    } catch (error) {
+      logError(error as Error, 'getUserTier');
+    }
+    return this.inMemoryStorage.get(key) || null;
+  }
+
   // Cleanup
   async disconnect(): Promise<void> {
     if (this.isRedisAvailable && this.redis) {
@@ -216,6 +883,7 @@ class RedisService {
 
   async clearUserAlerts(userId: number): Promise<void> {
     const pattern = this.getKey('alert', userId, '*');
+    const alerts = await this.getPriceAlerts(userId);
     
     try {
       if (this.isRedisAvailable && this.redis) {
@@ -227,7 +895,7 @@ class RedisService {
       
       // Clear from in-memory storage
       for (const key of this.inMemoryStorage.keys()) {
-        if (key.startsWith(`alert:${userId}`)) {
+        if (key.startsWith(`alert:${userId}:`)) {
           this.inMemoryStorage.delete(key);
         }
       }
@@ -235,11 +903,96 @@ class RedisService {
       logError(error as Error, 'clearUserAlerts');
       // Clear only from in-memory as fallback
       for (const key of this.inMemoryStorage.keys()) {
-        if (key.startsWith(`alert:${userId}`)) {
+        if (key.startsWith(`alert:${userId}:`)) {
           this.inMemoryStorage.delete(key);
         }
       }
     }
+
+    for (const alert of alerts) {
+      await this.removeAlertIndexEntry(alert);
+    }
+  }
+
+  // Index Methods (sets in Redis, Set objects in memory)
+  private async addToIndex(key: string, member: string): Promise<void> {
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.sadd(key, member);
+        return;
+      }
+    } catch (error) {
+      logError(error as Error, 'addToIndex');
+    }
+    const members: Set<string> = this.inMemoryStorage.get(key) || new Set();
+    members.add(member);
+    this.inMemoryStorage.set(key, members);
+  }
+
+  private async removeFromIndex(key: string, member: string): Promise<void> {
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.srem(key, member);
+        return;
+      }
+    } catch (error) {
+      logError(error as Error, 'removeFromIndex');
+    }
+    const members: Set<string> | undefined = this.inMemoryStorage.get(key);
+    members?.delete(member);
+  }
+
+  private async getIndexMembers(key: string): Promise<string[]> {
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        return await this.redis.smembers(key);
+      }
+    } catch (error) {
+      logError(error as Error, 'getIndexMembers');
+    }
+    const members: Set<string> | undefined = this.inMemoryStorage.get(key);
+    return members ? Array.from(members) : [];
+  }
+
+  // List Methods (newest first, capped at maxLength)
+  private async pushToList<T>(key: string, value: T, maxLength: number): Promise<void> {
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        await this.redis.lpush(key, JSON.stringify(value));
+        await this.redis.ltrim(key, 0, maxLength - 1);
+        return;
+      }
+    } catch (error) {
+      logError(error as Error, 'pushToList');
+    }
+    const items: T[] = this.inMemoryStorage.get(key) || [];
+    items.unshift(value);
+    this.inMemoryStorage.set(key, items.slice(0, maxLength));
+  }
+
+  private async getListRange<T>(key: string, offset: number, limit: number): Promise<T[]> {
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        const items = await this.redis.lrange(key, offset, offset + limit - 1);
+        return items.map((item) => JSON.parse(item));
+      }
+    } catch (error) {
+      logError(error as Error, 'getListRange');
+    }
+    const items: T[] = this.inMemoryStorage.get(key) || [];
+    return items.slice(offset, offset + limit);
+  }
+
+  private async getListLength(key: string): Promise<number> {
+    try {
+      if (this.isRedisAvailable && this.redis) {
+        return await this.redis.llen(key);
+      }
+    } catch (error) {
+      logError(error as Error, 'getListLength');
+    }
+    const items: unknown[] = this.inMemoryStorage.get(key) || [];
+    return items.length;
   }
 }
 
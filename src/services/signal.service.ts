@@ -0,0 +1,127 @@
+import { randomUUID } from 'crypto';
+import cron, { ScheduledTask } from 'node-cron';
+import { cryptoService } from './crypto.service';
+import { redisService } from './redis.service';
+import { log, logError } from '../utils/logger';
+import { computeSignalStats, gradeSignal } from '../utils/signal-grading';
+import { intervalToMs, isKlineInterval } from '../utils/intervals';
+import { TradingSignal } from '../types/ai';
+import { TechnicalSnapshot } from '../types/market';
+import { SignalRecord, SignalStats } from '../types/signal';
+
+class SignalService {
+  private readonly HORIZON_CANDLES = 24; // A 1h signal gets a day to play out, a 1d signal ~3 weeks
+  private readonly MAX_CANDLES = 1000;
+  private task: ScheduledTask | null = null;
+
+  start(): void {
+    // Every 15 minutes; grading only looks at closed candles, so running more often gains little
+    this.task = cron.schedule('*/15 * * * *', () => {
+      this.evaluateOpenSignals().catch((error) => logError(error as Error, 'SignalService.evaluate'));
+    });
+    log.info('Signal evaluator scheduled');
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  async recordSignal(
+    signal: TradingSignal,
+    technicals: TechnicalSnapshot,
+    userId?: number
+  ): Promise<SignalRecord> {
+    const issuedAt = Date.now();
+    const intervalMs = isKlineInterval(technicals.interval) ? intervalToMs(technicals.interval) : 24 * 60 * 60 * 1000;
+    const record: SignalRecord = {
+      ...signal,
+      id: randomUUID().slice(0, 8),
+      coinId: technicals.symbol,
+      timeframe: technicals.interval,
+      issuedAt,
+      priceAtIssue: technicals.price,
+      userId,
+      expiresAt: issuedAt + intervalMs * this.HORIZON_CANDLES,
+      outcome: 'open',
+    };
+
+    await redisService.setSignalRecord(record);
+    log.debug(`Recorded ${record.signal} signal ${record.id} for ${record.coinId} ${record.timeframe}`);
+    return record;
+  }
+
+  async evaluateOpenSignals(now: number = Date.now()): Promise<number> {
+    const open = await redisService.getSignalRecords(true);
+
+    // One candle fetch per series, sized for the oldest open signal in it
+    const bySeries = new Map<string, SignalRecord[]>();
+    for (const record of open) {
+      const key = `${record.coinId}|${record.timeframe}`;
+      bySeries.set(key, [...(bySeries.get(key) || []), record]);
+    }
+
+    let resolved = 0;
+    for (const records of bySeries.values()) {
+      const { coinId, timeframe } = records[0];
+      if (!isKlineInterval(timeframe)) continue;
+
+      try {
+        const intervalMs = intervalToMs(timeframe);
+        const oldest = Math.min(...records.map((record) => record.issuedAt));
+        const limit = Math.min(this.MAX_CANDLES, Math.ceil((now - oldest) / intervalMs) + 2);
+        const candles = await cryptoService.getKlines(coinId, timeframe, limit);
+
+        for (const record of records) {
+          const update = gradeSignal(record, candles, intervalMs, now);
+          if (update) {
+            await redisService.setSignalRecord({ ...record, ...update });
+            resolved++;
+          }
+        }
+      } catch (error) {
+        logError(error as Error, `SignalService.evaluate(${coinId} ${timeframe})`);
+      }
+    }
+
+    if (resolved > 0) {
+      log.info(`Graded ${resolved} signal(s)`);
+    }
+    return resolved;
+  }
+
+  async getRecentSignals(limit: number = 10, userId?: number): Promise<SignalRecord[]> {
+    const records = await redisService.getSignalRecords();
+    return records
+      .filter((record) => userId === undefined || record.userId === userId)
+      .slice(-limit)
+      .reverse();
+  }
+
+  // Overall stats plus one entry per coin and timeframe, optionally narrowed to one of each
+  async getStats(filter: { coinId?: string; timeframe?: string } = {}): Promise<{
+    overall: SignalStats;
+    series: SignalStats[];
+  }> {
+    const records = (await redisService.getSignalRecords()).filter(
+      (record) =>
+        (!filter.coinId || record.coinId === filter.coinId) &&
+        (!filter.timeframe || record.timeframe === filter.timeframe)
+    );
+
+    const groups = new Map<string, SignalRecord[]>();
+    for (const record of records) {
+      const key = `${record.coinId} ${record.timeframe}`;
+      groups.set(key, [...(groups.get(key) || []), record]);
+    }
+
+    return {
+      overall: computeSignalStats('all', records),
+      series: Array.from(groups.entries())
+        .map(([key, group]) => computeSignalStats(key, group))
+        .sort((a, b) => b.total - a.total),
+    };
+  }
+}
+
+export const signalService = new SignalService();
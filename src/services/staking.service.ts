@@ -0,0 +1,325 @@
+import { ApiPromise } from '@polkadot/api';
+import cron, { ScheduledTask } from 'node-cron';
+import { polkadotService } from './polkadot.service';
+import { redisService } from './redis.service';
+import { webhookService } from './webhook.service';
+import { log, logError } from '../utils/logger';
+import { detectChain, fromPlanck, toChainAddress } from '../utils/polkadot';
+import { diffValidators, erasPerYear, estimateApy, perbillToPercent } from '../utils/staking';
+import { SubstrateChain } from '../types/polkadot';
+import {
+  NominatedValidator,
+  StakingDashboard,
+  StakingWatch,
+  ValidatorChange,
+  ValidatorState,
+} from '../types/staking';
+
+type StakingNotifier = (userId: number, watch: StakingWatch, changes: ValidatorChange[]) => Promise<void>;
+
+class StakingService {
+  private readonly MAX_WATCHES = 5;
+  // Validator sets rotate per session and commission can change any time; half-hourly is plenty
+  private readonly CHECK_CRON = '*/30 * * * *';
+  private task: ScheduledTask | null = null;
+  private notifiers: StakingNotifier[] = [];
+  private checking = false;
+
+  start(): void {
+    this.task = cron.schedule(this.CHECK_CRON, () => {
+      this.check().catch((error) => logError(error as Error, 'StakingService.check'));
+    });
+    log.info('Staking watch checking nominated validators every 30 min');
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  onValidatorChange(notifier: StakingNotifier): void {
+    this.notifiers.push(notifier);
+  }
+
+  async getDashboard(chain: SubstrateChain, address: string): Promise<StakingDashboard> {
+    try {
+      const api = await polkadotService.getApi(chain);
+      const { token, decimals } = polkadotService.getToken(api);
+      const stash = toChainAddress(address, chain);
+      const [activeEraInfo, controller, nominations, progress] = await Promise.all([
+        api.query.staking.activeEra(),
+        api.query.staking.bonded(stash),
+        api.query.staking.nominators(stash),
+        api.derive.session.progress(),
+      ]);
+      const activeEra = activeEraInfo.unwrapOrDefault().index.toNumber();
+      const ledger = controller.isSome ? (await api.query.staking.ledger(controller.unwrap())).unwrapOr(null) : null;
+      const targets = nominations.isSome ? nominations.unwrap().targets.map((target) => target.toString()) : [];
+
+      const [validators, points, slashes, pending, apyBase] = await Promise.all([
+        this.getValidatorStates(api, targets),
+        api.query.staking.erasRewardPoints(activeEra),
+        api.derive.staking.ownSlashes(stash),
+        this.getPendingRewards(api, stash, decimals),
+        this.getEraYield(api, activeEra, progress.eraLength.toNumber()),
+      ]);
+
+      const pointsByValidator = new Map<string, number>();
+      points.individual.forEach((value, key) => pointsByValidator.set(key.toString(), value.toNumber()));
+
+      const nominated: NominatedValidator[] = [];
+      for (const target of targets) {
+        nominated.push({
+          address: target,
+          ...validators[target],
+          eraPoints: pointsByValidator.get(target) ?? 0,
+          ...(await this.getLastSlash(api, target, decimals)),
+        });
+      }
+
+      // Only active validators pay out, so their commission is what the stash actually pays
+      const paying = nominated.filter((validator) => validator.active);
+      const commissionSource = paying.length > 0 ? paying : nominated;
+      const commission = commissionSource.length > 0
+        ? commissionSource.reduce((sum, validator) => sum + validator.commission, 0) / commissionSource.length
+        : 0;
+
+      return {
+        chain,
+        stash,
+        token,
+        bonded: ledger ? fromPlanck(ledger.active.unwrap(), decimals) : 0,
+        totalBonded: ledger ? fromPlanck(ledger.total.unwrap(), decimals) : 0,
+        unlocking: ledger
+          ? ledger.unlocking.reduce((sum, chunk) => sum + fromPlanck(chunk.value.unwrap(), decimals), 0)
+          : 0,
+        activeEra,
+        submittedEra: nominations.isSome ? nominations.unwrap().submittedIn.toNumber() : null,
+        nominations: nominated,
+        estimatedApy: apyBase ? estimateApy(apyBase.payout, apyBase.totalStake, apyBase.eras, commission) : null,
+        pendingRewards: pending?.amount ?? null,
+        pendingEras: pending?.eras ?? 0,
+        slashes: slashes
+          .filter((slash) => !slash.total.isZero())
+          .map((slash) => ({ era: slash.era.toNumber(), amount: fromPlanck(slash.total, decimals) })),
+      };
+    } catch (error) {
+      logError(error as Error, 'StakingService.getDashboard');
+      throw error;
+    }
+  }
+
+  async getWatches(userId: number): Promise<StakingWatch[]> {
+    return redisService.getStakingWatches(userId);
+  }
+
+  async watch(userId: number, address: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const chain = detectChain(address);
+      if (!chain) {
+        return { success: false, message: "That isn't a Polkadot or Kusama address." };
+      }
+
+      const stash = toChainAddress(address, chain);
+      const watches = await this.getWatches(userId);
+      if (watches.some((watch) => watch.chain === chain && watch.stash === stash)) {
+        return { success: false, message: 'You already get validator alerts for that stash.' };
+      }
+      if (watches.length >= this.MAX_WATCHES) {
+        return { success: false, message: `You can get validator alerts for at most ${this.MAX_WATCHES} stashes.` };
+      }
+
+      const validators = await this.readNominations(chain, stash);
+      if (Object.keys(validators).length === 0) {
+        return { success: false, message: "That stash doesn't nominate any validators." };
+      }
+
+      await redisService.setStakingWatches(userId, [
+        ...watches,
+        { userId, chain, stash, validators, createdAt: Date.now() },
+      ]);
+      return {
+        success: true,
+        message: `You'll be told when any of its ${Object.keys(validators).length} validators goes inactive or raises its commission.`,
+      };
+    } catch (error) {
+      logError(error as Error, 'StakingService.watch');
+      throw error;
+    }
+  }
+
+  async unwatch(userId: number, address: string): Promise<boolean> {
+    const chain = detectChain(address);
+    if (!chain) return false;
+
+    const stash = toChainAddress(address, chain);
+    const watches = await this.getWatches(userId);
+    const remaining = watches.filter((watch) => !(watch.chain === chain && watch.stash === stash));
+    if (remaining.length === watches.length) {
+      return false;
+    }
+    await redisService.setStakingWatches(userId, remaining);
+    return true;
+  }
+
+  // Returns the number of alerts sent. Each stash is read once however many users watch it.
+  async check(): Promise<number> {
+    if (this.checking) return 0;
+    this.checking = true;
+
+    try {
+      const watches = await redisService.getAllStakingWatches();
+      const current = new Map<string, Record<string, ValidatorState>>();
+      const checkedUsers = new Set<number>();
+      let sent = 0;
+
+      for (const watch of watches) {
+        const key = `${watch.chain}:${watch.stash}`;
+        let validators = current.get(key);
+        if (!validators) {
+          try {
+            validators = await this.readNominations(watch.chain, watch.stash);
+          } catch (error) {
+            log.warn(`Staking check skipped ${key}: ${(error as Error).message}`);
+            continue;
+          }
+          current.set(key, validators);
+        }
+
+        const changes = diffValidators(watch.validators, validators);
+        if (changes.length > 0) {
+          log.info(`Staking watch: ${changes.length} validator change(s) for ${key}`);
+          await this.deliver({ ...watch, validators }, changes);
+          sent++;
+        }
+        checkedUsers.add(watch.userId);
+      }
+
+      // The reads above are slow, so each user's list is re-read before writing: stashes watched or
+      // unwatched meanwhile stay that way, and only the validators of stashes still there are updated
+      for (const userId of checkedUsers) {
+        const latest = await redisService.getStakingWatches(userId);
+        await redisService.setStakingWatches(
+          userId,
+          latest.map((watch) => {
+            const validators = current.get(`${watch.chain}:${watch.stash}`);
+            return validators ? { ...watch, validators } : watch;
+          })
+        );
+      }
+      return sent;
+    } catch (error) {
+      logError(error as Error, 'StakingService.check');
+      throw error;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async deliver(watch: StakingWatch, changes: ValidatorChange[]): Promise<void> {
+    await webhookService.sendStakingAlert(watch.userId, watch, changes);
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier(watch.userId, watch, changes);
+      } catch (error) {
+        logError(error as Error, 'StakingService.notify');
+      }
+    }
+  }
+
+  private async readNominations(chain: SubstrateChain, stash: string): Promise<Record<string, ValidatorState>> {
+    const api = await polkadotService.getApi(chain);
+    const nominations = await api.query.staking.nominators(stash);
+    if (nominations.isNone) return {};
+
+    const states = await this.getValidatorStates(api, nominations.unwrap().targets.map((target) => target.toString()));
+    return Object.fromEntries(
+      Object.entries(states).map(([address, { active, commission }]) => [address, { active, commission }])
+    );
+  }
+
+  // Active means in the current session's validator set, i.e. producing blocks and earning points
+  private async getValidatorStates(
+    api: ApiPromise,
+    targets: string[]
+  ): Promise<Record<string, ValidatorState & { blocked: boolean }>> {
+    if (targets.length === 0) return {};
+
+    const [sessionValidators, prefs] = await Promise.all([
+      api.query.session.validators(),
+      api.query.staking.validators.multi(targets),
+    ]);
+    const active = new Set(sessionValidators.map((validator) => validator.toString()));
+
+    return Object.fromEntries(
+      targets.map((target, index) => [
+        target,
+        {
+          active: active.has(target),
+          commission: perbillToPercent(prefs[index].commission.unwrap().toNumber()),
+          blocked: prefs[index].blocked.isTrue,
+        },
+      ])
+    );
+  }
+
+  // Slashing spans remember the era of a validator's last non-zero slash; the amount is only
+  // kept for a limited number of eras, after which it reads as null
+  private async getLastSlash(
+    api: ApiPromise,
+    validator: string,
+    decimals: number
+  ): Promise<{ lastSlashEra: number | null; lastSlashAmount: number | null }> {
+    const spans = await api.query.staking.slashingSpans(validator);
+    const era = spans.isSome ? spans.unwrap().lastNonzeroSlash.toNumber() : 0;
+    if (era === 0) {
+      return { lastSlashEra: null, lastSlashAmount: null };
+    }
+
+    const slash = await api.query.staking.validatorSlashInEra(era, validator);
+    return { lastSlashEra: era, lastSlashAmount: slash.isSome ? fromPlanck(slash.unwrap()[1], decimals) : null };
+  }
+
+  // Walks every era the chain keeps, so it's the slow part of the dashboard; a failure leaves it out
+  private async getPendingRewards(
+    api: ApiPromise,
+    stash: string,
+    decimals: number
+  ): Promise<{ amount: number; eras: number } | null> {
+    try {
+      const rewards = (await api.derive.staking.stakerRewards(stash)).filter((reward) => !reward.isEmpty);
+      const amount = rewards.reduce(
+        (sum, reward) =>
+          sum + Object.values(reward.validators).reduce((share, { value }) => share + fromPlanck(value, decimals), 0),
+        0
+      );
+      return { amount, eras: rewards.length };
+    } catch (error) {
+      log.debug(`Pending rewards unavailable for ${stash}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  // The last completed era's payout against the stake behind it
+  private async getEraYield(
+    api: ApiPromise,
+    activeEra: number,
+    eraLength: number
+  ): Promise<{ payout: number; totalStake: number; eras: number } | null> {
+    if (activeEra === 0) return null;
+
+    const [payout, totalStake] = await Promise.all([
+      api.query.staking.erasValidatorReward(activeEra - 1),
+      api.query.staking.erasTotalStake(activeEra - 1),
+    ]);
+    if (payout.isNone) return null;
+
+    return {
+      payout: fromPlanck(payout.unwrap(), 0),
+      totalStake: fromPlanck(totalStake, 0),
+      eras: erasPerYear(eraLength, api.consts.babe.expectedBlockTime.toNumber()),
+    };
+  }
+}
+
+export const stakingService = new StakingService();
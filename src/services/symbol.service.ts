@@ -0,0 +1,153 @@
+import axios from 'axios';
+import { config } from '../config/config';
+import { redisService } from './redis.service';
+import { log, logError } from '../utils/logger';
+
+export interface CoinInfo {
+  id: string;
+  symbol: string;
+  name: string;
+}
+
+export type SymbolResolution =
+  | { status: 'resolved'; coin: CoinInfo }
+  | { status: 'ambiguous'; candidates: CoinInfo[] }
+  | { status: 'not_found' };
+
+class SymbolService {
+  private readonly CACHE_KEY = 'coingecko:coin_list';
+  private readonly CACHE_TTL = 86400; // 24 hours cache
+  private readonly MAX_CANDIDATES = 6;
+  private readonly RETRY_INTERVAL = 5 * 60 * 1000; // Back off after a failed list download
+
+  // Tickers shared by many tokens resolve to the asset people almost always mean
+  private readonly aliases: Record<string, string> = {
+    btc: 'bitcoin',
+    xbt: 'bitcoin',
+    eth: 'ethereum',
+    dot: 'polkadot',
+    ksm: 'kusama',
+    bnb: 'binancecoin',
+    sol: 'solana',
+    usdt: 'tether',
+    usdc: 'usd-coin',
+    xrp: 'ripple',
+    ada: 'cardano',
+    doge: 'dogecoin',
+    avax: 'avalanche-2',
+    link: 'chainlink',
+    matic: 'matic-network',
+    ltc: 'litecoin',
+    trx: 'tron',
+    atom: 'cosmos',
+    uni: 'uniswap',
+  };
+
+  private coins: Map<string, CoinInfo> = new Map();
+  private bySymbol: Map<string, CoinInfo[]> = new Map();
+  private byName: Map<string, CoinInfo[]> = new Map();
+  private loading: Promise<void> | null = null;
+  private lastLoadAttempt = 0;
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.coins.size > 0) return;
+    if (!this.loading) {
+      if (Date.now() - this.lastLoadAttempt < this.RETRY_INTERVAL) return;
+      this.lastLoadAttempt = Date.now();
+      this.loading = this.loadCoinList().finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  private async loadCoinList(): Promise<void> {
+    try {
+      let list: CoinInfo[];
+      const cached = await redisService.getCache(this.CACHE_KEY);
+      if (cached) {
+        list = JSON.parse(cached);
+      } else {
+        const response = await axios.get<CoinInfo[]>(`${config.marketData.coingeckoUrl}/coins/list`);
+        list = response.data;
+        await redisService.setCacheWithExpiry(this.CACHE_KEY, JSON.stringify(list), this.CACHE_TTL);
+      }
+
+      this.indexCoins(list);
+      log.info(`Loaded ${list.length} coins into the symbol registry`);
+    } catch (error) {
+      logError(error as Error, 'SymbolService.loadCoinList');
+    }
+  }
+
+  private indexCoins(list: CoinInfo[]): void {
+    this.coins.clear();
+    this.bySymbol.clear();
+    this.byName.clear();
+
+    for (const coin of list) {
+      this.coins.set(coin.id, coin);
+      this.addToIndex(this.bySymbol, coin.symbol.toLowerCase(), coin);
+      this.addToIndex(this.byName, coin.name.toLowerCase(), coin);
+    }
+  }
+
+  private addToIndex(index: Map<string, CoinInfo[]>, key: string, coin: CoinInfo): void {
+    const entries = index.get(key);
+    if (entries) {
+      entries.push(coin);
+    } else {
+      index.set(key, [coin]);
+    }
+  }
+
+  async resolve(input: string): Promise<SymbolResolution> {
+    const query = input.trim().toLowerCase();
+    if (!query) {
+      return { status: 'not_found' };
+    }
+
+    await this.ensureLoaded();
+
+    // Without the coin list, fall back to aliases and treat anything else as an id
+    if (this.coins.size === 0) {
+      const id = this.aliases[query] || query;
+      return { status: 'resolved', coin: { id, symbol: query, name: input.trim() } };
+    }
+
+    const exact = this.coins.get(query) || this.coins.get(this.aliases[query]);
+    if (exact) {
+      return { status: 'resolved', coin: exact };
+    }
+
+    const bySymbol = this.bySymbol.get(query) || [];
+    if (bySymbol.length === 1) {
+      return { status: 'resolved', coin: bySymbol[0] };
+    }
+
+    const byName = this.byName.get(query) || [];
+    if (byName.length === 1) {
+      return { status: 'resolved', coin: byName[0] };
+    }
+
+    const candidates = [...bySymbol, ...byName];
+    if (candidates.length > 0) {
+      return { status: 'ambiguous', candidates: candidates.slice(0, this.MAX_CANDIDATES) };
+    }
+
+    return { status: 'not_found' };
+  }
+
+  // Best-effort id for code paths that can't ask the user: ambiguous or unknown inputs pass through
+  async toCoinId(input: string): Promise<string> {
+    const resolution = await this.resolve(input);
+    return resolution.status === 'resolved' ? resolution.coin.id : input;
+  }
+
+  async getCoin(id: string): Promise<CoinInfo | null> {
+    await this.ensureLoaded();
+    return this.coins.get(id) || null;
+  }
+}
+
+export const symbolService = new SymbolService();
@@ -0,0 +1,60 @@
+import { cryptoService } from './crypto.service';
+import { logError } from '../utils/logger';
+import { buildTechnicalSnapshot } from '../utils/indicators';
+import { KlineInterval } from '../utils/intervals';
+import { TechnicalSnapshot } from '../types/market';
+
+class TechnicalAnalysisService {
+  // Enough history for the 200-period SMA
+  private readonly CANDLE_LIMIT = 200;
+
+  async analyze(coinId: string, interval: KlineInterval = '1d'): Promise<TechnicalSnapshot> {
+    try {
+      const candles = await cryptoService.getKlines(coinId, interval, this.CANDLE_LIMIT);
+      return buildTechnicalSnapshot(coinId, interval, candles);
+    } catch (error) {
+      logError(error as Error, 'TechnicalAnalysisService.analyze');
+      throw error;
+    }
+  }
+
+  // Plain-text rendering shared by the /ta reply and the AI prompts
+  format(snapshot: TechnicalSnapshot): string {
+    const price = (value: number | null): string => (value === null ? 'n/a' : `$${this.formatPrice(value)}`);
+    const number = (value: number | null, digits: number = 2): string =>
+      value === null ? 'n/a' : value.toFixed(digits);
+    const levels = (values: number[]): string =>
+      values.length > 0 ? values.map((value) => `$${this.formatPrice(value)}`).join(', ') : 'none found';
+
+    const lines = [
+      `Price: ${price(snapshot.price)} (${snapshot.candleCount} ${snapshot.interval} candles)`,
+      `Trend: ${snapshot.trend}`,
+      `SMA 20/50/200: ${price(snapshot.sma20)} / ${price(snapshot.sma50)} / ${price(snapshot.sma200)}`,
+      `EMA 12/26: ${price(snapshot.ema12)} / ${price(snapshot.ema26)}`,
+      `RSI(14): ${number(snapshot.rsi14, 1)}`,
+      snapshot.macd
+        ? `MACD(12,26,9): ${number(snapshot.macd.macd, 4)}, signal ${number(snapshot.macd.signal, 4)}, ` +
+          `histogram ${number(snapshot.macd.histogram, 4)}`
+        : 'MACD(12,26,9): n/a',
+      snapshot.bollinger
+        ? `Bollinger(20,2): ${price(snapshot.bollinger.lower)} – ${price(snapshot.bollinger.upper)}`
+        : 'Bollinger(20,2): n/a',
+      `ATR(14): ${price(snapshot.atr14)}` +
+        (snapshot.atr14 !== null ? ` (${((snapshot.atr14 / snapshot.price) * 100).toFixed(2)}% of price)` : ''),
+      `VWAP: ${price(snapshot.vwap)}`,
+      snapshot.pivots
+        ? `Pivots: S2 ${price(snapshot.pivots.s2)}, S1 ${price(snapshot.pivots.s1)}, ` +
+          `P ${price(snapshot.pivots.pivot)}, R1 ${price(snapshot.pivots.r1)}, R2 ${price(snapshot.pivots.r2)}`
+        : 'Pivots: n/a',
+      `Support: ${levels(snapshot.support)}`,
+      `Resistance: ${levels(snapshot.resistance)}`,
+    ];
+    return lines.join('\n');
+  }
+
+  private formatPrice(value: number): string {
+    return value >= 1 ? value.toFixed(2) : value.toPrecision(4);
+  }
+}
+
+export const technicalAnalysisService = new TechnicalAnalysisService();
@@ -0,0 +1,286 @@
+import { randomUUID } from 'crypto';
+import { config } from '../config/config';
+import { cryptoService } from './crypto.service';
+import { redisService } from './redis.service';
+import { symbolService } from './symbol.service';
+import { log, logError } from '../utils/logger';
+import { BinanceTradingClient } from '../providers/binance-trading.provider';
+import { ExchangeOrder, OrderRequest, PendingOrder, TradingLimits } from '../types/trading';
+
+export type TradingErrorReason = 'halted' | 'limit' | 'expired' | 'invalid';
+
+export class TradingError extends Error {
+  constructor(readonly reason: TradingErrorReason, message: string) {
+    super(message);
+    this.name = 'TradingError';
+  }
+}
+
+class TradingService {
+  private readonly QUOTE_ASSET = 'USDT';
+  private readonly USAGE_TTL = 2 * 24 * 60 * 60;
+  private client: BinanceTradingClient | null = null;
+  // Resting dry-run limit orders, so cancel and status behave like they would on the exchange
+  private dryRunOrders: Map<number, ExchangeOrder> = new Map();
+  private nextDryRunId = 1;
+
+  private getClient(): BinanceTradingClient {
+    if (!this.client) {
+      const { apiKey, apiSecret } = config.apis.binance;
+      if (!apiKey || !apiSecret) {
+        throw new TradingError('invalid', 'Binance API credentials are not configured');
+      }
+      this.client = new BinanceTradingClient(config.trading.baseUrl, apiKey, apiSecret);
+    }
+    return this.client;
+  }
+
+  async toPair(coinId: string): Promise<string> {
+    const coin = await symbolService.getCoin(coinId);
+    const ticker = (coin?.symbol || coinId).toUpperCase();
+    if (ticker === this.QUOTE_ASSET) {
+      throw new TradingError('invalid', `${ticker} is the quote asset and can't be traded against itself`);
+    }
+    return `${ticker}${this.QUOTE_ASSET}`;
+  }
+
+  async isHalted(): Promise<boolean> {
+    return config.trading.killSwitch || (await redisService.isTradingHalted());
+  }
+
+  async setHalted(halted: boolean, userId: number): Promise<void> {
+    await redisService.setTradingHalted(halted);
+    log.warn(`Trading kill switch ${halted ? 'engaged' : 'released'} by user ${userId}`);
+  }
+
+  async getLimits(): Promise<TradingLimits> {
+    const usage = await redisService.getUsage(this.getUsageKey());
+    return {
+      mode: config.trading.mode,
+      halted: await this.isHalted(),
+      maxOrderNotional: config.trading.maxOrderNotional,
+      maxDailyNotional: config.trading.maxDailyNotional,
+      usedToday: usage.notional || 0,
+    };
+  }
+
+  // Step 0: validate and price the order, then park it until the user confirms twice
+  async prepareOrder(
+    userId: number,
+    input: { coinId: string; side: OrderRequest['side']; type: OrderRequest['type']; quantity: number; price?: number }
+  ): Promise<PendingOrder> {
+    try {
+      if (!(input.quantity > 0)) {
+        throw new TradingError('invalid', 'Quantity must be positive');
+      }
+      if (input.type === 'LIMIT' && !(input.price !== undefined && input.price > 0)) {
+        throw new TradingError('invalid', 'A limit order needs a positive price');
+      }
+
+      const request: OrderRequest = {
+        pair: await this.toPair(input.coinId),
+        side: input.side,
+        type: input.type,
+        quantity: input.quantity,
+        price: input.type === 'LIMIT' ? input.price : undefined,
+      };
+
+      const market = (await cryptoService.getPrice(input.coinId))?.price;
+      if (market === undefined && request.price === undefined) {
+        throw new TradingError('invalid', `No market price available for ${request.pair}`);
+      }
+
+      // A limit that crosses the market fills at market, e.g. a sell priced far below it, so the
+      // order is valued at whichever is higher
+      const notional = request.quantity * Math.max(request.price ?? 0, market ?? 0);
+      await this.assertTradable(notional);
+
+      const now = Date.now();
+      const pending: PendingOrder = {
+        id: randomUUID().slice(0, 8),
+        userId,
+        request,
+        notional,
+        mode: config.trading.mode,
+        reviewed: false,
+        createdAt: now,
+        expiresAt: now + config.trading.confirmTtlSeconds * 1000,
+      };
+      await this.savePending(pending);
+      return pending;
+    } catch (error) {
+      if (!(error instanceof TradingError)) {
+        logError(error as Error, 'TradingService.prepareOrder');
+      }
+      throw error;
+    }
+  }
+
+  // Step 1: the user has seen the summary once; the order can now be placed
+  async reviewOrder(userId: number, pendingId: string): Promise<PendingOrder> {
+    const pending = await this.getPending(userId, pendingId);
+    const reviewed = { ...pending, reviewed: true };
+    await this.savePending(reviewed);
+    return reviewed;
+  }
+
+  // Step 2: limits and the kill switch are checked again, since either may have changed meanwhile
+  async confirmOrder(userId: number, pendingId: string): Promise<ExchangeOrder> {
+    const pending = await this.getPending(userId, pendingId);
+    if (!pending.reviewed) {
+      throw new TradingError('invalid', 'Order has not been reviewed yet');
+    }
+    // One-shot: of two concurrent taps only the one that removes the pending order places it
+    if (!(await redisService.deleteCache(this.getPendingKey(userId, pendingId)))) {
+      throw new TradingError('expired', 'Order was already confirmed');
+    }
+
+    try {
+      await this.assertTradable(pending.notional);
+      const usageKey = await this.reserveNotional(pending.notional);
+
+      let order: ExchangeOrder;
+      try {
+        order = pending.mode === 'dry_run'
+          ? await this.simulateOrder(pending)
+          : await this.getClient().placeOrder(pending.request, `st-${pending.id}`);
+      } catch (error) {
+        await redisService.incrementUsage(usageKey, { notional: -pending.notional }, this.USAGE_TTL);
+        throw error;
+      }
+
+      await redisService.incrementUsage(usageKey, { orders: 1 }, this.USAGE_TTL);
+      log.info(
+        `[${pending.mode}] ${pending.request.side} ${pending.request.quantity} ${pending.request.pair} ` +
+          `${pending.request.type} placed for user ${userId}: order ${order.orderId} ${order.status}`
+      );
+      return order;
+    } catch (error) {
+      logError(error as Error, 'TradingService.confirmOrder');
+      throw error;
+    }
+  }
+
+  async discardOrder(userId: number, pendingId: string): Promise<void> {
+    await redisService.deleteCache(this.getPendingKey(userId, pendingId));
+  }
+
+  async cancelOrder(pair: string, orderId: number): Promise<ExchangeOrder> {
+    if (config.trading.mode === 'dry_run') {
+      const order = this.dryRunOrders.get(orderId);
+      if (!order || order.pair !== pair) {
+        throw new TradingError('invalid', `No open dry-run order ${orderId} on ${pair}`);
+      }
+      this.dryRunOrders.delete(orderId);
+      return { ...order, status: 'CANCELED' };
+    }
+    return this.getClient().cancelOrder(pair, orderId);
+  }
+
+  async getOrder(pair: string, orderId: number): Promise<ExchangeOrder> {
+    if (config.trading.mode === 'dry_run') {
+      const order = this.dryRunOrders.get(orderId);
+      if (!order || order.pair !== pair) {
+        throw new TradingError('invalid', `Unknown dry-run order ${orderId} on ${pair}`);
+      }
+      return order;
+    }
+    return this.getClient().getOrder(pair, orderId);
+  }
+
+  async getOpenOrders(pair?: string): Promise<ExchangeOrder[]> {
+    if (config.trading.mode === 'dry_run') {
+      return Array.from(this.dryRunOrders.values()).filter((order) => !pair || order.pair === pair);
+    }
+    return this.getClient().getOpenOrders(pair);
+  }
+
+  private async assertTradable(notional: number): Promise<void> {
+    if (await this.isHalted()) {
+      throw new TradingError('halted', 'Trading is halted by the kill switch');
+    }
+    if (notional > config.trading.maxOrderNotional) {
+      throw new TradingError(
+        'limit',
+        `Order value $${notional.toFixed(2)} exceeds the per-order limit of $${config.trading.maxOrderNotional.toFixed(2)}`
+      );
+    }
+    const { usedToday, maxDailyNotional } = await this.getLimits();
+    if (usedToday + notional > maxDailyNotional) {
+      throw new TradingError(
+        'limit',
+        `Order value $${notional.toFixed(2)} would exceed today's limit ` +
+          `($${usedToday.toFixed(2)} of $${maxDailyNotional.toFixed(2)} used)`
+      );
+    }
+  }
+
+  // Counts the order against today's limit before it's placed, so concurrent confirms can't each
+  // squeeze under it; placement failures give the amount back. Returns the usage key it went to.
+  private async reserveNotional(notional: number): Promise<string> {
+    const key = this.getUsageKey();
+    const { notional: usedToday } = await redisService.incrementUsage(key, { notional }, this.USAGE_TTL);
+    if (usedToday > config.trading.maxDailyNotional) {
+      await redisService.incrementUsage(key, { notional: -notional }, this.USAGE_TTL);
+      throw new TradingError(
+        'limit',
+        `Order value $${notional.toFixed(2)} would exceed today's limit ` +
+          `($${(usedToday - notional).toFixed(2)} of $${config.trading.maxDailyNotional.toFixed(2)} used)`
+      );
+    }
+    return key;
+  }
+
+  // Dry-run fills market orders at the feed price and rests limits that haven't crossed it
+  private async simulateOrder(pending: PendingOrder): Promise<ExchangeOrder> {
+    const { request } = pending;
+    const coinId = await symbolService.toCoinId(request.pair.slice(0, -this.QUOTE_ASSET.length));
+    const market = (await cryptoService.getPrice(coinId))?.price ?? pending.notional / request.quantity;
+    const crosses =
+      request.type === 'MARKET' ||
+      (request.side === 'BUY' ? (request.price as number) >= market : (request.price as number) <= market);
+
+    const order: ExchangeOrder = {
+      orderId: this.nextDryRunId++,
+      clientOrderId: `st-${pending.id}`,
+      pair: request.pair,
+      side: request.side,
+      type: request.type,
+      status: crosses ? 'FILLED' : 'NEW',
+      price: request.price ?? 0,
+      quantity: request.quantity,
+      executedQuantity: crosses ? request.quantity : 0,
+      quoteQuantity: crosses ? request.quantity * market : 0,
+      time: Date.now(),
+    };
+    if (!crosses) {
+      this.dryRunOrders.set(order.orderId, order);
+    }
+    return order;
+  }
+
+  private async getPending(userId: number, pendingId: string): Promise<PendingOrder> {
+    const data = await redisService.getCache(this.getPendingKey(userId, pendingId));
+    const pending: PendingOrder | null = data ? JSON.parse(data) : null;
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new TradingError('expired', 'This order confirmation has expired. Please start again.');
+    }
+    return pending;
+  }
+
+  private async savePending(pending: PendingOrder): Promise<void> {
+    const ttl = Math.max(1, Math.ceil((pending.expiresAt - Date.now()) / 1000));
+    await redisService.setCacheWithExpiry(this.getPendingKey(pending.userId, pending.id), JSON.stringify(pending), ttl);
+  }
+
+  private getPendingKey(userId: number, pendingId: string): string {
+    return `trade_pending:${userId}:${pendingId}`;
+  }
+
+  // Daily notional is account-wide: every admin trades the same Binance account
+  private getUsageKey(): string {
+    return `trading_usage:${new Date().toISOString().slice(0, 10)}`;
+  }
+}
+
+export const tradingService = new TradingService();
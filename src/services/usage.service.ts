@@ -0,0 +1,183 @@
+import { config } from '../config/config';
+import { redisService } from './redis.service';
+import { log, logError } from '../utils/logger';
+import {
+  TierQuota,
+  UsageBreakdown,
+  UsagePeriod,
+  UsageReport,
+  UsageTotals,
+  UserTier,
+} from '../types/usage';
+
+// USD per million tokens (input, output); unknown and local models are treated as free
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+const TRANSCRIPTION_COST_PER_MINUTE = 0.006;
+
+const USAGE_TTL: Record<UsagePeriod, number> = {
+  day: 40 * 24 * 60 * 60,
+  month: 400 * 24 * 60 * 60,
+};
+
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly tier: UserTier,
+    readonly period: UsagePeriod,
+    readonly used: number,
+    readonly limit: number,
+    readonly resetsAt: number
+  ) {
+    super(`AI ${period} quota reached for ${tier} tier (${used}/${limit} tokens)`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+class UsageService {
+  getPeriodKey(period: UsagePeriod, date: Date = new Date()): string {
+    const iso = date.toISOString();
+    return period === 'day' ? iso.slice(0, 10) : iso.slice(0, 7);
+  }
+
+  // Model ids often carry a date suffix (gpt-4o-2024-08-06); the offline mock reports mock:{model}
+  estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const key = Object.keys(MODEL_PRICING)
+      .sort((a, b) => b.length - a.length)
+      .find((candidate) => model.startsWith(candidate));
+    if (!key) return 0;
+    const pricing = MODEL_PRICING[key];
+    return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+  }
+
+  estimateTranscriptionCost(durationSeconds: number): number {
+    return (durationSeconds / 60) * TRANSCRIPTION_COST_PER_MINUTE;
+  }
+
+  async record(entry: {
+    userId?: number;
+    feature: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+  }): Promise<void> {
+    try {
+      const tokens = entry.promptTokens + entry.completionTokens;
+      const counters: Record<string, number> = {
+        requests: 1,
+        prompt: entry.promptTokens,
+        completion: entry.completionTokens,
+        cost: entry.cost,
+      };
+      for (const [prefix, name] of [['f', entry.feature], ['m', entry.model]]) {
+        counters[`${prefix}:${name}:requests`] = 1;
+        counters[`${prefix}:${name}:tokens`] = tokens;
+        counters[`${prefix}:${name}:cost`] = entry.cost;
+      }
+      // Background work (anomaly scans, digests) has no user and only shows up in the admin report
+      const user = entry.userId !== undefined ? String(entry.userId) : 'system';
+      const globalCounters = {
+        ...counters,
+        [`u:${user}:requests`]: 1,
+        [`u:${user}:tokens`]: tokens,
+        [`u:${user}:cost`]: entry.cost,
+      };
+
+      for (const period of ['day', 'month'] as UsagePeriod[]) {
+        const periodKey = this.getPeriodKey(period);
+        if (entry.userId !== undefined) {
+          await redisService.incrementUsage(`usage:${entry.userId}:${periodKey}`, counters, USAGE_TTL[period]);
+        }
+        await redisService.incrementUsage(`usage:all:${periodKey}`, globalCounters, USAGE_TTL[period]);
+      }
+    } catch (error) {
+      // Metering must never break the feature that was metered
+      logError(error as Error, 'UsageService.record');
+    }
+  }
+
+  async getTier(userId: number): Promise<UserTier> {
+    if (config.admin.userIds.includes(userId)) {
+      return 'unlimited';
+    }
+    const tier = await redisService.getUserTier(userId);
+    return tier === 'pro' || tier === 'unlimited' ? tier : 'free';
+  }
+
+  async setTier(userId: number, tier: UserTier): Promise<void> {
+    await redisService.setUserTier(userId, tier);
+    log.info(`User ${userId} moved to ${tier} tier`);
+  }
+
+  getQuota(tier: UserTier): TierQuota {
+    return config.usage.quotas[tier];
+  }
+
+  async assertWithinQuota(userId: number): Promise<void> {
+    const tier = await this.getTier(userId);
+    const quota = this.getQuota(tier);
+    const now = new Date();
+
+    for (const period of ['day', 'month'] as UsagePeriod[]) {
+      const limit = period === 'day' ? quota.daily : quota.monthly;
+      if (limit <= 0) continue;
+
+      const usage = await redisService.getUsage(`usage:${userId}:${this.getPeriodKey(period, now)}`);
+      const used = (usage.prompt || 0) + (usage.completion || 0);
+      if (used >= limit) {
+        const resetsAt = period === 'day'
+          ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+          : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+        throw new QuotaExceededError(tier, period, used, limit, resetsAt);
+      }
+    }
+  }
+
+  async getUserUsage(userId: number, period: UsagePeriod, date?: Date): Promise<UsageTotals> {
+    return this.toTotals(await redisService.getUsage(`usage:${userId}:${this.getPeriodKey(period, date)}`));
+  }
+
+  async getReport(period: UsagePeriod, date?: Date): Promise<UsageReport> {
+    const periodKey = this.getPeriodKey(period, date);
+    const counters = await redisService.getUsage(`usage:all:${periodKey}`);
+    const byUser = Object.entries(this.groupBy(counters, 'u'))
+      .map(([userId, breakdown]) => ({ userId, ...breakdown }))
+      .sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+
+    return { ...this.toTotals(counters), period, periodKey, byUser };
+  }
+
+  private toTotals(counters: Record<string, number>): UsageTotals {
+    const promptTokens = counters.prompt || 0;
+    const completionTokens = counters.completion || 0;
+    return {
+      requests: counters.requests || 0,
+      promptTokens,
+      completionTokens,
+      tokens: promptTokens + completionTokens,
+      cost: counters.cost || 0,
+      byFeature: this.groupBy(counters, 'f'),
+      byModel: this.groupBy(counters, 'm'),
+    };
+  }
+
+  // Fields look like "{prefix}:{name}:{metric}"; names may contain colons themselves
+  private groupBy(counters: Record<string, number>, prefix: string): Record<string, UsageBreakdown> {
+    const groups: Record<string, UsageBreakdown> = {};
+    for (const [field, value] of Object.entries(counters)) {
+      if (!field.startsWith(`${prefix}:`)) continue;
+      const metric = field.slice(field.lastIndexOf(':') + 1) as keyof UsageBreakdown;
+      const name = field.slice(prefix.length + 1, field.lastIndexOf(':'));
+      groups[name] = groups[name] || { requests: 0, tokens: 0, cost: 0 };
+      groups[name][metric] = value;
+    }
+    return groups;
+  }
+}
+
+export const usageService = new UsageService();
@@ -1,61 +1,35 @@
-import OpenAI from 'openai';
-import { config } from '../config/config';
 import { log, logError } from '../utils/logger';
-import { readFile, writeFile } from 'fs/promises';
-import { join } from 'path';
-import { tmpdir } from 'os';
-import { createReadStream } from 'fs';
+import { llmService } from './llm.service';
+import { symbolService } from './symbol.service';
+import { VoiceCommandSchema } from '../types/ai';
 
 class VoiceService {
-  private openai: OpenAI;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.apis.openai.apiKey,
-    });
-  }
-
-  async transcribeAudio(audioBuffer: Buffer): Promise<string> {
+  async transcribeAudio(audioBuffer: Buffer, userId?: number, durationSeconds?: number): Promise<string> {
     try {
-      log.debug('Starting audio transcription with OpenAI Whisper');
-      
-      // Create a temporary file
-      const tempFilePath = join(tmpdir(), `audio-${Date.now()}.ogg`);
-      await writeFile(tempFilePath, audioBuffer);
-
-      // Create transcription
-      const response = await this.openai.audio.transcriptions.create({
-        file: createReadStream(tempFilePath),
-        model: 'whisper-1',
-        language: 'en',
-      });
-
-      // Clean up temporary file
-      await writeFile(tempFilePath, '').catch(() => {});
+      log.debug('Starting audio transcription');
+      const text = await llmService.transcribe(audioBuffer, 'en', { userId, durationSeconds });
 
-      if (!response.text) {
+      if (!text) {
         throw new Error('No transcription generated');
       }
 
-      log.debug(`Transcription completed: ${response.text}`);
-      return response.text;
+      log.debug(`Transcription completed: ${text}`);
+      return text;
     } catch (error) {
       logError(error as Error, 'VoiceService.transcribeAudio');
       throw error;
     }
   }
 
-  async detectCommand(transcription: string): Promise<{
+  async detectCommand(transcription: string, userId?: number): Promise<{
     command: string;
     params: Record<string, string>;
   }> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a command parser for a cryptocurrency trading bot. Extract commands and parameters from user messages.
+      const result = await llmService.completeJson('intent', VoiceCommandSchema, [
+        {
+          role: 'system',
+          content: `You are a command parser for a cryptocurrency trading bot. Extract commands and parameters from user messages.
 Available commands:
 - price (params: symbol)
 - alert (params: symbol, price)
@@ -64,25 +38,21 @@ Available commands:
 - analysis (params: symbol)
 
 Return ONLY a JSON object with "command" and "params" fields. No other text.`
-          },
-          {
-            role: 'user',
-            content: transcription
-          }
-        ],
-        temperature: 0.1,
-        response_format: { type: 'json_object' }
-      });
+        },
+        {
+          role: 'user',
+          content: transcription
+        }
+      ], { temperature: 0.1, userId });
 
-      const result = JSON.parse(response.choices[0].message.content || '{}');
-      
-      if (!result.command) {
-        throw new Error('No command pattern matched');
+      const params = result.params;
+      if (params.symbol) {
+        params.symbol = await this.normalizeSymbol(params.symbol);
       }
 
       return {
         command: result.command,
-        params: result.params || {}
+        params
       };
     } catch (error) {
       logError(error as Error, 'VoiceService.detectCommand');
@@ -90,9 +60,10 @@ Return ONLY a JSON object with "command" and "params" fields. No other text.`
     }
   }
 
-  // Helper method to normalize cryptocurrency symbols
-  private normalizeSymbol(symbol: string): string {
-    return symbol.toUpperCase();
+  // Helper method to normalize cryptocurrency symbols to CoinGecko ids.
+  // Ambiguous tickers are left as spoken so the bot can ask which coin was meant.
+  private async normalizeSymbol(symbol: string): Promise<string> {
+    return symbolService.toCoinId(symbol.trim());
   }
 }
 
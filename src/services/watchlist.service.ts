@@ -0,0 +1,182 @@
+import { cryptoService } from './crypto.service';
+import { redisService } from './redis.service';
+import { symbolService } from './symbol.service';
+import { log, logError } from '../utils/logger';
+import { PriceData } from '../types/market';
+import { UserWatchlists, Watchlist, WatchlistEntry } from '../types/watchlist';
+
+type WatchlistResult = { success: boolean; message: string; watchlist?: Watchlist };
+
+class WatchlistService {
+  readonly DEFAULT_LIST = 'main';
+  // What every user saw before watchlists existed
+  private readonly DEFAULT_COINS = ['bitcoin', 'ethereum', 'polkadot', 'binancecoin', 'solana'];
+  private readonly MAX_LISTS = 10;
+  private readonly MAX_COINS = 20;
+  private readonly SPARKLINE_CANDLES = 24;
+
+  // Users who never touched their watchlists get an unsaved default one
+  async getWatchlists(userId: number): Promise<UserWatchlists> {
+    return (await redisService.getWatchlists(userId)) || {
+      userId,
+      active: this.DEFAULT_LIST,
+      lists: [{ name: this.DEFAULT_LIST, coinIds: [...this.DEFAULT_COINS], createdAt: Date.now() }],
+    };
+  }
+
+  // Falls back to the active list when no name is given
+  async getList(userId: number, name?: string): Promise<Watchlist | null> {
+    const watchlists = await this.getWatchlists(userId);
+    const wanted = name ? this.normalizeName(name) : watchlists.active;
+    return watchlists.lists.find((list) => list.name === wanted) || null;
+  }
+
+  isValidName(name: string): boolean {
+    return /^[a-z0-9_-]{1,20}$/.test(this.normalizeName(name));
+  }
+
+  // Adding to a list that doesn't exist yet creates it
+  async addCoin(userId: number, coinId: string, listName?: string): Promise<WatchlistResult> {
+    try {
+      const watchlists = await this.getWatchlists(userId);
+      const name = listName ? this.normalizeName(listName) : watchlists.active;
+      if (!this.isValidName(name)) {
+        return { success: false, message: 'List names may only use letters, digits, "-" and "_" (max 20).' };
+      }
+
+      let list = watchlists.lists.find((existing) => existing.name === name);
+      if (!list) {
+        if (watchlists.lists.length >= this.MAX_LISTS) {
+          return { success: false, message: `You can have at most ${this.MAX_LISTS} watchlists.` };
+        }
+        list = { name, coinIds: [], createdAt: Date.now() };
+        watchlists.lists.push(list);
+      }
+
+      if (list.coinIds.includes(coinId)) {
+        return { success: false, message: `Already on "${name}".`, watchlist: list };
+      }
+      if (list.coinIds.length >= this.MAX_COINS) {
+        return { success: false, message: `"${name}" already holds ${this.MAX_COINS} coins.` };
+      }
+
+      list.coinIds.push(coinId);
+      await redisService.setWatchlists(watchlists);
+      return { success: true, message: `Added to "${name}".`, watchlist: list };
+    } catch (error) {
+      logError(error as Error, 'WatchlistService.addCoin');
+      throw error;
+    }
+  }
+
+  // Matches the coin id or its ticker, so "/watch remove btc" works without resolving first
+  async removeCoin(userId: number, input: string, listName?: string): Promise<WatchlistResult> {
+    try {
+      const watchlists = await this.getWatchlists(userId);
+      const name = listName ? this.normalizeName(listName) : watchlists.active;
+      const list = watchlists.lists.find((existing) => existing.name === name);
+      if (!list) {
+        return { success: false, message: `No watchlist named "${name}".` };
+      }
+
+      const query = input.trim().toLowerCase();
+      let coinId = list.coinIds.find((id) => id === query);
+      if (!coinId) {
+        for (const id of list.coinIds) {
+          if ((await symbolService.getCoin(id))?.symbol.toLowerCase() === query) {
+            coinId = id;
+            break;
+          }
+        }
+      }
+      if (!coinId) {
+        return { success: false, message: `${input.toUpperCase()} is not on "${name}".` };
+      }
+
+      list.coinIds = list.coinIds.filter((id) => id !== coinId);
+      await redisService.setWatchlists(watchlists);
+      return { success: true, message: `Removed from "${name}".`, watchlist: list };
+    } catch (error) {
+      logError(error as Error, 'WatchlistService.removeCoin');
+      throw error;
+    }
+  }
+
+  async setActive(userId: number, name: string): Promise<WatchlistResult> {
+    const watchlists = await this.getWatchlists(userId);
+    const list = watchlists.lists.find((existing) => existing.name === this.normalizeName(name));
+    if (!list) {
+      return { success: false, message: `No watchlist named "${name}".` };
+    }
+
+    await redisService.setWatchlists({ ...watchlists, active: list.name });
+    return { success: true, message: `"${list.name}" now drives your menus.`, watchlist: list };
+  }
+
+  // The last list can't go, otherwise the menus would have nothing to show
+  async deleteList(userId: number, name: string): Promise<WatchlistResult> {
+    const watchlists = await this.getWatchlists(userId);
+    const normalized = this.normalizeName(name);
+    if (!watchlists.lists.some((list) => list.name === normalized)) {
+      return { success: false, message: `No watchlist named "${name}".` };
+    }
+    if (watchlists.lists.length === 1) {
+      return { success: false, message: 'You need to keep at least one watchlist.' };
+    }
+
+    const lists = watchlists.lists.filter((list) => list.name !== normalized);
+    const active = watchlists.active === normalized ? lists[0].name : watchlists.active;
+    await redisService.setWatchlists({ ...watchlists, active, lists });
+    return { success: true, message: `Deleted "${normalized}".` };
+  }
+
+  // Ticker labels for keyboard buttons, in list order
+  async getCoinLabels(coinIds: string[]): Promise<Array<{ coinId: string; label: string }>> {
+    return Promise.all(
+      coinIds.map(async (coinId) => ({
+        coinId,
+        label: ((await symbolService.getCoin(coinId))?.symbol || coinId).toUpperCase(),
+      }))
+    );
+  }
+
+  // Prices come in one batch; a coin whose candles fail still shows without a sparkline
+  async getSnapshot(watchlist: Watchlist): Promise<WatchlistEntry[]> {
+    try {
+      let prices: Record<string, PriceData> = {};
+      if (watchlist.coinIds.length > 0) {
+        prices = await cryptoService.getPrices(watchlist.coinIds);
+      }
+
+      return await Promise.all(
+        watchlist.coinIds.map(async (coinId) => {
+          const coin = await symbolService.getCoin(coinId);
+          let closes: number[] = [];
+          try {
+            closes = (await cryptoService.getKlines(coinId, '1h', this.SPARKLINE_CANDLES)).map((candle) => candle.close);
+          } catch (error) {
+            log.debug(`No sparkline for ${coinId}: ${(error as Error).message}`);
+          }
+
+          return {
+            coinId,
+            symbol: (coin?.symbol || coinId).toUpperCase(),
+            name: coin?.name || coinId,
+            price: prices[coinId]?.price ?? null,
+            change24h: prices[coinId]?.change24h ?? null,
+            closes,
+          };
+        })
+      );
+    } catch (error) {
+      logError(error as Error, 'WatchlistService.getSnapshot');
+      throw error;
+    }
+  }
+
+  private normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
+
+export const watchlistService = new WatchlistService();
@@ -1,11 +1,30 @@
 import axios from 'axios';
 import { log, logError } from '../utils/logger';
 import { redisService } from './redis.service';
+import { AlertRule } from '../types/alert';
+import { AddressActivity } from '../types/address-watch';
+import { StakingWatch, ValidatorChange } from '../types/staking';
 
 class WebhookService {
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 1000; // 1 second
 
+  // Only https endpoints are accepted, since payloads carry holdings and addresses
+  async setWebhook(userId: number, input: string): Promise<{ success: boolean; message: string }> {
+    let url: URL;
+    try {
+      url = new URL(input.trim());
+    } catch {
+      return { success: false, message: 'That is not a valid URL.' };
+    }
+    if (url.protocol !== 'https:') {
+      return { success: false, message: 'Webhook URLs must use https.' };
+    }
+
+    await redisService.setWebhook(userId, url.toString());
+    return { success: true, message: `Webhook set to ${url.toString()}` };
+  }
+
   async sendNotification(
     userId: number,
     event: string,
@@ -71,15 +90,15 @@ class WebhookService {
     userId: number,
     symbol: string,
     price: number,
-    targetPrice: number,
-    isAbove: boolean
+    rule: AlertRule,
+    message: string
   ): Promise<boolean> {
     return this.sendNotification(userId, 'price_alert', {
       symbol,
       currentPrice: price,
-      targetPrice,
-      condition: isAbove ? 'above' : 'below',
-      message: `${symbol} price is now ${isAbove ? 'above' : 'below'} ${targetPrice} (Current: ${price})`,
+      condition: rule.type,
+      rule,
+      message: `${symbol}: ${message} (Current: ${price})`,
     });
   }
 
@@ -87,12 +106,14 @@ class WebhookService {
     userId: number,
     symbol: string,
     amount: number,
-    txHash: string
+    txHash: string,
+    details: Record<string, any> = {}
   ): Promise<boolean> {
     return this.sendNotification(userId, 'whale_alert', {
       symbol,
       amount,
       txHash,
+      ...details,
       message: `Whale movement detected: ${amount} ${symbol}`,
     });
   }
@@ -110,6 +131,22 @@ class WebhookService {
     });
   }
 
+  async sendAddressActivity(userId: number, activity: AddressActivity): Promise<boolean> {
+    return this.sendNotification(userId, 'address_activity', {
+      ...activity,
+      message: `${activity.kind.replace('_', ' ')} of ${activity.amount} ${activity.token} on ${activity.address}`,
+    });
+  }
+
+  async sendStakingAlert(userId: number, watch: StakingWatch, changes: ValidatorChange[]): Promise<boolean> {
+    return this.sendNotification(userId, 'staking_alert', {
+      chain: watch.chain,
+      stash: watch.stash,
+      changes,
+      message: `${changes.length} change(s) among the validators nominated by ${watch.stash}`,
+    });
+  }
+
   async sendAnomalyAlert(
     userId: number,
     symbol: string,
@@ -117,7 +154,7 @@ class WebhookService {
       type: string;
       description: string;
       confidence: number;
-    }
+    } & Record<string, any>
   ): Promise<boolean> {
     return this.sendNotification(userId, 'anomaly_alert', {
       symbol,
@@ -0,0 +1,162 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { config } from '../config/config';
+import { cryptoService } from './crypto.service';
+import { duneService } from './dune.service';
+import { redisService } from './redis.service';
+import { symbolService } from './symbol.service';
+import { webhookService } from './webhook.service';
+import { log, logError } from '../utils/logger';
+import { getExplorerTxUrl } from '../utils/explorers';
+import { WhaleSubscription, WhaleTransaction } from '../types/whale';
+
+type WhaleNotifier = (userId: number, tx: WhaleTransaction, explorerUrl: string | null) => Promise<void>;
+
+class WhaleService {
+  private readonly MAX_SUBSCRIPTIONS = 10;
+  private readonly LOOKBACK_DAYS = 1;
+  private readonly SEEN_TTL = 7 * 24 * 60 * 60; // Longer than the lookback, so a hash never comes round again
+  private task: ScheduledTask | null = null;
+  private notifiers: WhaleNotifier[] = [];
+  private polling = false;
+
+  start(): void {
+    this.task = cron.schedule(`*/${config.whales.pollMinutes} * * * *`, () => {
+      this.poll().catch((error) => logError(error as Error, 'WhaleService.poll'));
+    });
+    log.info(`Whale watch polling Dune query ${config.whales.queryId} every ${config.whales.pollMinutes} min`);
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  onWhale(notifier: WhaleNotifier): void {
+    this.notifiers.push(notifier);
+  }
+
+  async getSubscriptions(userId: number): Promise<WhaleSubscription[]> {
+    return redisService.getWhaleSubscriptions(userId);
+  }
+
+  // Subscribing again to the same symbol replaces the threshold
+  async subscribe(userId: number, symbol: string, minAmount: number): Promise<{ success: boolean; message: string }> {
+    const ticker = symbol.toUpperCase();
+    if (!/^[A-Z0-9]{1,12}$/.test(ticker)) {
+      return { success: false, message: `"${symbol}" doesn't look like a token ticker.` };
+    }
+    if (!(minAmount > 0)) {
+      return { success: false, message: 'The minimum amount must be positive.' };
+    }
+
+    const subscriptions = await this.getSubscriptions(userId);
+    const others = subscriptions.filter((subscription) => subscription.symbol !== ticker);
+    if (others.length >= this.MAX_SUBSCRIPTIONS) {
+      return { success: false, message: `You can watch at most ${this.MAX_SUBSCRIPTIONS} tokens.` };
+    }
+
+    await redisService.setWhaleSubscriptions(userId, [
+      ...others,
+      { userId, symbol: ticker, minAmount, createdAt: Date.now() },
+    ]);
+    return { success: true, message: `Watching ${ticker} transfers of ${minAmount.toLocaleString('en-US')} or more.` };
+  }
+
+  async unsubscribe(userId: number, symbol: string): Promise<boolean> {
+    const subscriptions = await this.getSubscriptions(userId);
+    const remaining = subscriptions.filter((subscription) => subscription.symbol !== symbol.toUpperCase());
+    if (remaining.length === subscriptions.length) {
+      return false;
+    }
+    await redisService.setWhaleSubscriptions(userId, remaining);
+    return true;
+  }
+
+  // Returns the number of notifications sent
+  async poll(): Promise<number> {
+    if (this.polling) return 0;
+    this.polling = true;
+
+    try {
+      const subscriptions = await redisService.getAllWhaleSubscriptions();
+      if (subscriptions.length === 0) return 0;
+
+      // One read serves everyone: the lowest threshold, then each subscription filters for itself
+      const minAmount = Math.min(...subscriptions.map((subscription) => subscription.minAmount));
+      const transactions = await duneService.getWhaleTransactions(minAmount, this.LOOKBACK_DAYS);
+
+      // A batch transaction can show up as several rows; it is announced once, by its largest transfer
+      const byHash = new Map<string, WhaleTransaction>();
+      for (const tx of transactions) {
+        const key = `${tx.chain}:${tx.txHash}`;
+        const existing = byHash.get(key);
+        if (!existing || tx.amount > existing.amount) {
+          byHash.set(key, tx);
+        }
+      }
+
+      let sent = 0;
+      for (const [key, tx] of byHash) {
+        if (await redisService.getCache(`whale_seen:${key}`)) continue;
+        await redisService.setCacheWithExpiry(`whale_seen:${key}`, '1', this.SEEN_TTL);
+
+        // Transfers from before a subscription existed aren't news to that subscriber
+        const recipients = subscriptions.filter(
+          (subscription) =>
+            subscription.symbol === tx.symbol &&
+            tx.amount >= subscription.minAmount &&
+            (tx.time === null || tx.time >= subscription.createdAt)
+        );
+        if (recipients.length === 0) continue;
+
+        const priced = tx.amountUsd === null ? { ...tx, amountUsd: await this.estimateUsd(tx) } : tx;
+        const explorerUrl = getExplorerTxUrl(tx.chain, tx.txHash);
+        for (const { userId } of recipients) {
+          await this.deliver(userId, priced, explorerUrl);
+          sent++;
+        }
+      }
+
+      if (sent > 0) {
+        log.info(`Whale watch sent ${sent} notification(s) from ${byHash.size} transaction(s)`);
+      }
+      return sent;
+    } catch (error) {
+      logError(error as Error, 'WhaleService.poll');
+      throw error;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async estimateUsd(tx: WhaleTransaction): Promise<number | null> {
+    try {
+      const price = await cryptoService.getPrice(await symbolService.toCoinId(tx.symbol));
+      return price ? price.price * tx.amount : null;
+    } catch (error) {
+      log.debug(`No USD estimate for ${tx.symbol}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private async deliver(userId: number, tx: WhaleTransaction, explorerUrl: string | null): Promise<void> {
+    await webhookService.sendWhaleAlert(userId, tx.symbol, tx.amount, tx.txHash, {
+      chain: tx.chain,
+      amountUsd: tx.amountUsd,
+      from: tx.from,
+      to: tx.to,
+      time: tx.time,
+      explorerUrl,
+    });
+
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier(userId, tx, explorerUrl);
+      } catch (error) {
+        logError(error as Error, 'WhaleService.notify');
+      }
+    }
+  }
+}
+
+export const whaleService = new WhaleService();
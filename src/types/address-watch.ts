@@ -0,0 +1,27 @@
+import { SubstrateChain } from './polkadot';
+
+export interface AddressWatch {
+  userId: number;
+  chain: SubstrateChain;
+  // Stored in the chain's own SS58 format so it compares equal to addresses in events
+  address: string;
+  label?: string;
+  // Mirror balance changes into the portfolio ledger
+  syncPortfolio: boolean;
+  createdAt: number;
+}
+
+export type AddressActivityKind = 'transfer_in' | 'transfer_out' | 'reward';
+
+export interface AddressActivity {
+  chain: SubstrateChain;
+  address: string;
+  kind: AddressActivityKind;
+  amount: number; // In whole tokens
+  token: string;
+  // The other side of a transfer; null for rewards
+  counterparty: string | null;
+  usdValue: number | null;
+  blockNumber: number;
+  eventIndex: number;
+}
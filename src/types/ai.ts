@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+const confidence = z.number().min(0).max(1);
+
+export const TradingSignalSchema = z
+  .object({
+    signal: z.enum(['buy', 'sell', 'hold']),
+    entry: z.number().positive().nullable(),
+    stopLoss: z.number().positive().nullable(),
+    targets: z.array(z.number().positive()).max(3),
+    timeHorizon: z.string().min(1),
+    confidence,
+    reasons: z.array(z.string().min(1)).min(1).max(6),
+  })
+  .superRefine((value, ctx) => {
+    if (value.signal === 'hold') return;
+    if (value.entry === null || value.stopLoss === null || value.targets.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'buy and sell signals need an entry, a stopLoss and at least one target',
+      });
+      return;
+    }
+    // Stop below entry and targets above it for longs, mirrored for shorts
+    const direction = value.signal === 'buy' ? 1 : -1;
+    if ((value.entry - value.stopLoss) * direction <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['stopLoss'],
+        message: `stopLoss must be ${value.signal === 'buy' ? 'below' : 'above'} entry`,
+      });
+    }
+    if (value.targets.some((target) => (target - value.entry!) * direction <= 0)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['targets'],
+        message: `targets must be ${value.signal === 'buy' ? 'above' : 'below'} entry`,
+      });
+    }
+  });
+
+export type TradingSignal = z.infer<typeof TradingSignalSchema>;
+
+export const VoiceCommandSchema = z.object({
+  command: z.string().min(1),
+  // Models often emit prices as numbers; the bot handlers expect strings
+  params: z.record(z.union([z.string(), z.number()]).transform(String)).default({}),
+});
+
+export type VoiceCommand = z.infer<typeof VoiceCommandSchema>;
@@ -0,0 +1,38 @@
+export type AlertRule =
+  | { type: 'above'; price: number }
+  | { type: 'below'; price: number }
+  | { type: 'percent_move'; percent: number; windowMinutes: number }
+  | { type: 'range_exit'; lower: number; upper: number }
+  | { type: 'volume_above'; volume: number }
+  // Trailing rules follow the price: 'down' tracks the peak and fires on a pullback,
+  // 'up' tracks the trough and fires on a bounce. `extreme` is seeded on first evaluation.
+  | { type: 'trailing'; trailPercent: number; direction: 'down' | 'up'; extreme?: number };
+
+export type AlertRuleType = AlertRule['type'];
+
+export type AlertStatus = 'active' | 'paused';
+
+export interface PriceAlert {
+  id: string;
+  userId: number;
+  symbol: string;
+  rule: AlertRule;
+  status: AlertStatus;
+  snoozedUntil?: number;
+  createdAt: number;
+}
+
+export interface FiredAlert {
+  alertId: string;
+  userId: number;
+  symbol: string;
+  rule: AlertRule;
+  triggeredPrice: number;
+  message: string;
+  firedAt: number;
+}
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
@@ -0,0 +1,20 @@
+export type AnomalyType = 'return_zscore' | 'volume_zscore' | 'gap' | 'volatility_regime';
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export interface AnomalyDetection {
+  coinId: string;
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  interval: string;
+  // Open time of the closed candle that triggered the detection
+  candleTime: number;
+  // z-score for the z-score types, gap in % for gaps, short/long volatility ratio for regimes
+  value: number;
+  threshold: number;
+  // Two-sided normal confidence for z-scores; a bounded function of the ratio otherwise
+  confidence: number;
+  description: string;
+  price: number;
+  detectedAt: number;
+}
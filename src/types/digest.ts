@@ -0,0 +1,15 @@
+export type DigestSlot = 'morning' | 'evening';
+
+export interface DigestSubscription {
+  userId: number;
+  slot: DigestSlot;
+  // Local wall-clock time, HH:MM
+  time: string;
+  // IANA zone, e.g. Europe/Berlin
+  timezone: string;
+  enabled: boolean;
+  createdAt: number;
+  lastSentAt?: number;
+  // Portfolio value at the last delivery, for the "since last digest" change
+  lastPortfolioValue?: number;
+}
@@ -0,0 +1,84 @@
+export interface PriceData {
+  price: number;
+  change24h: number;
+  volume24h: number;
+  // Not every provider knows market cap (exchanges don't)
+  marketCap?: number;
+  // Set when a cross-check against another provider disagreed beyond the configured threshold
+  divergence?: PriceDivergence;
+}
+
+export interface PriceDivergence {
+  provider: string;
+  referenceProvider: string;
+  price: number;
+  referencePrice: number;
+  percent: number;
+}
+
+export interface Ticker24h {
+  open: number;
+  high: number;
+  low: number;
+  last: number;
+  changePercent: number;
+  volume: number;
+}
+
+export interface Candle {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  // Built from price samples rather than trades: the open is the first sample in the bucket and
+  // volume is a pro-rated share of a rolling 24h figure, not what traded in the candle
+  synthetic?: boolean;
+}
+
+export interface OrderBookTop {
+  bidPrice: number;
+  bidQuantity: number;
+  askPrice: number;
+  askQuantity: number;
+}
+
+// Latest indicator values; null where the candle history is too short to compute one
+export interface TechnicalSnapshot {
+  symbol: string;
+  interval: string;
+  asOf: number;
+  candleCount: number;
+  price: number;
+  sma20: number | null;
+  sma50: number | null;
+  sma200: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  rsi14: number | null;
+  macd: { macd: number; signal: number; histogram: number } | null;
+  bollinger: { upper: number; middle: number; lower: number } | null;
+  atr14: number | null;
+  vwap: number | null;
+  pivots: { pivot: number; r1: number; r2: number; s1: number; s2: number } | null;
+  support: number[];
+  resistance: number[];
+  trend: 'bullish' | 'bearish' | 'neutral';
+}
+
+export type MoversTab = 'gainers' | 'losers' | 'volume' | 'trending';
+
+export type MarketCapBucket = 'all' | 'large' | 'mid' | 'small';
+
+export interface MarketMover {
+  id: string;
+  symbol: string;
+  name: string;
+  price: number;
+  change24h: number;
+  volume24h: number;
+  // Trending coins outside the ranked markets page come without these
+  marketCap: number | null;
+  marketCapRank: number | null;
+}
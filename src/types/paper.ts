@@ -0,0 +1,37 @@
+import { Transaction } from './portfolio';
+
+export type PaperOrderSide = 'buy' | 'sell';
+
+// Market orders fill on placement; limit and stop orders wait for the price feed to reach them
+export type PaperOrderType = 'market' | 'limit' | 'stop';
+
+export type PaperOrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+export interface PaperOrder {
+  id: string;
+  coinId: string;
+  symbol: string;
+  side: PaperOrderSide;
+  type: PaperOrderType;
+  quantity: number;
+  // Limit or stop trigger price; unset for market orders
+  price?: number;
+  status: PaperOrderStatus;
+  createdAt: number;
+  filledAt?: number;
+  fillPrice?: number;
+  fee?: number;
+  reason?: string;
+}
+
+export interface PaperAccount {
+  userId: number;
+  cash: number;
+  initialBalance: number;
+  createdAt: number;
+  // Ticker -> coin id, so positions can be priced without re-resolving ambiguous tickers
+  coinIds: Record<string, string>;
+  // Fills in portfolio ledger form, so holdings and PnL reuse the portfolio math
+  fills: Transaction[];
+  orders: PaperOrder[];
+}
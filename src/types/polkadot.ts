@@ -0,0 +1,32 @@
+export type SubstrateChain = 'polkadot' | 'kusama';
+
+export interface ChainOverview {
+  chain: SubstrateChain;
+  token: string;
+  decimals: number;
+  finalizedBlock: number;
+  totalIssuance: number; // In whole tokens
+  activeEra: number;
+  currentEra: number;
+  // Blocks into the active era and the era's length, e.g. 1200 of 14400
+  eraProgress: number;
+  eraLength: number;
+  sessionIndex: number;
+  activeValidators: number;
+  targetValidators: number;
+  // Every account that declared an intention to validate, active or waiting
+  validatorCandidates: number;
+  nominators: number;
+}
+
+export interface AccountBalance {
+  chain: SubstrateChain;
+  address: string;
+  token: string;
+  free: number;
+  reserved: number;
+  locked: number; // Staking, governance and vesting locks overlap, so this is the largest, not the sum
+  transferable: number;
+  total: number;
+  nonce: number;
+}
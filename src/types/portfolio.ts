@@ -0,0 +1,44 @@
+export type TransactionType = 'buy' | 'sell' | 'transfer_in' | 'transfer_out';
+
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface Transaction {
+  id: string;
+  symbol: string;
+  type: TransactionType;
+  quantity: number;
+  price: number;
+  fee: number;
+  timestamp: number;
+  // Set for imported rows so re-importing the same file doesn't duplicate trades
+  source?: string;
+  externalId?: string;
+}
+
+export type TransactionInput = Omit<Transaction, 'id'>;
+
+export interface Holding {
+  symbol: string;
+  quantity: number;
+  costBasis: number;
+  averageCost: number;
+  realizedPnl: number;
+}
+
+export interface HoldingValuation extends Holding {
+  currentPrice: number | null;
+  value: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+}
+
+export interface RealizedLot {
+  symbol: string;
+  quantity: number;
+  acquiredAt: number;
+  disposedAt: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  term: 'short' | 'long';
+}
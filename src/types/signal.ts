@@ -0,0 +1,39 @@
+import { TradingSignal } from './ai';
+
+export type SignalOutcome = 'open' | 'hit' | 'stopped' | 'expired';
+
+export interface SignalRecord extends TradingSignal {
+  id: string;
+  coinId: string;
+  timeframe: string;
+  issuedAt: number;
+  priceAtIssue: number;
+  userId?: number;
+  // Signals are graded over a fixed number of candles of their own timeframe
+  expiresAt: number;
+  outcome: SignalOutcome;
+  resolvedAt?: number;
+  exitPrice?: number;
+  // Direction-adjusted: a sell that fell 5% returns +5%
+  returnPercent?: number;
+}
+
+export interface CalibrationBucket {
+  range: string;
+  count: number;
+  statedConfidence: number;
+  hitRate: number;
+}
+
+export interface SignalStats {
+  key: string;
+  total: number;
+  open: number;
+  graded: number;
+  hits: number;
+  stops: number;
+  expired: number;
+  hitRate: number | null;
+  averageReturn: number | null;
+  calibration: CalibrationBucket[];
+}
@@ -0,0 +1,58 @@
+import { SubstrateChain } from './polkadot';
+
+export interface ValidatorState {
+  active: boolean;
+  commission: number; // Percent
+}
+
+export interface NominatedValidator extends ValidatorState {
+  address: string;
+  // Not accepting new nominations
+  blocked: boolean;
+  // Points earned so far in the active era
+  eraPoints: number;
+  lastSlashEra: number | null;
+  lastSlashAmount: number | null; // In whole tokens
+}
+
+export interface StakingSlash {
+  era: number;
+  amount: number; // In whole tokens
+}
+
+export interface StakingDashboard {
+  chain: SubstrateChain;
+  stash: string;
+  token: string;
+  bonded: number;
+  totalBonded: number;
+  unlocking: number;
+  activeEra: number;
+  // Era the current nominations were submitted in; null if the stash doesn't nominate
+  submittedEra: number | null;
+  nominations: NominatedValidator[];
+  estimatedApy: number | null; // Percent
+  // Unclaimed rewards across the eras the chain still keeps; null if they couldn't be read
+  pendingRewards: number | null;
+  pendingEras: number;
+  // Slashes applied to the stash itself
+  slashes: StakingSlash[];
+}
+
+export interface StakingWatch {
+  userId: number;
+  chain: SubstrateChain;
+  stash: string;
+  // Last seen state of each nominated validator, compared on every check
+  validators: Record<string, ValidatorState>;
+  createdAt: number;
+}
+
+export type ValidatorChangeKind = 'inactive' | 'commission_raised';
+
+export interface ValidatorChange {
+  validator: string;
+  kind: ValidatorChangeKind;
+  previousCommission: number;
+  commission: number;
+}
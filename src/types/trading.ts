@@ -0,0 +1,51 @@
+// dry_run never contacts the exchange, testnet signs against testnet.binance.vision, live trades real funds
+export type TradingMode = 'dry_run' | 'testnet' | 'live';
+
+export type OrderSide = 'BUY' | 'SELL';
+
+export type OrderType = 'MARKET' | 'LIMIT';
+
+export interface OrderRequest {
+  pair: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  // Required for LIMIT orders
+  price?: number;
+}
+
+// The subset of Binance's order response the bot uses
+export interface ExchangeOrder {
+  orderId: number;
+  clientOrderId: string;
+  pair: string;
+  side: OrderSide;
+  type: OrderType;
+  status: string;
+  price: number;
+  quantity: number;
+  executedQuantity: number;
+  quoteQuantity: number;
+  time: number;
+}
+
+export interface PendingOrder {
+  id: string;
+  userId: number;
+  request: OrderRequest;
+  // USD value used for the limit checks: limit price, or the market price at preparation time
+  notional: number;
+  mode: TradingMode;
+  // Set once the first confirmation step has been passed
+  reviewed: boolean;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface TradingLimits {
+  mode: TradingMode;
+  halted: boolean;
+  maxOrderNotional: number;
+  maxDailyNotional: number;
+  usedToday: number;
+}
@@ -0,0 +1,28 @@
+export type UserTier = 'free' | 'pro' | 'unlimited';
+
+export type UsagePeriod = 'day' | 'month';
+
+export interface UsageBreakdown {
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface UsageTotals extends UsageBreakdown {
+  promptTokens: number;
+  completionTokens: number;
+  byFeature: Record<string, UsageBreakdown>;
+  byModel: Record<string, UsageBreakdown>;
+}
+
+export interface UsageReport extends UsageTotals {
+  period: UsagePeriod;
+  periodKey: string;
+  byUser: Array<UsageBreakdown & { userId: string }>;
+}
+
+// Token budgets; 0 means no limit for that period
+export interface TierQuota {
+  daily: number;
+  monthly: number;
+}
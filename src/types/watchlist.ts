@@ -0,0 +1,23 @@
+export interface Watchlist {
+  // Lowercase, [a-z0-9_-], so it fits in callback data
+  name: string;
+  coinIds: string[];
+  createdAt: number;
+}
+
+export interface UserWatchlists {
+  userId: number;
+  // The list the price, alert and analysis keyboards are built from
+  active: string;
+  lists: Watchlist[];
+}
+
+export interface WatchlistEntry {
+  coinId: string;
+  symbol: string;
+  name: string;
+  price: number | null;
+  change24h: number | null;
+  // Recent closes, oldest first; empty when no candles were available
+  closes: number[];
+}
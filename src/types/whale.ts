@@ -0,0 +1,20 @@
+export interface WhaleSubscription {
+  userId: number;
+  // Token ticker as the whale query reports it, uppercase
+  symbol: string;
+  // In token units
+  minAmount: number;
+  createdAt: number;
+}
+
+export interface WhaleTransaction {
+  txHash: string;
+  chain: string;
+  symbol: string;
+  amount: number;
+  amountUsd: number | null;
+  from: string | null;
+  to: string | null;
+  // Block time; null when the query doesn't return one
+  time: number | null;
+}
@@ -0,0 +1,149 @@
+import { AlertRule, AlertRuleType, PricePoint } from '../types/alert';
+
+// Longest window any rule can look back over, used to bound stored price history
+export const MAX_RULE_WINDOW_MINUTES = 24 * 60;
+
+interface RuleContext {
+  price: number;
+  volume24h: number;
+  history: PricePoint[];
+  now: number;
+  // When the alert was created; moves from before then don't count
+  since: number;
+}
+
+interface RuleEvaluation {
+  triggered: boolean;
+  rule: AlertRule;
+  message?: string;
+}
+
+export const evaluateRule = (rule: AlertRule, context: RuleContext): RuleEvaluation => {
+  const { price } = context;
+
+  switch (rule.type) {
+    case 'above':
+      return {
+        triggered: price >= rule.price,
+        rule,
+        message: `Price is now above $${rule.price}`,
+      };
+
+    case 'below':
+      return {
+        triggered: price <= rule.price,
+        rule,
+        message: `Price is now below $${rule.price}`,
+      };
+
+    case 'percent_move': {
+      const windowStart = Math.max(context.now - rule.windowMinutes * 60 * 1000, context.since);
+      const reference = context.history.find((point) => point.timestamp >= windowStart);
+      if (!reference || reference.price === 0) {
+        return { triggered: false, rule };
+      }
+      const change = ((price - reference.price) / reference.price) * 100;
+      return {
+        triggered: Math.abs(change) >= rule.percent,
+        rule,
+        message: `Price moved ${change >= 0 ? '+' : ''}${change.toFixed(2)}% within ${rule.windowMinutes} min`,
+      };
+    }
+
+    case 'range_exit':
+      return {
+        triggered: price < rule.lower || price > rule.upper,
+        rule,
+        message: `Price left the $${rule.lower} – $${rule.upper} band`,
+      };
+
+    case 'volume_above':
+      return {
+        triggered: context.volume24h >= rule.volume,
+        rule,
+        message: `24h volume exceeded $${rule.volume.toLocaleString('en-US')}`,
+      };
+
+    case 'trailing': {
+      const previous = rule.extreme ?? price;
+      const extreme = rule.direction === 'down'
+        ? Math.max(previous, price)
+        : Math.min(previous, price);
+      const updated: AlertRule = extreme === rule.extreme ? rule : { ...rule, extreme };
+      const threshold = rule.direction === 'down'
+        ? extreme * (1 - rule.trailPercent / 100)
+        : extreme * (1 + rule.trailPercent / 100);
+      const triggered = rule.direction === 'down' ? price <= threshold : price >= threshold;
+      return {
+        triggered,
+        rule: updated,
+        message: rule.direction === 'down'
+          ? `Price fell ${rule.trailPercent}% from its peak of $${extreme}`
+          : `Price rose ${rule.trailPercent}% from its low of $${extreme}`,
+      };
+    }
+  }
+};
+
+export const describeRule = (rule: AlertRule): string => {
+  switch (rule.type) {
+    case 'above':
+      return `crosses above $${rule.price}`;
+    case 'below':
+      return `crosses below $${rule.price}`;
+    case 'percent_move':
+      return `moves ±${rule.percent}% within ${rule.windowMinutes} min`;
+    case 'range_exit':
+      return `exits $${rule.lower} – $${rule.upper}`;
+    case 'volume_above':
+      return `24h volume above $${rule.volume.toLocaleString('en-US')}`;
+    case 'trailing':
+      return `trails ${rule.trailPercent}% ${rule.direction === 'down' ? 'below the peak' : 'above the low'}` +
+        (rule.extreme !== undefined ? ` (ref $${rule.extreme})` : '');
+  }
+};
+
+// An above/below target the price has already reached would fire on the next check rather than on a
+// cross. Returns why the target can't be used, or null when it can.
+export const checkRuleTarget = (rule: AlertRule, price: number): string | null => {
+  if (rule.type === 'above' && price >= rule.price) {
+    return `The price is already $${price}. Please send a target above it.`;
+  }
+  if (rule.type === 'below' && price <= rule.price) {
+    return `The price is already $${price}. Please send a target below it.`;
+  }
+  return null;
+};
+
+// Parses the user's reply in the guided alert flow. Returns null when the input is invalid.
+export const parseRuleInput = (type: AlertRuleType, input: string): AlertRule | null => {
+  const parts = input.trim().split(/[\s,]+/);
+  const numbers = parts.map((part) => parseFloat(part.replace(/[$%]/g, '')));
+  const [first, second] = numbers;
+  const isPositive = (value: number | undefined): value is number =>
+    value !== undefined && !isNaN(value) && value > 0;
+
+  switch (type) {
+    case 'above':
+    case 'below':
+      return isPositive(first) ? { type, price: first } : null;
+
+    case 'percent_move':
+      return isPositive(first) && isPositive(second) && second <= MAX_RULE_WINDOW_MINUTES
+        ? { type, percent: first, windowMinutes: second }
+        : null;
+
+    case 'range_exit':
+      return isPositive(first) && isPositive(second) && first < second
+        ? { type, lower: first, upper: second }
+        : null;
+
+    case 'volume_above':
+      return isPositive(first) ? { type, volume: first } : null;
+
+    case 'trailing':
+      return isPositive(first) && first < 100
+        ? { type, trailPercent: first, direction: parts[1]?.toLowerCase() === 'up' ? 'up' : 'down' }
+        : null;
+  }
+};
@@ -0,0 +1,144 @@
+import { Candle } from '../types/market';
+import { AnomalyDetection, AnomalySeverity } from '../types/anomaly';
+
+export interface AnomalyThresholds {
+  zScore: number; // |z| on log returns and log volume
+  gapPercent: number; // Open vs previous close
+  volatilityRatio: number; // Short-window over long-window realized volatility, or its inverse
+  shortWindow: number; // Returns in the "recent" volatility window
+}
+
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  zScore: 3,
+  gapPercent: 2,
+  volatilityRatio: 2.5,
+  shortWindow: 12,
+};
+
+type Detection = Omit<AnomalyDetection, 'coinId' | 'interval' | 'detectedAt'>;
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const stdDev = (values: number[]): number => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / Math.max(1, values.length - 1));
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Abramowitz-Stegun 7.1.26, accurate to ~1e-7, which is plenty for a confidence figure
+const erf = (x: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return x >= 0 ? y : -y;
+};
+
+const zConfidence = (z: number): number => erf(Math.abs(z) / Math.SQRT2);
+
+// Severity steps up at 4/3 and 5/3 of the threshold
+const severityFor = (magnitude: number, threshold: number): AnomalySeverity =>
+  magnitude >= threshold * (5 / 3) ? 'high' : magnitude >= threshold * (4 / 3) ? 'medium' : 'low';
+
+// Scores the newest candle against the ones before it; `candles` must be closed and oldest first.
+// The newest candle is never part of its own baseline. Synthetic candles (see Candle) only get the
+// checks that rely on closes: their volume and opens aren't traded values.
+export const detectAnomalies = (
+  candles: Candle[],
+  thresholds: AnomalyThresholds = DEFAULT_ANOMALY_THRESHOLDS
+): Detection[] => {
+  // Enough history for a baseline that isn't dominated by the short window
+  if (candles.length < thresholds.shortWindow * 3 + 2) {
+    return [];
+  }
+
+  const latest = candles[candles.length - 1];
+  const previous = candles[candles.length - 2];
+  const returns = candles.slice(1).map((candle, i) => Math.log(candle.close / candles[i].close));
+  const baseline = returns.slice(0, -1);
+  const latestReturn = returns[returns.length - 1];
+  const detections: Detection[] = [];
+  const common = { candleTime: latest.openTime, price: latest.close };
+  const traded = !candles.some((candle) => candle.synthetic);
+
+  // Return z-score
+  const returnDeviation = stdDev(baseline);
+  if (returnDeviation > 0) {
+    const z = (latestReturn - mean(baseline)) / returnDeviation;
+    if (Math.abs(z) >= thresholds.zScore) {
+      const move = (Math.exp(latestReturn) - 1) * 100;
+      detections.push({
+        ...common,
+        type: 'return_zscore',
+        severity: severityFor(Math.abs(z), thresholds.zScore),
+        value: z,
+        threshold: thresholds.zScore,
+        confidence: zConfidence(z),
+        description: `${move >= 0 ? '+' : ''}${move.toFixed(2)}% in one candle, ${Math.abs(z).toFixed(1)}σ from the recent norm`,
+      });
+    }
+  }
+
+  // Volume z-score on log volume, since raw volume is heavily right-skewed
+  const volumes = candles.slice(0, -1).map((candle) => Math.log(candle.volume + 1));
+  const volumeDeviation = stdDev(volumes);
+  if (traded && volumeDeviation > 0 && latest.volume > 0) {
+    const z = (Math.log(latest.volume + 1) - mean(volumes)) / volumeDeviation;
+    if (z >= thresholds.zScore) {
+      const multiple = latest.volume / Math.exp(mean(volumes));
+      detections.push({
+        ...common,
+        type: 'volume_zscore',
+        severity: severityFor(z, thresholds.zScore),
+        value: z,
+        threshold: thresholds.zScore,
+        confidence: zConfidence(z),
+        description: `Volume ${multiple.toFixed(1)}x the typical candle (${z.toFixed(1)}σ)`,
+      });
+    }
+  }
+
+  // Gap between the previous close and this open; crypto trades around the clock, so any gap
+  // means a venue halt, a data hole or a violent move between prints
+  const gap = ((latest.open - previous.close) / previous.close) * 100;
+  if (traded && Math.abs(gap) >= thresholds.gapPercent) {
+    detections.push({
+      ...common,
+      type: 'gap',
+      severity: severityFor(Math.abs(gap), thresholds.gapPercent),
+      value: gap,
+      threshold: thresholds.gapPercent,
+      confidence: Math.min(0.99, 1 - thresholds.gapPercent / (2 * Math.abs(gap))),
+      description: `Opened ${gap >= 0 ? '+' : ''}${gap.toFixed(2)}% away from the previous close`,
+    });
+  }
+
+  // Volatility regime: the short window against the history before it, in both directions. Median
+  // absolute returns keep a single outlier candle (already reported above) from reading as a regime.
+  const recent = returns.slice(-thresholds.shortWindow);
+  const history = returns.slice(0, -thresholds.shortWindow);
+  const recentVolatility = median(recent.map(Math.abs));
+  const historyVolatility = median(history.map(Math.abs));
+  if (recentVolatility > 0 && historyVolatility > 0) {
+    const ratio = recentVolatility / historyVolatility;
+    const magnitude = Math.max(ratio, 1 / ratio);
+    if (magnitude >= thresholds.volatilityRatio) {
+      detections.push({
+        ...common,
+        type: 'volatility_regime',
+        severity: severityFor(magnitude, thresholds.volatilityRatio),
+        value: ratio,
+        threshold: thresholds.volatilityRatio,
+        confidence: Math.min(0.99, 1 - 1 / magnitude),
+        description: ratio > 1
+          ? `Volatility expanded to ${ratio.toFixed(1)}x its prior level over the last ${recent.length} candles`
+          : `Volatility compressed to ${(ratio * 100).toFixed(0)}% of its prior level over the last ${recent.length} candles`,
+      });
+    }
+  }
+
+  return detections;
+};
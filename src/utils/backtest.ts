@@ -0,0 +1,222 @@
+import { rsi, sma } from './indicators';
+import { Candle } from '../types/market';
+
+export type BacktestStrategy =
+  | { type: 'rsi'; period: number; buyBelow: number; sellAbove: number }
+  | { type: 'sma_cross'; fast: number; slow: number }
+  | { type: 'dca'; every: number; amount: number };
+
+export interface BacktestOptions {
+  initialCapital: number;
+  feeRate: number; // Fraction of notional, 0.001 = 0.1%
+  slippage: number; // Fraction of price paid on every fill
+  intervalMs: number;
+}
+
+export interface BacktestTrade {
+  side: 'buy' | 'sell';
+  time: number;
+  price: number;
+  quantity: number;
+  fee: number;
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy;
+  startTime: number;
+  endTime: number;
+  initialCapital: number;
+  finalEquity: number;
+  totalReturn: number;
+  cagr: number | null;
+  maxDrawdown: number;
+  sharpe: number | null;
+  buyAndHoldReturn: number;
+  trades: BacktestTrade[];
+  // Sell-side fills only; a DCA run that never sells has none
+  winRate: number | null;
+  feesPaid: number;
+  openPosition: number;
+  equityCurve: Array<{ time: number; equity: number }>;
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: Omit<BacktestOptions, 'intervalMs'> = {
+  initialCapital: 10000,
+  feeRate: 0.001,
+  slippage: 0.0005,
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const describeStrategy = (strategy: BacktestStrategy): string => {
+  switch (strategy.type) {
+    case 'rsi':
+      return `RSI(${strategy.period}) buy <${strategy.buyBelow}, sell >${strategy.sellAbove}`;
+    case 'sma_cross':
+      return `SMA ${strategy.fast}/${strategy.slow} crossover`;
+    case 'dca':
+      return `DCA $${strategy.amount} every ${strategy.every} candle(s)`;
+  }
+};
+
+// Parses command arguments such as "rsi 14 30 70", "sma 20 50" or "dca 7 100"; omitted numbers use defaults
+export const parseStrategy = (args: string[]): BacktestStrategy | null => {
+  const [name, ...rest] = args.map((arg) => arg.toLowerCase());
+  const numbers = rest.map(Number);
+  if (numbers.some((n) => isNaN(n) || n <= 0)) return null;
+
+  switch (name) {
+    case 'rsi': {
+      const [period = 14, buyBelow = 30, sellAbove = 70] = numbers;
+      return buyBelow < sellAbove && sellAbove < 100
+        ? { type: 'rsi', period: Math.round(period), buyBelow, sellAbove }
+        : null;
+    }
+    case 'sma':
+    case 'sma_cross': {
+      const [fast = 20, slow = 50] = numbers;
+      return fast < slow ? { type: 'sma_cross', fast: Math.round(fast), slow: Math.round(slow) } : null;
+    }
+    case 'dca': {
+      const [every = 7, amount = 100] = numbers;
+      return { type: 'dca', every: Math.round(every), amount };
+    }
+    default:
+      return null;
+  }
+};
+
+// Inverse of parseStrategy, used to carry a strategy through callback data
+export const strategyToArgs = (strategy: BacktestStrategy): string[] => {
+  switch (strategy.type) {
+    case 'rsi':
+      return ['rsi', String(strategy.period), String(strategy.buyBelow), String(strategy.sellAbove)];
+    case 'sma_cross':
+      return ['sma', String(strategy.fast), String(strategy.slow)];
+    case 'dca':
+      return ['dca', String(strategy.every), String(strategy.amount)];
+  }
+};
+
+// Desired position after candle i closes: true = long, false = flat, null = unchanged
+const buildSignals = (strategy: BacktestStrategy, closes: number[]): Array<boolean | null> => {
+  switch (strategy.type) {
+    case 'rsi': {
+      const values = rsi(closes, strategy.period);
+      return values.map((value) => {
+        if (isNaN(value)) return null;
+        if (value < strategy.buyBelow) return true;
+        if (value > strategy.sellAbove) return false;
+        return null;
+      });
+    }
+    case 'sma_cross': {
+      const fast = sma(closes, strategy.fast);
+      const slow = sma(closes, strategy.slow);
+      return closes.map((_, i) => (isNaN(fast[i]) || isNaN(slow[i]) ? null : fast[i] > slow[i]));
+    }
+    case 'dca':
+      return closes.map(() => null);
+  }
+};
+
+// Long-only simulation. Decisions use candle i's close and fill at candle i+1's open, so no
+// strategy ever trades on a price it couldn't have seen.
+export const runBacktest = (
+  candles: Candle[],
+  strategy: BacktestStrategy,
+  options: BacktestOptions
+): BacktestResult => {
+  if (candles.length < 2) {
+    throw new Error('At least two candles are needed to backtest');
+  }
+
+  const closes = candles.map((candle) => candle.close);
+  const signals = buildSignals(strategy, closes);
+  const trades: BacktestTrade[] = [];
+  const equityCurve: Array<{ time: number; equity: number }> = [];
+  let cash = options.initialCapital;
+  let quantity = 0;
+  let costBasis = 0;
+  let wins = 0;
+  let sells = 0;
+
+  const buy = (time: number, open: number, notional: number): void => {
+    const price = open * (1 + options.slippage);
+    const fee = notional * options.feeRate;
+    const bought = (notional - fee) / price;
+    if (bought <= 0) return;
+    cash -= notional;
+    quantity += bought;
+    costBasis += notional;
+    trades.push({ side: 'buy', time, price, quantity: bought, fee });
+  };
+
+  const sellAll = (time: number, open: number): void => {
+    const price = open * (1 - options.slippage);
+    const gross = quantity * price;
+    const fee = gross * options.feeRate;
+    trades.push({ side: 'sell', time, price, quantity, fee });
+    sells++;
+    if (gross - fee > costBasis) wins++;
+    cash += gross - fee;
+    quantity = 0;
+    costBasis = 0;
+  };
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+
+    if (i > 0) {
+      const wanted = signals[i - 1];
+      if (strategy.type === 'dca') {
+        if ((i - 1) % strategy.every === 0 && cash > 0) {
+          buy(candle.openTime, candle.open, Math.min(strategy.amount, cash));
+        }
+      } else if (wanted === true && quantity === 0 && cash > 0) {
+        buy(candle.openTime, candle.open, cash);
+      } else if (wanted === false && quantity > 0) {
+        sellAll(candle.openTime, candle.open);
+      }
+    }
+
+    equityCurve.push({ time: candle.openTime, equity: cash + quantity * candle.close });
+  }
+
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  const finalEquity = equityCurve[equityCurve.length - 1].equity;
+  const duration = last.openTime - first.openTime + options.intervalMs;
+
+  let peak = equityCurve[0].equity;
+  let maxDrawdown = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - point.equity) / peak : 0);
+  }
+
+  // Annualised from per-candle returns with a zero risk-free rate
+  const returns = equityCurve.slice(1).map((point, i) => point.equity / equityCurve[i].equity - 1);
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(1, returns.length - 1);
+  const deviation = Math.sqrt(variance);
+  const periodsPerYear = YEAR_MS / options.intervalMs;
+
+  return {
+    strategy,
+    startTime: first.openTime,
+    endTime: last.openTime,
+    initialCapital: options.initialCapital,
+    finalEquity,
+    totalReturn: finalEquity / options.initialCapital - 1,
+    cagr: finalEquity > 0 ? (finalEquity / options.initialCapital) ** (YEAR_MS / duration) - 1 : null,
+    maxDrawdown,
+    sharpe: deviation > 0 ? (mean / deviation) * Math.sqrt(periodsPerYear) : null,
+    buyAndHoldReturn: last.close / first.open - 1,
+    trades,
+    winRate: sells > 0 ? wins / sells : null,
+    feesPaid: trades.reduce((sum, trade) => sum + trade.fee, 0),
+    openPosition: quantity,
+    equityCurve,
+  };
+};
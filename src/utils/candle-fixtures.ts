@@ -0,0 +1,36 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { Candle } from '../types/market';
+
+export const getFixturePath = (dir: string, coinId: string, interval: string): string =>
+  join(dir, `${coinId}-${interval}.json`);
+
+// Accepts either Candle objects or raw Binance kline rows ([openTime, open, high, low, close, volume, ...])
+export const parseCandleFixture = (json: string): Candle[] => {
+  const rows: unknown = JSON.parse(json);
+  if (!Array.isArray(rows)) {
+    throw new Error('Candle fixture must be a JSON array');
+  }
+
+  return rows
+    .map((row): Candle => {
+      if (Array.isArray(row)) {
+        const [openTime, open, high, low, close, volume] = row.map(Number);
+        return { openTime, open, high, low, close, volume };
+      }
+      const candle = row as Record<string, unknown>;
+      return {
+        openTime: Number(candle.openTime),
+        open: Number(candle.open),
+        high: Number(candle.high),
+        low: Number(candle.low),
+        close: Number(candle.close),
+        volume: Number(candle.volume ?? 0),
+      };
+    })
+    .filter((candle) => [candle.openTime, candle.open, candle.high, candle.low, candle.close].every(isFinite))
+    .sort((a, b) => a.openTime - b.openTime);
+};
+
+export const loadCandleFixture = async (path: string): Promise<Candle[]> =>
+  parseCandleFixture(await readFile(path, 'utf8'));
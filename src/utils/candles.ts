@@ -0,0 +1,33 @@
+import { Candle } from '../types/market';
+
+// Newer data wins when both sides carry the same openTime (the latest candle may still be forming)
+export const mergeCandles = (existing: Candle[], incoming: Candle[]): Candle[] => {
+  const byOpenTime = new Map<number, Candle>();
+  for (const candle of existing) byOpenTime.set(candle.openTime, candle);
+  for (const candle of incoming) byOpenTime.set(candle.openTime, candle);
+  return Array.from(byOpenTime.values()).sort((a, b) => a.openTime - b.openTime);
+};
+
+// Buckets [timestamp, price] samples into candles aligned to `intervalMs`
+export const aggregateCandles = (
+  points: Array<[number, number]>,
+  intervalMs: number,
+  volumeForBucket: (openTime: number) => number = () => 0
+): Candle[] => {
+  const candles: Candle[] = [];
+  let current: Candle | null = null;
+
+  for (const [timestamp, price] of [...points].sort((a, b) => a[0] - b[0])) {
+    const openTime = Math.floor(timestamp / intervalMs) * intervalMs;
+    if (!current || current.openTime !== openTime) {
+      current = { openTime, open: price, high: price, low: price, close: price, volume: volumeForBucket(openTime) };
+      candles.push(current);
+    } else {
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+      current.close = price;
+    }
+  }
+
+  return candles;
+};
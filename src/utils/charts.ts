@@ -0,0 +1,220 @@
+import { Raster, Rgb, hexColor, GLYPH_SIZE } from './raster';
+import { bollinger, ema, sma } from './indicators';
+import { Candle } from '../types/market';
+
+export type ChartType = 'candle' | 'line';
+export type ChartOverlay = 'sma' | 'ema' | 'bollinger';
+
+export const CHART_OVERLAYS: ChartOverlay[] = ['sma', 'ema', 'bollinger'];
+
+export interface PriceChartOptions {
+  title: string;
+  type: ChartType;
+  overlays: ChartOverlay[];
+  volume: boolean;
+  // Only the newest `visible` candles are drawn; older ones just warm up the overlays
+  visible?: number;
+  width?: number;
+  height?: number;
+}
+
+const COLORS = {
+  background: hexColor('#131722'),
+  grid: hexColor('#2a2e39'),
+  axis: hexColor('#b2b5be'),
+  title: hexColor('#ffffff'),
+  up: hexColor('#26a69a'),
+  down: hexColor('#ef5350'),
+  upVolume: hexColor('#1b5e57'),
+  downVolume: hexColor('#7f2f2e'),
+  line: hexColor('#2962ff'),
+  bar: hexColor('#2962ff'),
+};
+
+const OVERLAY_SERIES: Record<ChartOverlay, Array<{ label: string; color: Rgb; compute: (closes: number[]) => number[] }>> = {
+  sma: [
+    { label: 'SMA20', color: hexColor('#ff9800'), compute: (closes) => sma(closes, 20) },
+    { label: 'SMA50', color: hexColor('#e91e63'), compute: (closes) => sma(closes, 50) },
+  ],
+  ema: [
+    { label: 'EMA12', color: hexColor('#00bcd4'), compute: (closes) => ema(closes, 12) },
+    { label: 'EMA26', color: hexColor('#ffeb3b'), compute: (closes) => ema(closes, 26) },
+  ],
+  bollinger: [
+    { label: 'BB UP', color: hexColor('#9c27b0'), compute: (closes) => bollinger(closes).upper },
+    { label: 'BB LOW', color: hexColor('#9c27b0'), compute: (closes) => bollinger(closes).lower },
+  ],
+};
+
+const TEXT_SCALE = 2;
+const LINE_HEIGHT = GLYPH_SIZE.height * TEXT_SCALE;
+
+const formatAxisPrice = (price: number): string => {
+  if (price >= 1000) return price.toFixed(0);
+  if (price >= 1) return price.toFixed(2);
+  return price.toPrecision(3);
+};
+
+const formatTime = (timestamp: number, intraday: boolean): string => {
+  const iso = new Date(timestamp).toISOString();
+  return intraday ? iso.slice(11, 16) : iso.slice(5, 10);
+};
+
+export const renderPriceChart = (candles: Candle[], options: PriceChartOptions): Buffer => {
+  const width = options.width ?? 1000;
+  const height = options.height ?? 600;
+  const visible = Math.min(options.visible ?? candles.length, candles.length);
+  const offset = candles.length - visible;
+  const shown = candles.slice(offset);
+  const raster = new Raster(width, height, COLORS.background);
+
+  const series = options.overlays.flatMap((overlay) =>
+    OVERLAY_SERIES[overlay].map((definition) => ({
+      ...definition,
+      values: definition.compute(candles.map((candle) => candle.close)).slice(offset),
+    }))
+  );
+
+  // Layout
+  const left = 10;
+  const right = width - 100;
+  const top = 20 + LINE_HEIGHT + 16;
+  const bottom = height - LINE_HEIGHT - 16;
+  const volumeHeight = options.volume ? Math.round((bottom - top) * 0.2) : 0;
+  const priceBottom = options.volume ? bottom - volumeHeight - 8 : bottom;
+
+  // Title and legend
+  raster.drawText(options.title, left, 16, COLORS.title, TEXT_SCALE);
+  let legendX = left + raster.measureText(options.title, TEXT_SCALE) + 24;
+  const legend = series.map((s) => ({ label: s.label.startsWith('BB') ? 'BB(20,2)' : s.label, color: s.color }));
+  for (const item of legend.filter((entry, i) => legend.findIndex((o) => o.label === entry.label) === i)) {
+    raster.drawText(item.label, legendX, 16, item.color, TEXT_SCALE);
+    legendX += raster.measureText(item.label, TEXT_SCALE) + 20;
+  }
+
+  if (shown.length === 0) {
+    raster.drawText('NO DATA', (left + right) / 2, (top + bottom) / 2, COLORS.axis, TEXT_SCALE, 'center');
+    return raster.toPng();
+  }
+
+  // Price scale covers the candles and every overlay point on screen
+  const values = shown.flatMap((candle) =>
+    options.type === 'candle' ? [candle.high, candle.low] : [candle.close]
+  );
+  for (const s of series) values.push(...s.values.filter((v) => !isNaN(v)));
+  let max = Math.max(...values);
+  let min = Math.min(...values);
+  const padding = (max - min) * 0.05 || max * 0.01 || 1;
+  max += padding;
+  min -= padding;
+
+  const priceY = (price: number): number => top + ((max - price) / (max - min)) * (priceBottom - top);
+  const slot = (right - left) / shown.length;
+  const centerX = (index: number): number => left + slot * (index + 0.5);
+
+  // Grid and price axis
+  const gridLines = 5;
+  for (let i = 0; i <= gridLines; i++) {
+    const price = min + ((max - min) * i) / gridLines;
+    const y = priceY(price);
+    raster.drawDashedLine(left, y, right, COLORS.grid);
+    raster.drawText(formatAxisPrice(price), width - 8, y - LINE_HEIGHT / 2, COLORS.axis, TEXT_SCALE, 'right');
+  }
+
+  // Time axis
+  const intraday = shown.length > 1 && shown[1].openTime - shown[0].openTime < 24 * 60 * 60 * 1000;
+  const labelEvery = Math.max(1, Math.ceil(shown.length / 6));
+  for (let i = 0; i < shown.length; i += labelEvery) {
+    const x = centerX(i);
+    raster.drawLine(x, top, x, bottom, COLORS.grid);
+    const label = formatTime(shown[i].openTime, intraday);
+    const labelX = Math.max(left + raster.measureText(label, TEXT_SCALE) / 2, x);
+    raster.drawText(label, labelX, bottom + 8, COLORS.axis, TEXT_SCALE, 'center');
+  }
+
+  // Volume bars
+  if (options.volume) {
+    const maxVolume = Math.max(...shown.map((candle) => candle.volume)) || 1;
+    const barWidth = Math.max(1, Math.floor(slot * 0.7));
+    shown.forEach((candle, i) => {
+      const barHeight = (candle.volume / maxVolume) * volumeHeight;
+      const color = candle.close >= candle.open ? COLORS.upVolume : COLORS.downVolume;
+      raster.fillRect(centerX(i) - barWidth / 2, bottom - barHeight, barWidth, barHeight, color);
+    });
+  }
+
+  // Price series
+  if (options.type === 'candle') {
+    const bodyWidth = Math.max(1, Math.floor(slot * 0.7));
+    shown.forEach((candle, i) => {
+      const color = candle.close >= candle.open ? COLORS.up : COLORS.down;
+      const x = centerX(i);
+      raster.drawLine(x, priceY(candle.high), x, priceY(candle.low), color);
+      const bodyTop = priceY(Math.max(candle.open, candle.close));
+      const bodyHeight = Math.max(1, priceY(Math.min(candle.open, candle.close)) - bodyTop);
+      raster.fillRect(x - bodyWidth / 2, bodyTop, bodyWidth, bodyHeight, color);
+    });
+  } else {
+    for (let i = 1; i < shown.length; i++) {
+      raster.drawLine(centerX(i - 1), priceY(shown[i - 1].close), centerX(i), priceY(shown[i].close), COLORS.line, 2);
+    }
+  }
+
+  // Overlays
+  for (const s of series) {
+    for (let i = 1; i < s.values.length; i++) {
+      if (isNaN(s.values[i - 1]) || isNaN(s.values[i])) continue;
+      raster.drawLine(centerX(i - 1), priceY(s.values[i - 1]), centerX(i), priceY(s.values[i]), s.color, 2);
+    }
+  }
+
+  // Last price marker
+  const lastCandle = shown[shown.length - 1];
+  const lastY = priceY(lastCandle.close);
+  const lastColor = lastCandle.close >= lastCandle.open ? COLORS.up : COLORS.down;
+  raster.drawDashedLine(left, lastY, right, lastColor, 2);
+  raster.fillRect(right + 2, lastY - LINE_HEIGHT / 2 - 3, width - right - 2, LINE_HEIGHT + 6, lastColor);
+  raster.drawText(formatAxisPrice(lastCandle.close), width - 8, lastY - LINE_HEIGHT / 2, COLORS.title, TEXT_SCALE, 'right');
+
+  return raster.toPng();
+};
+
+// Horizontal bars of each holding's share of the portfolio value
+export const renderAllocationChart = (
+  title: string,
+  items: Array<{ label: string; value: number }>
+): Buffer => {
+  const rows = items.filter((item) => item.value > 0).sort((a, b) => b.value - a.value);
+  const total = rows.reduce((sum, item) => sum + item.value, 0);
+  const rowHeight = LINE_HEIGHT + 18;
+  const width = 900;
+  const height = 40 + LINE_HEIGHT + Math.max(rows.length, 1) * rowHeight + 20;
+  const raster = new Raster(width, height, COLORS.background);
+
+  raster.drawText(title, 16, 16, COLORS.title, TEXT_SCALE);
+  if (rows.length === 0 || total <= 0) {
+    raster.drawText('NO PRICED HOLDINGS', width / 2, height / 2, COLORS.axis, TEXT_SCALE, 'center');
+    return raster.toPng();
+  }
+
+  const labelWidth = raster.measureText('W'.repeat(Math.min(8, Math.max(...rows.map((r) => r.label.length)))), TEXT_SCALE) + 32;
+  const valueWidth = raster.measureText('100.0%  $000000000', TEXT_SCALE) + 16;
+  const barLeft = 16 + labelWidth;
+  const barMax = width - barLeft - valueWidth;
+
+  rows.forEach((item, i) => {
+    const y = 40 + LINE_HEIGHT + i * rowHeight;
+    const share = item.value / total;
+    raster.drawText(item.label.slice(0, 8), 16, y + 4, COLORS.axis, TEXT_SCALE);
+    raster.fillRect(barLeft, y, Math.max(2, share * barMax), LINE_HEIGHT + 8, COLORS.bar);
+    raster.drawText(
+      `${(share * 100).toFixed(1)}%  $${item.value.toFixed(0)}`,
+      barLeft + Math.max(2, share * barMax) + 12,
+      y + 4,
+      COLORS.title,
+      TEXT_SCALE
+    );
+  });
+
+  return raster.toPng();
+};
@@ -0,0 +1,28 @@
+// Transaction and account pages per chain, keyed by Dune's blockchain names
+const EXPLORERS: Record<string, { tx: string; account: string }> = {
+  ethereum: { tx: 'https://etherscan.io/tx/', account: 'https://etherscan.io/address/' },
+  bnb: { tx: 'https://bscscan.com/tx/', account: 'https://bscscan.com/address/' },
+  polygon: { tx: 'https://polygonscan.com/tx/', account: 'https://polygonscan.com/address/' },
+  arbitrum: { tx: 'https://arbiscan.io/tx/', account: 'https://arbiscan.io/address/' },
+  optimism: { tx: 'https://optimistic.etherscan.io/tx/', account: 'https://optimistic.etherscan.io/address/' },
+  base: { tx: 'https://basescan.org/tx/', account: 'https://basescan.org/address/' },
+  avalanche_c: { tx: 'https://snowtrace.io/tx/', account: 'https://snowtrace.io/address/' },
+  solana: { tx: 'https://solscan.io/tx/', account: 'https://solscan.io/account/' },
+  bitcoin: { tx: 'https://mempool.space/tx/', account: 'https://mempool.space/address/' },
+  polkadot: { tx: 'https://polkadot.subscan.io/extrinsic/', account: 'https://polkadot.subscan.io/account/' },
+  kusama: { tx: 'https://kusama.subscan.io/extrinsic/', account: 'https://kusama.subscan.io/account/' },
+};
+
+export const getExplorerTxUrl = (chain: string, txHash: string): string | null => {
+  const explorer = EXPLORERS[chain.toLowerCase()];
+  return explorer ? `${explorer.tx}${txHash}` : null;
+};
+
+export const getExplorerAccountUrl = (chain: string, address: string): string | null => {
+  const explorer = EXPLORERS[chain.toLowerCase()];
+  return explorer ? `${explorer.account}${address}` : null;
+};
+
+// 0x12ab…9f3e style, for addresses that would otherwise wrap in a chat message
+export const shortenAddress = (address: string): string =>
+  address.length > 14 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
@@ -0,0 +1,229 @@
+import { Candle, TechnicalSnapshot } from '../types/market';
+
+// Series functions return arrays aligned with their input; warm-up positions hold NaN.
+
+export const sma = (values: number[], period: number): number[] =>
+  values.map((_, i) => {
+    if (i < period - 1) return NaN;
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) sum += values[j];
+    return sum / period;
+  });
+
+// Seeded with the SMA of the first `period` values
+export const ema = (values: number[], period: number): number[] => {
+  const result: number[] = new Array(values.length).fill(NaN);
+  const start = values.findIndex((value) => !isNaN(value));
+  if (start === -1 || values.length - start < period) return result;
+
+  const k = 2 / (period + 1);
+  let previous = values.slice(start, start + period).reduce((sum, v) => sum + v, 0) / period;
+  result[start + period - 1] = previous;
+  for (let i = start + period; i < values.length; i++) {
+    previous = values[i] * k + previous * (1 - k);
+    result[i] = previous;
+  }
+  return result;
+};
+
+// Wilder's smoothing, as used by RSI and ATR
+const wilder = (values: number[], period: number, offset: number): number[] => {
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (values.length - offset < period) return result;
+
+  let average = values.slice(offset, offset + period).reduce((sum, v) => sum + v, 0) / period;
+  result[offset + period - 1] = average;
+  for (let i = offset + period; i < values.length; i++) {
+    average = (average * (period - 1) + values[i]) / period;
+    result[i] = average;
+  }
+  return result;
+};
+
+export const rsi = (closes: number[], period: number = 14): number[] => {
+  const gains = closes.map((close, i) => (i === 0 ? 0 : Math.max(close - closes[i - 1], 0)));
+  const losses = closes.map((close, i) => (i === 0 ? 0 : Math.max(closes[i - 1] - close, 0)));
+  const avgGain = wilder(gains, period, 1);
+  const avgLoss = wilder(losses, period, 1);
+
+  return closes.map((_, i) => {
+    if (isNaN(avgGain[i])) return NaN;
+    if (avgLoss[i] === 0) return 100;
+    return 100 - 100 / (1 + avgGain[i] / avgLoss[i]);
+  });
+};
+
+export const macd = (
+  closes: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): { macd: number[]; signal: number[]; histogram: number[] } => {
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const line = closes.map((_, i) => fast[i] - slow[i]);
+  const signal = ema(line, signalPeriod);
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((value, i) => value - signal[i]),
+  };
+};
+
+export const bollinger = (
+  closes: number[],
+  period: number = 20,
+  multiplier: number = 2
+): { upper: number[]; middle: number[]; lower: number[] } => {
+  const middle = sma(closes, period);
+  const deviation = closes.map((_, i) => {
+    if (isNaN(middle[i])) return NaN;
+    let sumSquares = 0;
+    for (let j = i - period + 1; j <= i; j++) sumSquares += (closes[j] - middle[i]) ** 2;
+    return Math.sqrt(sumSquares / period);
+  });
+  return {
+    upper: middle.map((m, i) => m + multiplier * deviation[i]),
+    middle,
+    lower: middle.map((m, i) => m - multiplier * deviation[i]),
+  };
+};
+
+export const atr = (candles: Candle[], period: number = 14): number[] => {
+  const trueRanges = candles.map((candle, i) => {
+    if (i === 0) return candle.high - candle.low;
+    const previousClose = candles[i - 1].close;
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose)
+    );
+  });
+  return wilder(trueRanges, period, 0);
+};
+
+// Cumulative over the supplied candles; NaN when the source carries no volume
+export const vwap = (candles: Candle[]): number => {
+  let weighted = 0;
+  let volume = 0;
+  for (const candle of candles) {
+    const typical = (candle.high + candle.low + candle.close) / 3;
+    weighted += typical * candle.volume;
+    volume += candle.volume;
+  }
+  return volume > 0 ? weighted / volume : NaN;
+};
+
+// Classic floor pivots from a completed candle
+export const pivotPoints = (candle: Candle): {
+  pivot: number;
+  r1: number;
+  r2: number;
+  s1: number;
+  s2: number;
+} => {
+  const pivot = (candle.high + candle.low + candle.close) / 3;
+  const range = candle.high - candle.low;
+  return {
+    pivot,
+    r1: 2 * pivot - candle.low,
+    r2: pivot + range,
+    s1: 2 * pivot - candle.high,
+    s2: pivot - range,
+  };
+};
+
+// Swing highs/lows: a candle whose high (low) is the extreme of `lookback` neighbours on each side.
+// Levels within `tolerance` of each other are merged so a retested level counts once.
+export const swingLevels = (
+  candles: Candle[],
+  price: number,
+  lookback: number = 2,
+  tolerance: number = 0.005
+): { support: number[]; resistance: number[] } => {
+  const levels: number[] = [];
+  for (let i = lookback; i < candles.length - lookback; i++) {
+    const window = candles.slice(i - lookback, i + lookback + 1);
+    if (window.every((c) => c.high <= candles[i].high)) levels.push(candles[i].high);
+    if (window.every((c) => c.low >= candles[i].low)) levels.push(candles[i].low);
+  }
+
+  const merged: number[] = [];
+  for (const level of levels.sort((a, b) => a - b)) {
+    const last = merged[merged.length - 1];
+    if (last !== undefined && Math.abs(level - last) / last <= tolerance) {
+      merged[merged.length - 1] = (last + level) / 2;
+    } else {
+      merged.push(level);
+    }
+  }
+
+  return {
+    support: merged.filter((level) => level < price).reverse().slice(0, 3),
+    resistance: merged.filter((level) => level > price).slice(0, 3),
+  };
+};
+
+const latest = (values: number[]): number | null => {
+  const value = values[values.length - 1];
+  return value === undefined || isNaN(value) ? null : value;
+};
+
+export const buildTechnicalSnapshot = (
+  symbol: string,
+  interval: string,
+  candles: Candle[]
+): TechnicalSnapshot => {
+  if (candles.length === 0) {
+    throw new Error(`No candles for ${symbol} ${interval}`);
+  }
+
+  const closes = candles.map((candle) => candle.close);
+  const price = closes[closes.length - 1];
+  const macdSeries = macd(closes);
+  const bands = bollinger(closes);
+  const macdValue = latest(macdSeries.macd);
+  const macdSignal = latest(macdSeries.signal);
+  const upper = latest(bands.upper);
+  const lower = latest(bands.lower);
+  const sma20 = latest(sma(closes, 20));
+  const sma50 = latest(sma(closes, 50));
+  const vwapValue = vwap(candles);
+  // The newest candle is usually still forming, so pivots come from the one before it
+  const pivotSource = candles.length > 1 ? candles[candles.length - 2] : candles[0];
+  const levels = swingLevels(candles, price);
+
+  const histogram = macdValue !== null && macdSignal !== null ? macdValue - macdSignal : null;
+  const baseline = sma50 ?? sma20;
+  let trend: TechnicalSnapshot['trend'] = 'neutral';
+  if (baseline !== null && histogram !== null) {
+    if (price > baseline && histogram > 0) trend = 'bullish';
+    else if (price < baseline && histogram < 0) trend = 'bearish';
+  }
+
+  return {
+    symbol,
+    interval,
+    asOf: candles[candles.length - 1].openTime,
+    candleCount: candles.length,
+    price,
+    sma20,
+    sma50,
+    sma200: latest(sma(closes, 200)),
+    ema12: latest(ema(closes, 12)),
+    ema26: latest(ema(closes, 26)),
+    rsi14: latest(rsi(closes, 14)),
+    macd: macdValue !== null && macdSignal !== null && histogram !== null
+      ? { macd: macdValue, signal: macdSignal, histogram }
+      : null,
+    bollinger: upper !== null && lower !== null && sma20 !== null
+      ? { upper, middle: sma20, lower }
+      : null,
+    atr14: latest(atr(candles, 14)),
+    vwap: isNaN(vwapValue) ? null : vwapValue,
+    pivots: pivotPoints(pivotSource),
+    support: levels.support,
+    resistance: levels.resistance,
+    trend,
+  };
+};
@@ -0,0 +1,17 @@
+export const KLINE_INTERVALS = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+} as const;
+
+export type KlineInterval = keyof typeof KLINE_INTERVALS;
+
+export const KLINE_INTERVAL_NAMES = Object.keys(KLINE_INTERVALS) as KlineInterval[];
+
+export const isKlineInterval = (value: string): value is KlineInterval =>
+  Object.prototype.hasOwnProperty.call(KLINE_INTERVALS, value);
+
+export const intervalToMs = (interval: KlineInterval): number => KLINE_INTERVALS[interval];
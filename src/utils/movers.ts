@@ -0,0 +1,44 @@
+import { MarketCapBucket, MarketMover, MoversTab } from '../types/market';
+
+export const MOVERS_TABS: MoversTab[] = ['gainers', 'losers', 'volume', 'trending'];
+
+export const MARKET_CAP_BUCKETS: Record<MarketCapBucket, { label: string; min: number; max: number }> = {
+  all: { label: 'All caps', min: 0, max: Infinity },
+  large: { label: 'Large >$10B', min: 10e9, max: Infinity },
+  mid: { label: 'Mid $1B–10B', min: 1e9, max: 10e9 },
+  small: { label: 'Small <$1B', min: 0, max: 1e9 },
+};
+
+export const isMoversTab = (value: string): value is MoversTab => (MOVERS_TABS as string[]).includes(value);
+
+export const isMarketCapBucket = (value: string): value is MarketCapBucket => value in MARKET_CAP_BUCKETS;
+
+// Coins without a known market cap only show up unfiltered
+export const inMarketCapBucket = (mover: MarketMover, bucket: MarketCapBucket): boolean => {
+  if (bucket === 'all') return true;
+  if (mover.marketCap === null) return false;
+  const { min, max } = MARKET_CAP_BUCKETS[bucket];
+  return mover.marketCap >= min && mover.marketCap < max;
+};
+
+// 24h volume as a share of market cap: a coin trading far more than usual for its size stands out
+// even when its absolute volume is small
+export const getTurnover = (mover: MarketMover): number | null =>
+  mover.marketCap ? mover.volume24h / mover.marketCap : null;
+
+// Gainers, losers and volume are sorted here; trending keeps the order the source ranked it in
+export const rankMovers = (movers: MarketMover[], tab: MoversTab, bucket: MarketCapBucket): MarketMover[] => {
+  const filtered = movers.filter((mover) => inMarketCapBucket(mover, bucket));
+  switch (tab) {
+    case 'gainers':
+      return filtered.filter((mover) => mover.change24h > 0).sort((a, b) => b.change24h - a.change24h);
+    case 'losers':
+      return filtered.filter((mover) => mover.change24h < 0).sort((a, b) => a.change24h - b.change24h);
+    case 'volume':
+      return filtered
+        .filter((mover) => getTurnover(mover) !== null)
+        .sort((a, b) => (getTurnover(b) as number) - (getTurnover(a) as number));
+    case 'trending':
+      return filtered;
+  }
+};
@@ -0,0 +1,77 @@
+import { getQuantityHeld } from './portfolio-math';
+import { PaperAccount, PaperOrder } from '../types/paper';
+
+// Limit orders fill at or better than their price; stops turn into market orders once crossed
+export const isOrderTriggered = (order: PaperOrder, price: number): boolean => {
+  if (order.type === 'market' || order.price === undefined) return true;
+  if (order.type === 'limit') {
+    return order.side === 'buy' ? price <= order.price : price >= order.price;
+  }
+  return order.side === 'buy' ? price >= order.price : price <= order.price;
+};
+
+// Cash already promised to resting buy orders, fees included
+export const getReservedCash = (account: PaperAccount, feeRate: number): number =>
+  account.orders
+    .filter((order) => order.status === 'open' && order.side === 'buy')
+    .reduce((total, order) => total + order.quantity * (order.price ?? 0) * (1 + feeRate), 0);
+
+export const getReservedQuantity = (account: PaperAccount, symbol: string): number =>
+  account.orders
+    .filter((order) => order.status === 'open' && order.side === 'sell' && order.symbol === symbol)
+    .reduce((total, order) => total + order.quantity, 0);
+
+// Settles one order against `price`, returning the updated account. The order being filled may
+// still be open in `account`, so its own reservation is ignored when checking funds.
+export const fillOrder = (
+  account: PaperAccount,
+  order: PaperOrder,
+  price: number,
+  feeRate: number,
+  now: number
+): { account: PaperAccount; order: PaperOrder } => {
+  const notional = order.quantity * price;
+  const fee = notional * feeRate;
+  let rejection: string | undefined;
+
+  if (order.side === 'buy' && notional + fee > account.cash) {
+    rejection = `Insufficient cash: needed $${(notional + fee).toFixed(2)}, had $${account.cash.toFixed(2)}`;
+  }
+  if (order.side === 'sell') {
+    const held = getQuantityHeld(account.fills, order.symbol);
+    if (order.quantity > held) {
+      rejection = `Insufficient ${order.symbol}: needed ${order.quantity}, held ${held}`;
+    }
+  }
+
+  const settled: PaperOrder = rejection
+    ? { ...order, status: 'rejected', reason: rejection }
+    : { ...order, status: 'filled', filledAt: now, fillPrice: price, fee };
+  const orders = [...account.orders.filter((existing) => existing.id !== order.id), settled];
+
+  if (rejection) {
+    return { account: { ...account, orders }, order: settled };
+  }
+
+  return {
+    account: {
+      ...account,
+      cash: account.cash + (order.side === 'buy' ? -(notional + fee) : notional - fee),
+      coinIds: { ...account.coinIds, [order.symbol]: order.coinId },
+      fills: [
+        ...account.fills,
+        {
+          id: order.id,
+          symbol: order.symbol,
+          type: order.side,
+          quantity: order.quantity,
+          price,
+          fee,
+          timestamp: now,
+        },
+      ],
+      orders,
+    },
+    order: settled,
+  };
+};
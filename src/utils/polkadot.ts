@@ -0,0 +1,55 @@
+import { Keyring } from '@polkadot/api';
+import { SubstrateChain } from '../types/polkadot';
+
+export const SS58_FORMATS: Record<SubstrateChain, number> = {
+  polkadot: 0,
+  kusama: 2,
+};
+
+const keyring = new Keyring();
+
+// The chain an address was encoded for, or null for anything that isn't a Polkadot or Kusama
+// address (including generic substrate addresses, which could belong to either)
+export const detectChain = (address: string): SubstrateChain | null => {
+  try {
+    const publicKey = keyring.decodeAddress(address.trim());
+    const match = (Object.keys(SS58_FORMATS) as SubstrateChain[]).find(
+      (chain) => keyring.encodeAddress(publicKey, SS58_FORMATS[chain]) === address.trim()
+    );
+    return match ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Re-encodes an address for `chain`, so comparisons work whatever format it was given in
+export const toChainAddress = (address: string, chain: SubstrateChain): string =>
+  keyring.encodeAddress(keyring.decodeAddress(address.trim()), SS58_FORMATS[chain]);
+
+// Planck to whole tokens. The integer part is divided out first so large balances don't lose
+// precision on the way to a float.
+export const fromPlanck = (value: { toString(): string } | bigint, decimals: number): number => {
+  const planck = BigInt(value.toString());
+  const unit = BigInt(10) ** BigInt(decimals);
+  return Number(planck / unit) + Number(planck % unit) / Number(unit);
+};
+
+export const formatTokens = (amount: number, token: string, maximumFractionDigits: number = 4): string =>
+  `${amount.toLocaleString('en-US', { maximumFractionDigits })} ${token}`;
+
+export type ChainEvent =
+  | { kind: 'transfer'; from: string; to: string; amount: string }
+  | { kind: 'reward'; stash: string; amount: string };
+
+// Reads balances.Transfer and staking rewards from an event's section, method and stringified
+// data. Runtimes differ on the reward event: older ones emit Reward(stash, amount), current ones
+// Rewarded(stash, dest, amount), so the amount is always taken from the end.
+export const parseChainEvent = (section: string, method: string, data: string[]): ChainEvent | null => {
+  if (section === 'balances' && method === 'Transfer' && data.length >= 3) {
+    return { kind: 'transfer', from: data[0], to: data[1], amount: data[2] };
+  }
+  if (section === 'staking' && (method === 'Rewarded' || method === 'Reward') && data.length >= 2) {
+    return { kind: 'reward', stash: data[0], amount: data[data.length - 1] };
+  }
+  return null;
+};
@@ -0,0 +1,145 @@
+import { CostBasisMethod, Holding, RealizedLot, Transaction } from '../types/portfolio';
+
+interface Lot {
+  quantity: number;
+  unitCost: number;
+}
+
+interface PositionState {
+  lots: Lot[];
+  quantity: number;
+  costBasis: number;
+  realizedPnl: number;
+}
+
+// Quantities below this are treated as fully closed to absorb float noise
+const DUST = 1e-12;
+const LONG_TERM_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const isCostBasisMethod = (value: string | undefined): value is CostBasisMethod =>
+  value === 'fifo' || value === 'average';
+
+const isAcquisition = (tx: Transaction): boolean =>
+  tx.type === 'buy' || tx.type === 'transfer_in';
+
+// Removes `quantity` from the position and returns the cost basis it carried
+const consume = (state: PositionState, quantity: number, method: CostBasisMethod): number => {
+  if (method === 'average') {
+    const averageCost = state.quantity > 0 ? state.costBasis / state.quantity : 0;
+    return averageCost * quantity;
+  }
+
+  let remaining = quantity;
+  let cost = 0;
+  while (remaining > DUST && state.lots.length > 0) {
+    const lot = state.lots[0];
+    const taken = Math.min(lot.quantity, remaining);
+    cost += taken * lot.unitCost;
+    lot.quantity -= taken;
+    remaining -= taken;
+    if (lot.quantity <= DUST) {
+      state.lots.shift();
+    }
+  }
+  return cost;
+};
+
+export const sortTransactions = (transactions: Transaction[]): Transaction[] =>
+  [...transactions].sort((a, b) => a.timestamp - b.timestamp);
+
+export const computeHoldings = (
+  transactions: Transaction[],
+  method: CostBasisMethod = 'fifo'
+): Holding[] => {
+  const positions = new Map<string, PositionState>();
+
+  for (const tx of sortTransactions(transactions)) {
+    const state = positions.get(tx.symbol) || { lots: [], quantity: 0, costBasis: 0, realizedPnl: 0 };
+    positions.set(tx.symbol, state);
+
+    if (isAcquisition(tx)) {
+      const cost = tx.quantity * tx.price + tx.fee;
+      state.lots.push({ quantity: tx.quantity, unitCost: cost / tx.quantity });
+      state.quantity += tx.quantity;
+      state.costBasis += cost;
+      continue;
+    }
+
+    const quantity = Math.min(tx.quantity, state.quantity);
+    const cost = consume(state, quantity, method);
+    state.quantity -= quantity;
+    state.costBasis = state.quantity > DUST ? state.costBasis - cost : 0;
+
+    if (tx.type === 'sell') {
+      state.realizedPnl += quantity * tx.price - tx.fee - cost;
+    } else {
+      // Moving coins out is not a disposal; only the network fee is lost
+      state.realizedPnl -= tx.fee;
+    }
+  }
+
+  return Array.from(positions.entries()).map(([symbol, state]) => {
+    const quantity = state.quantity > DUST ? state.quantity : 0;
+    return {
+      symbol,
+      quantity,
+      costBasis: quantity > 0 ? state.costBasis : 0,
+      averageCost: quantity > 0 ? state.costBasis / quantity : 0,
+      realizedPnl: state.realizedPnl,
+    };
+  });
+};
+
+export const getQuantityHeld = (transactions: Transaction[], symbol: string): number =>
+  computeHoldings(transactions.filter((tx) => tx.symbol === symbol))
+    .reduce((total, holding) => total + holding.quantity, 0);
+
+// FIFO lot matching: every sell is split across the lots it closes, one RealizedLot per slice
+export const matchRealizedLots = (transactions: Transaction[]): RealizedLot[] => {
+  const openLots = new Map<string, Array<Lot & { acquiredAt: number }>>();
+  const realized: RealizedLot[] = [];
+
+  for (const tx of sortTransactions(transactions)) {
+    const lots = openLots.get(tx.symbol) || [];
+    openLots.set(tx.symbol, lots);
+
+    if (isAcquisition(tx)) {
+      lots.push({
+        quantity: tx.quantity,
+        unitCost: (tx.quantity * tx.price + tx.fee) / tx.quantity,
+        acquiredAt: tx.timestamp,
+      });
+      continue;
+    }
+
+    let remaining = tx.quantity;
+    while (remaining > DUST && lots.length > 0) {
+      const lot = lots[0];
+      const taken = Math.min(lot.quantity, remaining);
+
+      if (tx.type === 'sell') {
+        // The sell fee is spread across the slices pro rata
+        const proceeds = taken * tx.price - tx.fee * (taken / tx.quantity);
+        const costBasis = taken * lot.unitCost;
+        realized.push({
+          symbol: tx.symbol,
+          quantity: taken,
+          acquiredAt: lot.acquiredAt,
+          disposedAt: tx.timestamp,
+          proceeds,
+          costBasis,
+          gain: proceeds - costBasis,
+          term: tx.timestamp - lot.acquiredAt > LONG_TERM_MS ? 'long' : 'short',
+        });
+      }
+
+      lot.quantity -= taken;
+      remaining -= taken;
+      if (lot.quantity <= DUST) {
+        lots.shift();
+      }
+    }
+  }
+
+  return realized;
+};
@@ -0,0 +1,98 @@
+import { Candle } from '../types/market';
+import { CalibrationBucket, SignalRecord, SignalStats } from '../types/signal';
+
+const CONFIDENCE_BUCKETS: Array<[number, number]> = [
+  [0, 0.4],
+  [0.4, 0.55],
+  [0.55, 0.7],
+  [0.7, 0.85],
+  [0.85, 1.0001],
+];
+
+const directedReturn = (record: SignalRecord, exitPrice: number): number => {
+  const direction = record.signal === 'sell' ? -1 : 1;
+  return ((exitPrice - record.priceAtIssue) / record.priceAtIssue) * 100 * direction;
+};
+
+// Walks the closed candles after issuance. A candle that touches both the stop and the first
+// target counts as stopped, since the candle alone can't tell which came first.
+export const gradeSignal = (
+  record: SignalRecord,
+  candles: Candle[],
+  intervalMs: number,
+  now: number
+): Partial<SignalRecord> | null => {
+  if (record.outcome !== 'open') return null;
+
+  const closed = candles.filter(
+    (candle) =>
+      candle.openTime >= record.issuedAt &&
+      candle.openTime + intervalMs <= Math.min(now, record.expiresAt)
+  );
+
+  if (record.signal !== 'hold' && record.stopLoss !== null && record.targets.length > 0) {
+    const isBuy = record.signal === 'buy';
+    const target = record.targets[0];
+    for (const candle of closed) {
+      const stopped = isBuy ? candle.low <= record.stopLoss : candle.high >= record.stopLoss;
+      const hit = isBuy ? candle.high >= target : candle.low <= target;
+      if (stopped || hit) {
+        const exitPrice = stopped ? record.stopLoss : target;
+        return {
+          outcome: stopped ? 'stopped' : 'hit',
+          resolvedAt: candle.openTime + intervalMs,
+          exitPrice,
+          returnPercent: directedReturn(record, exitPrice),
+        };
+      }
+    }
+  }
+
+  if (now < record.expiresAt) return null;
+
+  const last = closed[closed.length - 1];
+  if (!last) {
+    return { outcome: 'expired', resolvedAt: record.expiresAt };
+  }
+  return {
+    outcome: 'expired',
+    resolvedAt: record.expiresAt,
+    exitPrice: last.close,
+    // Holds don't take a position, so they have no return to average
+    returnPercent: record.signal === 'hold' ? undefined : directedReturn(record, last.close),
+  };
+};
+
+export const computeSignalStats = (key: string, records: SignalRecord[]): SignalStats => {
+  const actionable = records.filter((record) => record.signal !== 'hold');
+  const graded = actionable.filter((record) => record.outcome !== 'open');
+  const hits = graded.filter((record) => record.outcome === 'hit').length;
+  const returns = graded
+    .map((record) => record.returnPercent)
+    .filter((value): value is number => value !== undefined);
+
+  const calibration: CalibrationBucket[] = [];
+  for (const [low, high] of CONFIDENCE_BUCKETS) {
+    const bucket = graded.filter((record) => record.confidence >= low && record.confidence < high);
+    if (bucket.length === 0) continue;
+    calibration.push({
+      range: `${Math.round(low * 100)}-${Math.min(100, Math.round(high * 100))}%`,
+      count: bucket.length,
+      statedConfidence: bucket.reduce((sum, record) => sum + record.confidence, 0) / bucket.length,
+      hitRate: bucket.filter((record) => record.outcome === 'hit').length / bucket.length,
+    });
+  }
+
+  return {
+    key,
+    total: records.length,
+    open: records.filter((record) => record.outcome === 'open').length,
+    graded: graded.length,
+    hits,
+    stops: graded.filter((record) => record.outcome === 'stopped').length,
+    expired: graded.filter((record) => record.outcome === 'expired').length,
+    hitRate: graded.length > 0 ? hits / graded.length : null,
+    averageReturn: returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : null,
+    calibration,
+  };
+};
@@ -0,0 +1,23 @@
+const BARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+// One block character per value, scaled between the series' own min and max
+export const sparkline = (values: number[], width: number = values.length): string => {
+  const series = downsample(values.filter((value) => Number.isFinite(value)), width);
+  if (series.length === 0) return '';
+
+  const min = Math.min(...series);
+  const max = Math.max(...series);
+  if (max === min) {
+    return BARS[3].repeat(series.length);
+  }
+  return series
+    .map((value) => BARS[Math.round(((value - min) / (max - min)) * (BARS.length - 1))])
+    .join('');
+};
+
+// Keeps the last value of each bucket so the line still ends on the latest close
+const downsample = (values: number[], width: number): number[] => {
+  if (width <= 0 || values.length <= width) return values;
+  const step = values.length / width;
+  return Array.from({ length: width }, (_, i) => values[Math.min(values.length - 1, Math.ceil((i + 1) * step) - 1)]);
+};
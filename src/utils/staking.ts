@@ -0,0 +1,43 @@
+import { ValidatorChange, ValidatorState } from '../types/staking';
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+// Commission is stored as a Perbill (parts per billion)
+export const perbillToPercent = (perbill: number): number => perbill / 1e7;
+
+export const erasPerYear = (eraLengthBlocks: number, blockTimeMs: number): number =>
+  eraLengthBlocks > 0 && blockTimeMs > 0 ? YEAR_MS / (eraLengthBlocks * blockTimeMs) : 0;
+
+// Annual yield from the last era's payout over the total stake, net of commission, assuming
+// rewards are restaked every era. Nominators of a validator share its stake-weighted payout,
+// so this is an average; a validator's era points decide how far above or below it lands.
+export const estimateApy = (
+  eraPayout: number,
+  totalStake: number,
+  eras: number,
+  commissionPercent: number
+): number | null => {
+  if (!(eraPayout > 0) || !(totalStake > 0) || !(eras > 0)) return null;
+  const eraRate = (eraPayout / totalStake) * (1 - commissionPercent / 100);
+  return (Math.pow(1 + eraRate, eras) - 1) * 100;
+};
+
+// Only validators seen on both checks are compared, so changing nominations never alerts
+export const diffValidators = (
+  previous: Record<string, ValidatorState>,
+  current: Record<string, ValidatorState>
+): ValidatorChange[] => {
+  const changes: ValidatorChange[] = [];
+  for (const [validator, state] of Object.entries(current)) {
+    const before = previous[validator];
+    if (!before) continue;
+
+    if (before.active && !state.active) {
+      changes.push({ validator, kind: 'inactive', previousCommission: before.commission, commission: state.commission });
+    }
+    if (state.commission > before.commission) {
+      changes.push({ validator, kind: 'commission_raised', previousCommission: before.commission, commission: state.commission });
+    }
+  }
+  return changes;
+};
@@ -0,0 +1,283 @@
+import { parseCsv } from './csv';
+import { TransactionInput, TransactionType } from '../types/portfolio';
+
+export type ImportFormat = 'binance' | 'kraken' | 'generic';
+
+export interface ColumnMapping {
+  date: string;
+  symbol: string;
+  side: string;
+  quantity: string;
+  price: string;
+  fee?: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  headers: string[];
+  transactions: TransactionInput[];
+  skipped: number;
+  errors: string[];
+  // Set when a generic CSV can't be read without an explicit column mapping
+  missingColumns?: string[];
+}
+
+// Only USD-denominated trades can be valued without an FX conversion
+const USD_QUOTES = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'TUSD', 'USD'];
+const OTHER_QUOTES = ['BTC', 'ETH', 'BNB', 'EUR', 'GBP', 'TRY'];
+const MAX_REPORTED_ERRORS = 5;
+
+const COLUMN_ALIASES: Record<keyof ColumnMapping, string[]> = {
+  date: ['date', 'time', 'timestamp', 'datetime', 'date(utc)'],
+  symbol: ['symbol', 'asset', 'coin', 'ticker', 'currency'],
+  side: ['side', 'type', 'action', 'direction'],
+  quantity: ['quantity', 'amount', 'qty', 'size', 'volume'],
+  price: ['price', 'unit price', 'rate'],
+  fee: ['fee', 'fees', 'commission'],
+};
+
+const KRAKEN_ASSETS: Record<string, string> = {
+  XXBT: 'BTC',
+  XBT: 'BTC',
+  XETH: 'ETH',
+  XXDG: 'DOGE',
+  XDG: 'DOGE',
+  XLTC: 'LTC',
+  XXRP: 'XRP',
+  XXLM: 'XLM',
+  XETC: 'ETC',
+  XXMR: 'XMR',
+  XZEC: 'ZEC',
+};
+
+const parseNumber = (value: string | undefined): number =>
+  value === undefined ? NaN : parseFloat(value.replace(/,/g, '').trim());
+
+// Exchange exports are UTC but often omit the zone designator
+const parseDate = (value: string | undefined): number => {
+  if (!value) return NaN;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const numeric = parseFloat(trimmed);
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(trimmed);
+  const isoLike = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}/.test(trimmed);
+  return Date.parse(isoLike ? trimmed.replace(' ', 'T') + (hasZone ? '' : 'Z') : trimmed);
+};
+
+// "0.5BTC" -> { amount: 0.5, asset: 'BTC' }
+const parseAmountWithAsset = (value: string | undefined): { amount: number; asset: string } => {
+  const match = (value || '').trim().match(/^([\d.,]+)\s*([A-Za-z0-9]*)$/);
+  return match
+    ? { amount: parseNumber(match[1]), asset: match[2].toUpperCase() }
+    : { amount: NaN, asset: '' };
+};
+
+const splitPair = (pair: string): { base: string; quote: string } | null => {
+  const upper = pair.toUpperCase().replace(/[-_/]/g, '');
+  for (const quote of [...USD_QUOTES, ...OTHER_QUOTES]) {
+    if (upper.endsWith(quote) && upper.length > quote.length) {
+      return { base: upper.slice(0, -quote.length), quote };
+    }
+  }
+  return null;
+};
+
+const parseSide = (value: string | undefined): TransactionType | null => {
+  const side = (value || '').trim().toLowerCase();
+  if (['buy', 'b', 'bought'].includes(side)) return 'buy';
+  if (['sell', 's', 'sold'].includes(side)) return 'sell';
+  if (['deposit', 'receive', 'in', 'transfer_in', 'transfer in'].includes(side)) return 'transfer_in';
+  if (['withdraw', 'withdrawal', 'send', 'out', 'transfer_out', 'transfer out'].includes(side)) {
+    return 'transfer_out';
+  }
+  return null;
+};
+
+const normalizeKrakenAsset = (asset: string): string => {
+  if (KRAKEN_ASSETS[asset]) return KRAKEN_ASSETS[asset];
+  return asset.length === 4 && /^[XZ]/.test(asset) ? asset.slice(1) : asset;
+};
+
+const toRecords = (rows: string[][], headers: string[]): Array<Record<string, string>> =>
+  rows.map((row) => Object.fromEntries(headers.map((header, i) => [header, row[i] ?? ''])));
+
+export const detectFormat = (headers: string[]): ImportFormat => {
+  const lower = headers.map((header) => header.toLowerCase());
+  if (lower.includes('date(utc)') && (lower.includes('pair') || lower.includes('market'))) {
+    return 'binance';
+  }
+  if (lower.includes('txid') && lower.includes('pair') && lower.includes('vol')) {
+    return 'kraken';
+  }
+  return 'generic';
+};
+
+// Parses "date=Time symbol=Coin side=Action quantity=Qty price=Price fee=Fee"
+export const parseColumnMapping = (text: string): Partial<ColumnMapping> => {
+  const mapping: Partial<ColumnMapping> = {};
+  for (const match of text.matchAll(/(\w+)\s*=\s*("[^"]+"|[^\s]+)/g)) {
+    const key = match[1].toLowerCase() as keyof ColumnMapping;
+    if (key in COLUMN_ALIASES) {
+      mapping[key] = match[2].replace(/"/g, '');
+    }
+  }
+  return mapping;
+};
+
+const resolveMapping = (
+  headers: string[],
+  overrides: Partial<ColumnMapping>
+): { mapping: Partial<ColumnMapping>; missing: string[] } => {
+  const mapping: Partial<ColumnMapping> = {};
+  for (const key of Object.keys(COLUMN_ALIASES) as Array<keyof ColumnMapping>) {
+    const override = overrides[key];
+    const header = override
+      ? headers.find((h) => h.toLowerCase() === override.toLowerCase())
+      : headers.find((h) => COLUMN_ALIASES[key].includes(h.toLowerCase()));
+    if (header) {
+      mapping[key] = header;
+    }
+  }
+  const required: Array<keyof ColumnMapping> = ['date', 'symbol', 'side', 'quantity', 'price'];
+  return { mapping, missing: required.filter((key) => !mapping[key]) };
+};
+
+const addError = (result: ImportResult, index: number, reason: string): void => {
+  result.skipped++;
+  if (result.errors.length < MAX_REPORTED_ERRORS) {
+    // +2: one for the header row, one for 1-based line numbers
+    result.errors.push(`line ${index + 2}: ${reason}`);
+  }
+};
+
+const importBinance = (records: Array<Record<string, string>>, result: ImportResult): void => {
+  for (const [index, record] of records.entries()) {
+    const pair = splitPair(record['Pair'] || record['Market'] || '');
+    const type = parseSide(record['Side'] || record['Type']);
+    const price = parseNumber(record['Price']);
+    const timestamp = parseDate(record['Date(UTC)']);
+    const executed = record['Executed'] !== undefined
+      ? parseAmountWithAsset(record['Executed']).amount
+      : parseNumber(record['Amount']);
+    const fee = record['Fee Coin'] !== undefined
+      ? { amount: parseNumber(record['Fee']), asset: record['Fee Coin'].toUpperCase() }
+      : parseAmountWithAsset(record['Fee']);
+
+    if (!pair || !USD_QUOTES.includes(pair.quote)) {
+      addError(result, index, `unsupported pair ${record['Pair'] || record['Market']}`);
+      continue;
+    }
+    if (!type || isNaN(price) || isNaN(executed) || isNaN(timestamp)) {
+      addError(result, index, 'unreadable row');
+      continue;
+    }
+
+    // Fees paid in the base asset are valued at the fill price; fees in other coins (BNB) are not convertible here
+    let feeUsd = 0;
+    if (!isNaN(fee.amount)) {
+      if (USD_QUOTES.includes(fee.asset)) feeUsd = fee.amount;
+      else if (fee.asset === pair.base) feeUsd = fee.amount * price;
+    }
+
+    result.transactions.push({
+      symbol: pair.base,
+      type,
+      quantity: executed,
+      price,
+      fee: feeUsd,
+      timestamp,
+      source: 'binance',
+      externalId: `binance:${timestamp}:${pair.base}:${type}:${executed}:${price}`,
+    });
+  }
+};
+
+const importKraken = (records: Array<Record<string, string>>, result: ImportResult): void => {
+  for (const [index, record] of records.entries()) {
+    const pair = (record['pair'] || '').toUpperCase();
+    const quote = ['ZUSD', ...USD_QUOTES].find((q) => pair.endsWith(q) && pair.length > q.length);
+    const type = parseSide(record['type']);
+    const price = parseNumber(record['price']);
+    const quantity = parseNumber(record['vol']);
+    const fee = parseNumber(record['fee']);
+    const timestamp = parseDate(record['time']);
+
+    if (!quote) {
+      addError(result, index, `unsupported pair ${record['pair']}`);
+      continue;
+    }
+    if (!type || isNaN(price) || isNaN(quantity) || isNaN(timestamp)) {
+      addError(result, index, 'unreadable row');
+      continue;
+    }
+
+    result.transactions.push({
+      symbol: normalizeKrakenAsset(pair.slice(0, -quote.length)),
+      type,
+      quantity,
+      price,
+      fee: isNaN(fee) ? 0 : fee,
+      timestamp,
+      source: 'kraken',
+      externalId: record['txid'] ? `kraken:${record['txid']}` : undefined,
+    });
+  }
+};
+
+const importGeneric = (
+  records: Array<Record<string, string>>,
+  mapping: ColumnMapping,
+  result: ImportResult
+): void => {
+  for (const [index, record] of records.entries()) {
+    const type = parseSide(record[mapping.side]);
+    const quantity = parseNumber(record[mapping.quantity]);
+    const price = parseNumber(record[mapping.price]);
+    const fee = mapping.fee ? parseNumber(record[mapping.fee]) : 0;
+    const timestamp = parseDate(record[mapping.date]);
+    const symbol = (record[mapping.symbol] || '').trim().toUpperCase();
+
+    if (!symbol || !type || isNaN(quantity) || isNaN(price) || isNaN(timestamp)) {
+      addError(result, index, 'unreadable row');
+      continue;
+    }
+
+    result.transactions.push({
+      symbol,
+      type,
+      quantity: Math.abs(quantity),
+      price,
+      fee: isNaN(fee) ? 0 : Math.abs(fee),
+      timestamp,
+      source: 'csv',
+    });
+  }
+};
+
+export const importTrades = (
+  csvText: string,
+  mappingOverrides: Partial<ColumnMapping> = {}
+): ImportResult => {
+  const [headerRow = [], ...rows] = parseCsv(csvText);
+  const headers = headerRow.map((header) => header.trim());
+  const format = detectFormat(headers);
+  const records = toRecords(rows, headers);
+  const result: ImportResult = { format, headers, transactions: [], skipped: 0, errors: [] };
+
+  if (format === 'binance') {
+    importBinance(records, result);
+  } else if (format === 'kraken') {
+    importKraken(records, result);
+  } else {
+    const { mapping, missing } = resolveMapping(headers, mappingOverrides);
+    if (missing.length > 0) {
+      result.missingColumns = missing;
+      return result;
+    }
+    importGeneric(records, mapping as ColumnMapping, result);
+  }
+
+  return result;
+};
@@ -0,0 +1,53 @@
+import { WhaleTransaction } from '../types/whale';
+
+// Column names differ between whale queries; the first alias present wins
+const COLUMNS = {
+  txHash: ['tx_hash', 'hash', 'transaction_hash', 'extrinsic_hash'],
+  chain: ['blockchain', 'chain'],
+  symbol: ['symbol', 'token_symbol', 'token', 'asset'],
+  amount: ['amount', 'token_amount', 'value'],
+  amountUsd: ['amount_usd', 'value_usd', 'usd_value'],
+  from: ['from', 'from_address', 'sender'],
+  to: ['to', 'to_address', 'receiver'],
+  time: ['block_time', 'time', 'timestamp'],
+};
+
+const pick = (row: Record<string, unknown>, aliases: string[]): unknown =>
+  aliases.map((alias) => row[alias]).find((value) => value !== undefined && value !== null && value !== '');
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Dune returns timestamps as "2024-01-01 12:00:00.000 UTC"
+const toTime = (value: unknown): number | null => {
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+  if (typeof value !== 'string') return null;
+  const parsed = Date.parse(value.replace(' UTC', 'Z').replace(' ', 'T'));
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+// Rows without a hash, symbol or positive amount can't be deduped or matched, so they're dropped
+export const parseWhaleRows = (rows: Array<Record<string, unknown>>, defaultChain: string): WhaleTransaction[] =>
+  rows.flatMap((row) => {
+    const txHash = pick(row, COLUMNS.txHash);
+    const symbol = pick(row, COLUMNS.symbol);
+    const amount = toNumber(pick(row, COLUMNS.amount));
+    if (typeof txHash !== 'string' || typeof symbol !== 'string' || amount === null || amount <= 0) {
+      return [];
+    }
+
+    const from = pick(row, COLUMNS.from);
+    const to = pick(row, COLUMNS.to);
+    return [{
+      txHash,
+      chain: String(pick(row, COLUMNS.chain) ?? defaultChain).toLowerCase(),
+      symbol: symbol.toUpperCase(),
+      amount,
+      amountUsd: toNumber(pick(row, COLUMNS.amountUsd)),
+      from: from === undefined ? null : String(from),
+      to: to === undefined ? null : String(to),
+      time: toTime(pick(row, COLUMNS.time)),
+    }];
+  });
@@ -0,0 +1,51 @@
+import { MockProvider } from '@polkadot/rpc-provider/mock';
+import { ProviderInterfaceCallback } from '@polkadot/rpc-provider/types';
+import { TypeRegistry } from '@polkadot/types';
+import { Codec } from '@polkadot/types/types';
+import { u8aToHex } from '@polkadot/util';
+
+type MockInternals = {
+  db: Record<string, Uint8Array>;
+  requests: Record<string, (db: Record<string, Uint8Array>, params: unknown[]) => unknown>;
+};
+
+const BLOCK_HASH = '0x1234000000000000000000000000000000000000000000000000000000000000';
+
+// MockProvider serves the static substrate metadata from an in-memory storage map, but never
+// answers storage subscriptions (which is how derives read over a subscribing provider) and has no
+// state_queryStorageAt, which one-off queries go through. This fills both in from the same map,
+// replaces the fake block production with a fixed head and lets a test write storage directly.
+export const createMockProvider = (blockNumber: number = 100) => {
+  const registry = new TypeRegistry();
+  const provider = new MockProvider(registry);
+  const { db, requests } = provider as unknown as MockInternals;
+  provider.isUpdating = false;
+  provider.subscriptions.chain_subscribeNewHead.lastValue = registry
+    .createType('Header', { number: blockNumber, digest: { logs: [] } })
+    .toJSON();
+
+  const changeSet = (keys: string[]) => ({
+    block: BLOCK_HASH,
+    changes: keys.map((key) => [key, db[key] ? u8aToHex(db[key]) : null]),
+  });
+
+  requests.state_queryStorageAt = (_, [keys]) => [changeSet(keys as string[])];
+
+  const subscribe = provider.subscribe.bind(provider);
+  provider.subscribe = async (type: string, method: string, ...params: unknown[]) => {
+    if (method !== 'state_subscribeStorage') {
+      return subscribe(type, method, ...params);
+    }
+    const callback = params.pop() as ProviderInterfaceCallback;
+    const id = await subscribe(type, method, ...params, () => undefined);
+    const [[keys]] = params as [[string[]]];
+    callback(null, changeSet(keys));
+    return id;
+  };
+
+  const setStorage = (key: string, value: Codec): void => {
+    db[key] = value.toU8a();
+  };
+
+  return { provider, setStorage };
+};
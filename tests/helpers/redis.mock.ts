@@ -0,0 +1,32 @@
+// In-memory stand-in for the redisService methods the tested services use. Expiry isn't modelled.
+// Use as: jest.mock('../../src/services/redis.service', () => require('../helpers/redis.mock').redisModule());
+export const redisModule = () => {
+  const cache = new Map<string, string>();
+  const usage = new Map<string, Record<string, number>>();
+  let halted = false;
+
+  return {
+    redisService: {
+      getCache: jest.fn(async (key: string) => cache.get(key) ?? null),
+      setCacheWithExpiry: jest.fn(async (key: string, value: string) => void cache.set(key, value)),
+      deleteCache: jest.fn(async (key: string) => cache.delete(key)),
+      getUsage: jest.fn(async (key: string) => ({ ...(usage.get(key) ?? {}) })),
+      incrementUsage: jest.fn(async (key: string, increments: Record<string, number>) => {
+        const current = usage.get(key) ?? {};
+        for (const [field, value] of Object.entries(increments)) {
+          current[field] = (current[field] ?? 0) + value;
+        }
+        usage.set(key, current);
+        return Object.fromEntries(Object.keys(increments).map((field) => [field, current[field]]));
+      }),
+      isTradingHalted: jest.fn(async () => halted),
+      setTradingHalted: jest.fn(async (value: boolean) => void (halted = value)),
+      // Test-only: forget everything between cases
+      clear: () => {
+        cache.clear();
+        usage.clear();
+        halted = false;
+      },
+    },
+  };
+};
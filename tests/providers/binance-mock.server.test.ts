@@ -0,0 +1,56 @@
+import { BinanceApiError, BinanceTradingClient } from '../../src/providers/binance-trading.provider';
+import { BinanceMockServer, startBinanceMockServer } from '../../src/providers/binance-mock.server';
+
+describe('BinanceTradingClient against the mock server', () => {
+  let server: BinanceMockServer;
+  let client: BinanceTradingClient;
+
+  beforeAll(async () => {
+    server = await startBinanceMockServer({ prices: { DOTUSDT: 7 } });
+    client = new BinanceTradingClient(server.url, 'mock-key', 'mock-secret');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('rejects requests signed with the wrong secret', async () => {
+    const forged = new BinanceTradingClient(server.url, 'mock-key', 'wrong-secret');
+    await expect(forged.getOpenOrders()).rejects.toMatchObject({ code: -1022, status: 400 });
+  });
+
+  it('rejects an unknown API key', async () => {
+    const stranger = new BinanceTradingClient(server.url, 'other-key', 'mock-secret');
+    await expect(stranger.getOpenOrders()).rejects.toBeInstanceOf(BinanceApiError);
+    await expect(stranger.getOpenOrders()).rejects.toMatchObject({ code: -2015 });
+  });
+
+  it('fills market orders at the configured price', async () => {
+    const order = await client.placeOrder({ pair: 'DOTUSDT', side: 'BUY', type: 'MARKET', quantity: 3 }, 'st-market');
+
+    expect(order).toMatchObject({
+      pair: 'DOTUSDT',
+      clientOrderId: 'st-market',
+      status: 'FILLED',
+      executedQuantity: 3,
+      quoteQuantity: 21,
+    });
+  });
+
+  it('places, queries and cancels a resting limit order', async () => {
+    const placed = await client.placeOrder({ pair: 'DOTUSDT', side: 'BUY', type: 'LIMIT', quantity: 0.00000001, price: 5 });
+    expect(placed).toMatchObject({ status: 'NEW', price: 5, quantity: 0.00000001, executedQuantity: 0 });
+
+    expect(await client.getOrder('DOTUSDT', placed.orderId)).toMatchObject({ orderId: placed.orderId, status: 'NEW' });
+    expect((await client.getOpenOrders('DOTUSDT')).map((order) => order.orderId)).toContain(placed.orderId);
+
+    const cancelled = await client.cancelOrder('DOTUSDT', placed.orderId);
+    expect(cancelled.status).toBe('CANCELED');
+    expect(await client.getOpenOrders('DOTUSDT')).toEqual([]);
+    await expect(client.cancelOrder('DOTUSDT', placed.orderId)).rejects.toMatchObject({ code: -2011 });
+  });
+
+  it('reports orders that do not exist', async () => {
+    await expect(client.getOrder('DOTUSDT', 9999)).rejects.toMatchObject({ code: -2013 });
+  });
+});
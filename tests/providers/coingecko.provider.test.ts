@@ -0,0 +1,50 @@
+import axios from 'axios';
+import { CoinGeckoProvider } from '../../src/providers/coingecko.provider';
+import { MarketDataProviderError } from '../../src/providers/market-data.provider';
+
+jest.mock('axios');
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Serves market_chart/range the way CoinGecko spaces it: hourly up to 90 days, daily beyond
+const get = jest.mocked(axios.get).mockImplementation(async (_url, options) => {
+  const { from, to } = options?.params as { from: number; to: number };
+  const spacing = (to - from) * 1000 <= 90 * DAY_MS ? HOUR_MS : DAY_MS;
+  const prices: Array<[number, number]> = [];
+  for (let timestamp = Math.ceil((from * 1000) / spacing) * spacing; timestamp <= to * 1000; timestamp += spacing) {
+    prices.push([timestamp, 100 + Math.sin(timestamp / HOUR_MS)]);
+  }
+  return { data: { prices, total_volumes: prices.map(([timestamp]) => [timestamp, 2400]) } };
+});
+
+describe('CoinGeckoProvider.getKlines', () => {
+  const provider = new CoinGeckoProvider('https://coingecko.test');
+
+  beforeEach(() => get.mockClear());
+
+  it('pages long daily ranges so each candle has a real range', async () => {
+    const candles = await provider.getKlines('x', '1d', 200);
+
+    expect(candles).toHaveLength(200);
+    expect(get).toHaveBeenCalledTimes(3);
+    for (const [, options] of get.mock.calls) {
+      const { from, to } = options?.params as { from: number; to: number };
+      expect((to - from) * 1000).toBeLessThanOrEqual(90 * DAY_MS);
+    }
+    expect(candles.every((candle) => candle.synthetic && candle.high > candle.low)).toBe(true);
+    expect(candles[1].openTime - candles[0].openTime).toBe(DAY_MS);
+    // 24h volume pro-rated to a daily candle
+    expect(candles[0].volume).toBe(2400);
+  });
+
+  it('serves a backtest-sized daily history', async () => {
+    expect(await provider.getKlines('x', '1d', 1000)).toHaveLength(1000);
+  });
+
+  it('refuses intervals CoinGecko does not sample finely enough', async () => {
+    await expect(provider.getKlines('x', '1m', 100)).rejects.toBeInstanceOf(MarketDataProviderError);
+    await expect(provider.getKlines('x', '1h', 100)).rejects.toMatchObject({ reason: 'unsupported' });
+    expect(get).not.toHaveBeenCalled();
+  });
+});
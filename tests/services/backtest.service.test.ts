@@ -0,0 +1,39 @@
+import { backtestService } from '../../src/services/backtest.service';
+import { cryptoService } from '../../src/services/crypto.service';
+
+jest.mock('../../src/services/redis.service', () => require('../helpers/redis.mock').redisModule());
+
+jest.mock('../../src/services/crypto.service', () => ({
+  cryptoService: { getKlines: jest.fn() },
+}));
+
+describe('BacktestService', () => {
+  it('runs from the local fixture without touching live data', async () => {
+    const result = await backtestService.run('bitcoin', '1d', { type: 'sma_cross', fast: 5, slow: 20 });
+
+    expect(result.source).toBe('fixture');
+    expect(result.equityCurve).toHaveLength(120);
+    expect(cryptoService.getKlines).not.toHaveBeenCalled();
+  });
+
+  it('falls back to live candles when no fixture exists', async () => {
+    (cryptoService.getKlines as jest.Mock).mockResolvedValue([
+      { openTime: 0, open: 1, high: 1, low: 1, close: 1, volume: 0 },
+      { openTime: 3600000, open: 1, high: 1, low: 1, close: 1, volume: 0 },
+    ]);
+    const result = await backtestService.run('polkadot', '1h', { type: 'dca', every: 1, amount: 10 }, { candles: 2 });
+
+    expect(result.source).toBe('live');
+    expect(cryptoService.getKlines).toHaveBeenCalledWith('polkadot', '1h', 2);
+  });
+
+  it('stores strategies under short, stable keys', async () => {
+    const strategy = { type: 'rsi' as const, period: 14, buyBelow: 27.123456, sellAbove: 72.654321 };
+    const key = await backtestService.saveStrategy(strategy);
+
+    expect(key).toMatch(/^[0-9a-f]{8}$/);
+    expect(await backtestService.saveStrategy(strategy)).toBe(key);
+    expect(await backtestService.loadStrategy(key)).toEqual(strategy);
+    expect(await backtestService.loadStrategy('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { ApiPromise, Keyring } from '@polkadot/api';
+import { createMockProvider } from '../helpers/polkadot.mock';
+import { polkadotService } from '../../src/services/polkadot.service';
+
+// Decorating the static substrate metadata on connect takes a while
+jest.setTimeout(60000);
+
+const PLANCK = 10n ** 12n;
+const keyring = new Keyring();
+const [alice, bob, account] = ['//Alice', '//Bob', '//SentinelTrade'].map((uri) => keyring.addFromUri(uri).address);
+
+describe('PolkadotService (MockProvider)', () => {
+  let api: ApiPromise;
+  let setStorage: ReturnType<typeof createMockProvider>['setStorage'];
+
+  beforeAll(async () => {
+    const mock = createMockProvider();
+    setStorage = mock.setStorage;
+    await polkadotService.useProvider('polkadot', mock.provider);
+    api = await polkadotService.getApi('polkadot');
+  });
+
+  afterAll(async () => {
+    await polkadotService.disconnect();
+  });
+
+  it('reads the chain overview', async () => {
+    const epochDuration = api.consts.babe.epochDuration.toNumber();
+    const sessionsPerEra = api.consts.staking.sessionsPerEra.toNumber();
+
+    setStorage(api.query.balances.totalIssuance.key(), api.createType('u128', 1_234_500n * PLANCK));
+    setStorage(api.query.session.currentIndex.key(), api.createType('u32', 12));
+    setStorage(api.query.session.validators.key(), api.createType('Vec<AccountId>', [alice, bob]));
+    setStorage(api.query.staking.activeEra.key(), api.createType('PalletStakingActiveEraInfo', { index: 4 }));
+    setStorage(api.query.staking.currentEra.key(), api.createType('u32', 5));
+    setStorage(api.query.staking.erasStartSessionIndex.key(4), api.createType('u32', 10));
+    setStorage(api.query.staking.validatorCount.key(), api.createType('u32', 3));
+    setStorage(api.query.staking.counterForValidators.key(), api.createType('u32', 7));
+    setStorage(api.query.staking.counterForNominators.key(), api.createType('u32', 40));
+    // 100 slots into epoch 12
+    setStorage(api.query.babe.genesisSlot.key(), api.createType('u64', 1000));
+    setStorage(api.query.babe.epochIndex.key(), api.createType('u64', 12));
+    setStorage(api.query.babe.currentSlot.key(), api.createType('u64', 1000 + 12 * epochDuration + 100));
+
+    const finalized = await api.rpc.chain.getHeader(await api.rpc.chain.getFinalizedHead());
+    const overview = await polkadotService.getChainOverview('polkadot');
+
+    expect(overview).toEqual({
+      chain: 'polkadot',
+      token: 'Unit',
+      decimals: 12,
+      finalizedBlock: finalized.number.toNumber(),
+      totalIssuance: 1_234_500,
+      activeEra: 4,
+      currentEra: 5,
+      eraProgress: 2 * epochDuration + 100,
+      eraLength: sessionsPerEra * epochDuration,
+      sessionIndex: 12,
+      activeValidators: 2,
+      targetValidators: 3,
+      validatorCandidates: 7,
+      nominators: 40,
+    });
+  });
+
+  it('reads an account balance in whole tokens', async () => {
+    setStorage(
+      api.query.system.account.key(account),
+      api.createType('FrameSystemAccountInfo', {
+        nonce: 3,
+        data: { free: 10n * PLANCK + PLANCK / 2n, reserved: 2n * PLANCK },
+      })
+    );
+    setStorage(
+      api.query.balances.locks.key(account),
+      api.createType('Vec<PalletBalancesBalanceLock>', [{ id: 'staking ', amount: 4n * PLANCK, reasons: 'All' }])
+    );
+
+    expect(await polkadotService.getAccountBalance('polkadot', account)).toEqual({
+      chain: 'polkadot',
+      address: account,
+      token: 'Unit',
+      free: 10.5,
+      reserved: 2,
+      locked: 4,
+      transferable: 6.5,
+      total: 12.5,
+      nonce: 3,
+    });
+  });
+});
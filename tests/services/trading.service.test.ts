@@ -0,0 +1,197 @@
+import { config } from '../../src/config/config';
+import { redisService } from '../../src/services/redis.service';
+import { TradingError, tradingService } from '../../src/services/trading.service';
+import { BinanceMockServer, startBinanceMockServer } from '../../src/providers/binance-mock.server';
+
+jest.mock('../../src/services/redis.service', () => require('../helpers/redis.mock').redisModule());
+
+jest.mock('../../src/services/crypto.service', () => ({
+  cryptoService: { getPrice: jest.fn(async () => ({ price: 10, change24h: 0, volume24h: 0, marketCap: 0 })) },
+}));
+
+jest.mock('../../src/services/symbol.service', () => ({
+  symbolService: {
+    getCoin: jest.fn(async (id: string) => ({ id, symbol: 'dot', name: 'Polkadot' })),
+    toCoinId: jest.fn(async () => 'polkadot'),
+  },
+}));
+
+const USER = 42;
+
+// Walks an order through both confirmation steps
+const trade = async (quantity: number, price?: number) => {
+  const pending = await tradingService.prepareOrder(USER, {
+    coinId: 'polkadot',
+    side: 'BUY',
+    type: price === undefined ? 'MARKET' : 'LIMIT',
+    quantity,
+    price,
+  });
+  await tradingService.reviewOrder(USER, pending.id);
+  return tradingService.confirmOrder(USER, pending.id);
+};
+
+const reasonOf = (promise: Promise<unknown>) =>
+  promise.then(
+    () => null,
+    (error) => (error instanceof TradingError ? error.reason : error)
+  );
+
+describe('TradingService (dry run)', () => {
+  beforeEach(() => {
+    (redisService as unknown as { clear(): void }).clear();
+  });
+
+  it('prices, reviews and fills a market order', async () => {
+    const pending = await tradingService.prepareOrder(USER, { coinId: 'polkadot', side: 'BUY', type: 'MARKET', quantity: 5 });
+    expect(pending).toMatchObject({ request: { pair: 'DOTUSDT' }, notional: 50, reviewed: false, mode: 'dry_run' });
+
+    await tradingService.reviewOrder(USER, pending.id);
+    const order = await tradingService.confirmOrder(USER, pending.id);
+
+    expect(order).toMatchObject({ pair: 'DOTUSDT', status: 'FILLED', executedQuantity: 5, quoteQuantity: 50 });
+    expect((await tradingService.getLimits()).usedToday).toBe(50);
+  });
+
+  it('refuses to confirm an order that was never reviewed', async () => {
+    const pending = await tradingService.prepareOrder(USER, { coinId: 'polkadot', side: 'BUY', type: 'MARKET', quantity: 1 });
+    expect(await reasonOf(tradingService.confirmOrder(USER, pending.id))).toBe('invalid');
+  });
+
+  it('places an order only once when confirm is tapped twice', async () => {
+    const pending = await tradingService.prepareOrder(USER, { coinId: 'polkadot', side: 'BUY', type: 'MARKET', quantity: 1 });
+    await tradingService.reviewOrder(USER, pending.id);
+
+    const [first, second] = await Promise.allSettled([
+      tradingService.confirmOrder(USER, pending.id),
+      tradingService.confirmOrder(USER, pending.id),
+    ]);
+    expect([first.status, second.status].sort()).toEqual(['fulfilled', 'rejected']);
+    expect(await reasonOf(tradingService.confirmOrder(USER, pending.id))).toBe('expired');
+    expect((await tradingService.getLimits()).usedToday).toBe(10);
+  });
+
+  it('expires confirmations after the TTL', async () => {
+    const pending = await tradingService.prepareOrder(USER, { coinId: 'polkadot', side: 'BUY', type: 'MARKET', quantity: 1 });
+    const later = pending.expiresAt + 1;
+    const now = jest.spyOn(Date, 'now').mockReturnValue(later);
+    try {
+      expect(await reasonOf(tradingService.reviewOrder(USER, pending.id))).toBe('expired');
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('enforces the per-order limit', async () => {
+    expect(config.trading.maxOrderNotional).toBe(100);
+    expect(await reasonOf(trade(11))).toBe('limit');
+    expect(await reasonOf(trade(10))).toBeNull();
+  });
+
+  it('enforces the per-day limit, again at confirmation time', async () => {
+    expect(config.trading.maxDailyNotional).toBe(500);
+    for (let i = 0; i < 4; i++) {
+      await trade(10);
+    }
+
+    // Both fit when prepared, but only one fits once the other has been placed
+    const first = await tradingService.prepareOrder(USER, { coinId: 'polkadot', side: 'BUY', type: 'MARKET', quantity: 10 });
+    const second = await tradingService.prepareOrder(USER, { coinId: 'polkadot', side: 'BUY', type: 'MARKET', quantity: 10 });
+    await tradingService.reviewOrder(USER, first.id);
+    await tradingService.reviewOrder(USER, second.id);
+    await tradingService.confirmOrder(USER, first.id);
+
+    expect(await reasonOf(tradingService.confirmOrder(USER, second.id))).toBe('limit');
+    expect((await tradingService.getLimits()).usedToday).toBe(500);
+  });
+
+  it('values a limit order that crosses the market at the market price', async () => {
+    const sell = { coinId: 'polkadot', side: 'SELL' as const, type: 'LIMIT' as const, quantity: 11, price: 1 };
+    expect(await reasonOf(tradingService.prepareOrder(USER, sell))).toBe('limit');
+
+    const buy = await tradingService.prepareOrder(USER, { ...sell, side: 'BUY', quantity: 5, price: 12 });
+    expect(buy.notional).toBe(60);
+  });
+
+  it('lets only one of two concurrent confirms take the last of the daily limit', async () => {
+    for (let i = 0; i < 4; i++) {
+      await trade(10);
+    }
+    const pending = await Promise.all(
+      [1, 2].map(() => tradingService.prepareOrder(USER, { coinId: 'polkadot', side: 'BUY', type: 'MARKET', quantity: 10 }))
+    );
+    for (const order of pending) {
+      await tradingService.reviewOrder(USER, order.id);
+    }
+
+    const reasons = await Promise.all(pending.map((order) => reasonOf(tradingService.confirmOrder(USER, order.id))));
+    expect(reasons.sort()).toEqual(['limit', null]);
+    expect((await tradingService.getLimits()).usedToday).toBe(500);
+  });
+
+  it('gives the reserved amount back when placing the order fails', async () => {
+    const simulate = jest
+      .spyOn(tradingService as unknown as { simulateOrder(): Promise<unknown> }, 'simulateOrder')
+      .mockRejectedValueOnce(new Error('exchange down'));
+    try {
+      await expect(trade(5)).rejects.toThrow('exchange down');
+    } finally {
+      simulate.mockRestore();
+    }
+    expect((await tradingService.getLimits()).usedToday).toBe(0);
+  });
+
+  it('stops everything while the kill switch is engaged', async () => {
+    const pending = await tradingService.prepareOrder(USER, { coinId: 'polkadot', side: 'BUY', type: 'MARKET', quantity: 1 });
+    await tradingService.reviewOrder(USER, pending.id);
+    await tradingService.setHalted(true, USER);
+
+    expect(await reasonOf(tradingService.confirmOrder(USER, pending.id))).toBe('halted');
+    expect(await reasonOf(trade(1))).toBe('halted');
+
+    await tradingService.setHalted(false, USER);
+    expect(await reasonOf(trade(1))).toBeNull();
+  });
+
+  it('rests and cancels limit orders that do not cross', async () => {
+    const order = await trade(2, 8);
+    expect(order.status).toBe('NEW');
+    expect(await tradingService.getOpenOrders('DOTUSDT')).toHaveLength(1);
+
+    expect((await tradingService.cancelOrder('DOTUSDT', order.orderId)).status).toBe('CANCELED');
+    expect(await tradingService.getOpenOrders('DOTUSDT')).toEqual([]);
+  });
+});
+
+describe('TradingService (testnet against the mock server)', () => {
+  let server: BinanceMockServer;
+  const original = { trading: { ...config.trading }, binance: { ...config.apis.binance } };
+
+  beforeAll(async () => {
+    server = await startBinanceMockServer({ prices: { DOTUSDT: 10 } });
+    Object.assign(config.trading, { mode: 'testnet', baseUrl: server.url });
+    Object.assign(config.apis.binance, { apiKey: 'mock-key', apiSecret: 'mock-secret' });
+    (redisService as unknown as { clear(): void }).clear();
+  });
+
+  afterAll(async () => {
+    Object.assign(config.trading, original.trading);
+    Object.assign(config.apis.binance, original.binance);
+    await server.close();
+  });
+
+  it('signs and places confirmed orders on the exchange', async () => {
+    const order = await trade(3);
+
+    expect(order).toMatchObject({ status: 'FILLED', executedQuantity: 3 });
+    expect(server.orders.get(order.orderId)?.clientOrderId).toMatch(/^st-/);
+  });
+
+  it('queries and cancels resting orders through the client', async () => {
+    const order = await trade(1, 9);
+    expect((await tradingService.getOrder('DOTUSDT', order.orderId)).status).toBe('NEW');
+
+    await tradingService.cancelOrder('DOTUSDT', order.orderId);
+    expect(server.orders.get(order.orderId)?.status).toBe('CANCELED');
+  });
+});
@@ -0,0 +1,9 @@
+// The config module validates the environment on import, so tests get a complete one up front
+process.env.TELEGRAM_BOT_TOKEN ??= 'test-token';
+process.env.DUNE_API_KEY ??= 'test-key';
+process.env.REDIS_URL ??= 'redis://127.0.0.1:6379';
+process.env.LLM_PROVIDER ??= 'mock';
+process.env.TRADING_MODE ??= 'dry_run';
+process.env.LOG_LEVEL ??= 'error';
+process.env.NODE_ENV ??= 'test';
+process.env.BACKTEST_FIXTURES_DIR ??= `${__dirname}/fixtures/candles`;
@@ -0,0 +1,107 @@
+import { join } from 'path';
+import { parseStrategy, runBacktest, strategyToArgs } from '../../src/utils/backtest';
+import { loadCandleFixture } from '../../src/utils/candle-fixtures';
+import { Candle } from '../../src/types/market';
+
+const DAY = 24 * 60 * 60 * 1000;
+const FIXTURE = join(__dirname, '../fixtures/candles/bitcoin-1d.json');
+
+const candle = (i: number, open: number, close: number): Candle => ({
+  openTime: i * DAY,
+  open,
+  high: Math.max(open, close),
+  low: Math.min(open, close),
+  close,
+  volume: 1,
+});
+
+describe('runBacktest', () => {
+  // SMA 1/2 goes long after candle 2 closes higher and flat after candle 4 closes lower
+  const crossCandles = [
+    candle(0, 10, 10),
+    candle(1, 10, 10),
+    candle(2, 11, 12),
+    candle(3, 13, 13),
+    candle(4, 12, 11),
+    candle(5, 9, 9),
+  ];
+  const options = { initialCapital: 10000, feeRate: 0.001, slippage: 0.01, intervalMs: DAY };
+
+  it('fills signals at the next candle open with slippage and fees', () => {
+    const result = runBacktest(crossCandles, { type: 'sma_cross', fast: 1, slow: 2 }, options);
+    const [buy, sell] = result.trades;
+
+    expect(result.trades).toHaveLength(2);
+    expect(buy).toMatchObject({ side: 'buy', time: 3 * DAY });
+    expect(buy.price).toBeCloseTo(13 * 1.01);
+    expect(buy.fee).toBeCloseTo(10);
+    expect(buy.quantity).toBeCloseTo(9990 / (13 * 1.01));
+
+    expect(sell).toMatchObject({ side: 'sell', time: 5 * DAY });
+    expect(sell.price).toBeCloseTo(9 * 0.99);
+    const gross = buy.quantity * 9 * 0.99;
+    expect(sell.fee).toBeCloseTo(gross * 0.001);
+    expect(result.finalEquity).toBeCloseTo(gross * 0.999);
+    expect(result.feesPaid).toBeCloseTo(10 + gross * 0.001);
+    expect(result.winRate).toBe(0);
+    expect(result.openPosition).toBe(0);
+  });
+
+  it('measures drawdown from the equity peak', () => {
+    const result = runBacktest(crossCandles, { type: 'sma_cross', fast: 1, slow: 2 }, options);
+
+    expect(result.equityCurve).toHaveLength(crossCandles.length);
+    expect(result.maxDrawdown).toBeCloseTo(1 - result.finalEquity / 10000);
+    expect(result.totalReturn).toBeCloseTo(result.finalEquity / 10000 - 1);
+    expect(result.buyAndHoldReturn).toBeCloseTo(9 / 10 - 1);
+  });
+
+  it('buys on the DCA cadence until the cash runs out', () => {
+    const flat = Array.from({ length: 8 }, (_, i) => candle(i, 10, 10));
+    const result = runBacktest(
+      flat,
+      { type: 'dca', every: 2, amount: 100 },
+      { initialCapital: 250, feeRate: 0, slippage: 0, intervalMs: DAY }
+    );
+
+    expect(result.trades.map((trade) => trade.time)).toEqual([1 * DAY, 3 * DAY, 5 * DAY]);
+    expect(result.trades.map((trade) => trade.quantity)).toEqual([10, 10, 5]);
+    expect(result.openPosition).toBe(25);
+    expect(result.finalEquity).toBeCloseTo(250);
+  });
+
+  it('needs at least two candles', () => {
+    expect(() => runBacktest([candle(0, 1, 1)], { type: 'dca', every: 1, amount: 1 }, options)).toThrow();
+  });
+
+  it('runs every strategy from the committed fixture', async () => {
+    const candles = await loadCandleFixture(FIXTURE);
+    for (const args of [['rsi', '14', '30', '70'], ['sma', '5', '20'], ['dca', '7', '100']]) {
+      const result = runBacktest(candles, parseStrategy(args)!, { ...options, slippage: 0.0005 });
+
+      expect(result.startTime).toBe(candles[0].openTime);
+      expect(result.endTime).toBe(candles[candles.length - 1].openTime);
+      expect(result.equityCurve).toHaveLength(candles.length);
+      expect(result.trades.length).toBeGreaterThan(0);
+      expect(result.maxDrawdown).toBeGreaterThanOrEqual(0);
+      expect(result.maxDrawdown).toBeLessThan(1);
+      // Same data, same answer
+      expect(runBacktest(candles, parseStrategy(args)!, { ...options, slippage: 0.0005 })).toEqual(result);
+    }
+  });
+});
+
+describe('parseStrategy', () => {
+  it('fills in defaults and round-trips through strategyToArgs', () => {
+    expect(parseStrategy(['rsi'])).toEqual({ type: 'rsi', period: 14, buyBelow: 30, sellAbove: 70 });
+    const strategy = parseStrategy(['sma', '10', '40'])!;
+    expect(parseStrategy(strategyToArgs(strategy))).toEqual(strategy);
+  });
+
+  it('rejects inconsistent parameters', () => {
+    expect(parseStrategy(['rsi', '14', '70', '30'])).toBeNull();
+    expect(parseStrategy(['sma', '50', '20'])).toBeNull();
+    expect(parseStrategy(['dca', '-1'])).toBeNull();
+    expect(parseStrategy(['macd'])).toBeNull();
+  });
+});
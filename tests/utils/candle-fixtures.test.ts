@@ -0,0 +1,40 @@
+import { join } from 'path';
+import { getFixturePath, loadCandleFixture, parseCandleFixture } from '../../src/utils/candle-fixtures';
+
+describe('parseCandleFixture', () => {
+  it('reads raw Binance kline rows', () => {
+    const candles = parseCandleFixture(
+      JSON.stringify([[1000, '1.5', '2', '1', '1.8', '12.5', 1999, '22.5', 10]])
+    );
+    expect(candles).toEqual([{ openTime: 1000, open: 1.5, high: 2, low: 1, close: 1.8, volume: 12.5 }]);
+  });
+
+  it('reads candle objects, defaulting missing volume to zero', () => {
+    const candles = parseCandleFixture(JSON.stringify([{ openTime: 5, open: 1, high: 1, low: 1, close: 1 }]));
+    expect(candles[0].volume).toBe(0);
+  });
+
+  it('sorts by open time and drops rows with missing prices', () => {
+    const candles = parseCandleFixture(
+      JSON.stringify([
+        { openTime: 2, open: 1, high: 1, low: 1, close: 1 },
+        { openTime: 3, open: 'x', high: 1, low: 1, close: 1 },
+        [1, 1, 1, 1, 1, 1],
+      ])
+    );
+    expect(candles.map((candle) => candle.openTime)).toEqual([1, 2]);
+  });
+
+  it('rejects anything but an array', () => {
+    expect(() => parseCandleFixture('{"openTime": 1}')).toThrow('JSON array');
+  });
+});
+
+describe('loadCandleFixture', () => {
+  it('loads the committed fixture by coin and interval', async () => {
+    const candles = await loadCandleFixture(getFixturePath(join(__dirname, '../fixtures/candles'), 'bitcoin', '1d'));
+    expect(candles).toHaveLength(120);
+    expect(candles[0]).toEqual({ openTime: 1704067200000, open: 42000, high: 42504, low: 41496, close: 42000, volume: 1500 });
+    expect(candles.every((candle, i) => i === 0 || candle.openTime - candles[i - 1].openTime === 86400000)).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { Keyring } from '@polkadot/api';
+import { detectChain, fromPlanck, parseChainEvent, toChainAddress } from '../../src/utils/polkadot';
+
+const POLKADOT = '15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5';
+const KUSAMA = toChainAddress(POLKADOT, 'kusama');
+const keyring = new Keyring();
+const GENERIC = keyring.encodeAddress(keyring.decodeAddress(POLKADOT), 42);
+
+describe('fromPlanck', () => {
+  it('converts planck to whole tokens', () => {
+    expect(fromPlanck(12_345_000_000n, 10)).toBe(1.2345);
+    expect(fromPlanck('1500000000000', 12)).toBe(1.5);
+    expect(fromPlanck(0n, 10)).toBe(0);
+  });
+
+  it('handles planck amounts beyond Number.MAX_SAFE_INTEGER', () => {
+    expect(fromPlanck(2n ** 60n * 10n ** 10n + 5_000_000_000n, 10)).toBe(2 ** 60 + 0.5);
+  });
+
+  it('accepts codec-like values through their string form', () => {
+    expect(fromPlanck({ toString: () => '25000000000' }, 10)).toBe(2.5);
+  });
+});
+
+describe('detectChain', () => {
+  it('tells Polkadot and Kusama addresses apart', () => {
+    expect(detectChain(POLKADOT)).toBe('polkadot');
+    expect(detectChain(KUSAMA)).toBe('kusama');
+    expect(detectChain(`  ${POLKADOT}\n`)).toBe('polkadot');
+  });
+
+  it('rejects generic substrate addresses and garbage', () => {
+    expect(detectChain(GENERIC)).toBeNull();
+    expect(detectChain('0x1234')).toBeNull();
+    expect(detectChain('not an address')).toBeNull();
+    expect(detectChain(POLKADOT.slice(0, -1))).toBeNull();
+  });
+
+  it('re-encodes between chains without changing the account', () => {
+    expect(KUSAMA).not.toBe(POLKADOT);
+    expect(toChainAddress(KUSAMA, 'polkadot')).toBe(POLKADOT);
+    expect(toChainAddress(GENERIC, 'polkadot')).toBe(POLKADOT);
+  });
+});
+
+describe('parseChainEvent', () => {
+  it('reads balance transfers', () => {
+    expect(parseChainEvent('balances', 'Transfer', ['alice', 'bob', '100'])).toEqual({
+      kind: 'transfer',
+      from: 'alice',
+      to: 'bob',
+      amount: '100',
+    });
+  });
+
+  it('takes the reward amount from the end for old and new runtimes', () => {
+    expect(parseChainEvent('staking', 'Reward', ['stash', '42'])).toEqual({ kind: 'reward', stash: 'stash', amount: '42' });
+    expect(parseChainEvent('staking', 'Rewarded', ['stash', '{"staked":null}', '42'])).toEqual({
+      kind: 'reward',
+      stash: 'stash',
+      amount: '42',
+    });
+  });
+
+  it('ignores other and malformed events', () => {
+    expect(parseChainEvent('balances', 'Deposit', ['alice', '100'])).toBeNull();
+    expect(parseChainEvent('system', 'ExtrinsicSuccess', [])).toBeNull();
+    expect(parseChainEvent('balances', 'Transfer', ['alice', 'bob'])).toBeNull();
+    expect(parseChainEvent('staking', 'Rewarded', ['stash'])).toBeNull();
+  });
+});
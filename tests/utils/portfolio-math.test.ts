@@ -0,0 +1,127 @@
+import { computeHoldings, matchRealizedLots } from '../../src/utils/portfolio-math';
+import { CostBasisMethod, Transaction, TransactionType } from '../../src/types/portfolio';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let nextId = 0;
+const tx = (
+  type: TransactionType,
+  quantity: number,
+  price: number,
+  timestamp: number,
+  fee = 0,
+  symbol = 'BTC'
+): Transaction => ({ id: String(++nextId), symbol, type, quantity, price, fee, timestamp });
+
+describe('computeHoldings', () => {
+  // Two buys at different prices, then half the position is sold
+  const partialSell = [tx('buy', 1, 100, 0), tx('buy', 1, 200, DAY), tx('sell', 1, 300, 2 * DAY)];
+
+  it.each<[CostBasisMethod, number, number]>([
+    ['fifo', 200, 200],
+    ['average', 150, 150],
+  ])('%s leaves cost basis %d and realizes %d', (method, costBasis, realizedPnl) => {
+    const [holding] = computeHoldings(partialSell, method);
+
+    expect(holding.quantity).toBeCloseTo(1);
+    expect(holding.costBasis).toBeCloseTo(costBasis);
+    expect(holding.averageCost).toBeCloseTo(costBasis);
+    expect(holding.realizedPnl).toBeCloseTo(realizedPnl);
+  });
+
+  it.each<[string, Transaction[], { quantity: number; costBasis: number; realizedPnl: number }]>([
+    [
+      'capitalizes buy fees and deducts sell fees',
+      [tx('buy', 2, 100, 0, 2), tx('sell', 1, 150, DAY, 1)],
+      { quantity: 1, costBasis: 101, realizedPnl: 48 },
+    ],
+    [
+      'only loses the network fee on a transfer out',
+      [tx('buy', 1, 100, 0), tx('transfer_out', 0.5, 0, DAY, 1)],
+      { quantity: 0.5, costBasis: 50, realizedPnl: -1 },
+    ],
+    [
+      'counts transfers in as acquisitions',
+      [tx('transfer_in', 2, 50, 0), tx('sell', 1, 80, DAY)],
+      { quantity: 1, costBasis: 50, realizedPnl: 30 },
+    ],
+    [
+      'zeroes the basis once the position is closed',
+      [tx('buy', 1, 100, 0), tx('sell', 1, 90, DAY)],
+      { quantity: 0, costBasis: 0, realizedPnl: -10 },
+    ],
+    [
+      'caps a sell at the quantity held',
+      [tx('buy', 1, 100, 0), tx('sell', 3, 120, DAY)],
+      { quantity: 0, costBasis: 0, realizedPnl: 20 },
+    ],
+    [
+      'replays transactions in time order',
+      [tx('sell', 1, 300, 2 * DAY), tx('buy', 1, 200, DAY), tx('buy', 1, 100, 0)],
+      { quantity: 1, costBasis: 200, realizedPnl: 200 },
+    ],
+  ])('%s', (_name, transactions, expected) => {
+    const [holding] = computeHoldings(transactions);
+
+    expect(holding.quantity).toBeCloseTo(expected.quantity);
+    expect(holding.costBasis).toBeCloseTo(expected.costBasis);
+    expect(holding.realizedPnl).toBeCloseTo(expected.realizedPnl);
+  });
+
+  it('keeps symbols apart', () => {
+    const holdings = computeHoldings([
+      tx('buy', 1, 100, 0, 0, 'BTC'),
+      tx('buy', 10, 5, 0, 0, 'DOT'),
+      tx('sell', 5, 6, DAY, 0, 'DOT'),
+    ]);
+
+    expect(holdings.map((holding) => [holding.symbol, holding.quantity])).toEqual([
+      ['BTC', 1],
+      ['DOT', 5],
+    ]);
+  });
+});
+
+describe('matchRealizedLots', () => {
+  it('splits a sell across the lots it closes and spreads the fee pro rata', () => {
+    const realized = matchRealizedLots([
+      tx('buy', 1, 100, 0),
+      tx('buy', 1, 200, 400 * DAY),
+      tx('sell', 1.5, 300, 500 * DAY, 3),
+    ]);
+
+    expect(realized).toHaveLength(2);
+    expect(realized[0]).toMatchObject({ quantity: 1, acquiredAt: 0, disposedAt: 500 * DAY, term: 'long' });
+    expect(realized[0].proceeds).toBeCloseTo(298);
+    expect(realized[0].costBasis).toBeCloseTo(100);
+    expect(realized[0].gain).toBeCloseTo(198);
+    expect(realized[1]).toMatchObject({ quantity: 0.5, acquiredAt: 400 * DAY, term: 'short' });
+    expect(realized[1].proceeds).toBeCloseTo(149);
+    expect(realized[1].costBasis).toBeCloseTo(100);
+    expect(realized[1].gain).toBeCloseTo(49);
+  });
+
+  it.each<[number, 'short' | 'long']>([
+    [30 * DAY, 'short'],
+    [365 * DAY, 'short'],
+    [365 * DAY + 1, 'long'],
+    [800 * DAY, 'long'],
+  ])('a lot held for %d ms is %s term', (heldFor, term) => {
+    const [lot] = matchRealizedLots([tx('buy', 1, 100, 0), tx('sell', 1, 150, heldFor)]);
+
+    expect(lot.term).toBe(term);
+  });
+
+  it('consumes lots on a transfer out without realizing anything', () => {
+    const realized = matchRealizedLots([
+      tx('buy', 1, 100, 0),
+      tx('buy', 1, 200, DAY),
+      tx('transfer_out', 1, 0, 2 * DAY),
+      tx('sell', 1, 250, 3 * DAY),
+    ]);
+
+    expect(realized).toHaveLength(1);
+    expect(realized[0].costBasis).toBeCloseTo(200);
+    expect(realized[0].gain).toBeCloseTo(50);
+  });
+});
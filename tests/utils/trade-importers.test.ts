@@ -0,0 +1,119 @@
+import { importTrades, parseColumnMapping } from '../../src/utils/trade-importers';
+
+const at = (iso: string): number => Date.parse(iso);
+
+describe('importTrades', () => {
+  describe('binance', () => {
+    const csv = [
+      'Date(UTC),Pair,Side,Price,Executed,Amount,Fee',
+      '2024-01-02 03:04:05,BTCUSDT,BUY,42000,0.5BTC,21000USDT,0.0005BTC',
+      '2024-01-03 00:00:00,ETHUSDC,SELL,"2,500",2ETH,5000USDC,5USDC',
+      '2024-01-04 00:00:00,SOLUSDT,BUY,100,1SOL,100USDT,0.001BNB',
+      '2024-01-05 00:00:00,ETHBTC,BUY,0.05,1ETH,0.05BTC,0.001ETH',
+      '2024-01-06 00:00:00,BTCUSDT,HOLD,42000,1BTC,42000USDT,0',
+    ].join('\n');
+
+    it.each([
+      ['BTC', 'buy', 0.5, 42000, 21, at('2024-01-02T03:04:05Z')],
+      ['ETH', 'sell', 2, 2500, 5, at('2024-01-03T00:00:00Z')],
+      ['SOL', 'buy', 1, 100, 0, at('2024-01-04T00:00:00Z')],
+    ])('reads %s %s rows', (symbol, type, quantity, price, fee, timestamp) => {
+      const result = importTrades(csv);
+      const row = result.transactions.find((transaction) => transaction.symbol === symbol);
+
+      expect(result.format).toBe('binance');
+      expect(row).toMatchObject({ type, quantity, price, timestamp, source: 'binance' });
+      expect(row!.fee).toBeCloseTo(fee);
+      expect(row!.externalId).toBe(`binance:${timestamp}:${symbol}:${type}:${quantity}:${price}`);
+    });
+
+    it('skips non-USD pairs and unreadable rows with line numbers', () => {
+      const result = importTrades(csv);
+
+      expect(result.skipped).toBe(2);
+      expect(result.errors).toEqual(['line 5: unsupported pair ETHBTC', 'line 6: unreadable row']);
+    });
+
+    it('reads the trade history layout with a separate fee coin', () => {
+      const result = importTrades(
+        'Date(UTC),Market,Type,Price,Amount,Total,Fee,Fee Coin\n2024-01-02 03:04:05,DOTUSDT,SELL,7,10,70,0.07,USDT'
+      );
+
+      expect(result.transactions).toEqual([
+        expect.objectContaining({ symbol: 'DOT', type: 'sell', quantity: 10, price: 7, fee: 0.07 }),
+      ]);
+    });
+  });
+
+  describe('kraken', () => {
+    const csv = [
+      'txid,ordertxid,pair,time,type,ordertype,price,cost,fee,vol',
+      'TX1,O1,XXBTZUSD,2024-01-02 03:04:05,sell,limit,42000,21000,33.6,0.5',
+      'TX2,O2,XETHZUSD,2024-01-03 00:00:00,buy,market,2500,5000,,2',
+      'TX3,O3,ADAUSD,2024-01-04 00:00:00,buy,market,0.5,50,0.1,100',
+      'TX4,O4,XXBTZEUR,2024-01-05 00:00:00,buy,market,40000,40000,64,1',
+    ].join('\n');
+
+    it.each([
+      ['TX1', 'BTC', 'sell', 0.5, 42000, 33.6],
+      ['TX2', 'ETH', 'buy', 2, 2500, 0],
+      ['TX3', 'ADA', 'buy', 100, 0.5, 0.1],
+    ])('reads %s as %s', (txid, symbol, type, quantity, price, fee) => {
+      const result = importTrades(csv);
+
+      expect(result.format).toBe('kraken');
+      expect(result.transactions).toContainEqual(
+        expect.objectContaining({ symbol, type, quantity, price, fee, source: 'kraken', externalId: `kraken:${txid}` })
+      );
+    });
+
+    it('skips pairs not quoted in USD', () => {
+      const result = importTrades(csv);
+
+      expect(result.transactions).toHaveLength(3);
+      expect(result.errors).toEqual(['line 5: unsupported pair XXBTZEUR']);
+    });
+  });
+
+  describe('generic', () => {
+    it.each([
+      ['ISO dates', '2024-01-02T03:04:05Z', at('2024-01-02T03:04:05Z')],
+      ['dates without a zone as UTC', '2024-01-02 03:04:05', at('2024-01-02T03:04:05Z')],
+      ['unix seconds', '1704164645', 1704164645000],
+      ['unix milliseconds', '1704164645000', 1704164645000],
+    ])('reads %s', (_name, date, timestamp) => {
+      const result = importTrades(`Time,Coin,Action,Qty,Price,Fee\n${date},btc,bought,0.5,42000,1`);
+
+      expect(result.format).toBe('generic');
+      expect(result.transactions).toEqual([
+        { symbol: 'BTC', type: 'buy', quantity: 0.5, price: 42000, fee: 1, timestamp, source: 'csv' },
+      ]);
+    });
+
+    it.each([
+      ['deposit', 'transfer_in'],
+      ['withdrawal', 'transfer_out'],
+      ['S', 'sell'],
+    ])('maps the %s side to %s', (side, type) => {
+      const result = importTrades(`date,symbol,side,amount,price\n2024-01-02,ETH,${side},-2,2500`);
+
+      expect(result.transactions[0]).toMatchObject({ type, quantity: 2, fee: 0 });
+    });
+
+    it('reports the columns it cannot find', () => {
+      const result = importTrades('When,Coin,Action,Qty,Cost\n2024-01-02,BTC,buy,1,42000');
+
+      expect(result.transactions).toEqual([]);
+      expect(result.missingColumns).toEqual(['date', 'price']);
+    });
+
+    it('uses a column mapping for unrecognized headers', () => {
+      const mapping = parseColumnMapping('date=When price="Cost Each" bogus=x');
+      const result = importTrades('When,Coin,Action,Qty,Cost Each\n2024-01-02,BTC,buy,1,42000', mapping);
+
+      expect(mapping).toEqual({ date: 'When', price: 'Cost Each' });
+      expect(result.missingColumns).toBeUndefined();
+      expect(result.transactions[0]).toMatchObject({ symbol: 'BTC', quantity: 1, price: 42000 });
+    });
+  });
+});